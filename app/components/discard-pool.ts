@@ -6,7 +6,7 @@ export function createDiscardPool(players: readonly PlayerState[], lastDiscard:
   const el = document.createElement('div');
   el.className = 'discard-pool';
 
-  for (let i = 0; i < 4; i++) {
+  for (let i = 0; i < players.length; i++) {
     const section = document.createElement('div');
     section.className = `discard-section discard-p${i}`;
 
@@ -39,11 +39,12 @@ export function createGameBoard(opts: GameBoardOptions): HTMLElement {
   el.className = 'game-board';
   const currentPlayer = state.currentPlayerIndex;
 
-  // Seat mapping: bottom=me, right=+1, top=+2, left=+3
+  // Seat mapping: bottom=me, right=+1, top=+2, left=+3 (three players leave the top empty)
+  const seatCount = state.players.length;
   const bottomIdx = mySeat;
-  const rightIdx = (mySeat + 1) % 4;
-  const topIdx = (mySeat + 2) % 4;
-  const leftIdx = (mySeat + 3) % 4;
+  const rightIdx = (mySeat + 1) % seatCount;
+  const topIdx = seatCount === 4 ? (mySeat + 2) % 4 : null;
+  const leftIdx = (mySeat + seatCount - 1) % seatCount;
 
   const human = state.players[bottomIdx];
   const canDiscard = validActions.some(a => a.type === 'discard');
@@ -60,16 +61,18 @@ export function createGameBoard(opts: GameBoardOptions): HTMLElement {
   el.appendChild(topInfo);
 
   // Top opponent — grid-area: top
-  const topOpp = createOpponentArea({
-    player: state.players[topIdx],
-    position: 'top',
-    isDealer: state.dealerIndex === topIdx,
-    isCurrentTurn: currentPlayer === topIdx,
-    name: names[topIdx],
-    avatar: avatars[topIdx],
-  });
-  topOpp.classList.add('area-top');
-  el.appendChild(topOpp);
+  if (topIdx !== null) {
+    const topOpp = createOpponentArea({
+      player: state.players[topIdx],
+      position: 'top',
+      isDealer: state.dealerIndex === topIdx,
+      isCurrentTurn: currentPlayer === topIdx,
+      name: names[topIdx],
+      avatar: avatars[topIdx],
+    });
+    topOpp.classList.add('area-top');
+    el.appendChild(topOpp);
+  }
 
   // Left opponent — grid-area: left
   const leftOpp = createOpponentArea({
@@ -1,5 +1,5 @@
 import type { ScreenContext } from '../main';
-import type { GameState, PlayerAction, SessionConfig, GameResult } from '@lib/game-types';
+import type { PerSeat, GameState, PlayerAction, SessionConfig, GameResult } from '@lib/game-types';
 import type { Tile } from '@lib/tiles';
 import { tileKey } from '@lib/tiles';
 import { canChow } from '@lib/game';
@@ -7,6 +7,8 @@ import { GameBridge } from '../state/game-bridge';
 import { NetworkBridge } from '../state/network-bridge';
 import { createGameBoard } from '../components/game-board';
 import { calculatePayments } from '@lib/payments';
+import type { RuleSet } from '@lib/rules';
+import { SINGAPORE_STANDARD_RULES, SINGAPORE_THREE_PLAYER_RULES } from '@lib/rules';
 
 export function renderGameScreen(ctx: ScreenContext): HTMLElement {
   const screen = document.createElement('div');
@@ -99,11 +101,13 @@ export function renderGameScreen(ctx: ScreenContext): HTMLElement {
   function renderBubbles() {
     bubbleOverlay.innerHTML = '';
     const mySeat = isOnline && networkBridge ? networkBridge.mySeat : 0;
+    const state = isOnline && networkBridge ? networkBridge.state : bridge.state;
+    const seatCount = state?.players.length ?? 4;
     for (const [playerIndex, text] of bubbles) {
       const el = document.createElement('div');
-      // Position relative to my seat: 0=bottom, +1=right, +2=top, +3=left
-      const relPos = (playerIndex - mySeat + 4) % 4;
-      const pos = ['bottom', 'right', 'top', 'left'][relPos];
+      // Position relative to my seat: 0=bottom, +1=right, +2=top, +3=left (no top with three players)
+      const positions = seatCount === 3 ? ['bottom', 'right', 'left'] : ['bottom', 'right', 'top', 'left'];
+      const pos = positions[(playerIndex - mySeat + positions.length) % positions.length];
       el.className = `speech-bubble speech-bubble-${pos}`;
       el.textContent = text;
       bubbleOverlay.appendChild(el);
@@ -141,7 +145,7 @@ export function renderGameScreen(ctx: ScreenContext): HTMLElement {
     // Detect new discards by tracking each player's discard array length.
     // This is cumulative (like openMelds), so we catch all discards even if
     // multiple happen between polls (e.g. agent claims are instant).
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < curr.players.length; i++) {
       const p = curr.players[i];
       if (!p) continue;
       const currDiscardLen = p.discards?.length ?? 0;
@@ -157,7 +161,7 @@ export function renderGameScreen(ctx: ScreenContext): HTMLElement {
     }
 
     // Detect new melds
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < curr.players.length; i++) {
       const p = curr.players[i];
       if (!p) continue;
       const currMeldLen = p.openMelds?.length ?? 0;
@@ -266,6 +270,39 @@ export function renderGameScreen(ctx: ScreenContext): HTMLElement {
     });
 
     screen.appendChild(board);
+
+    // Undo / redo for practice games — never offered in online rooms
+    if (!isOnline) {
+      screen.appendChild(renderUndoBar());
+    }
+  }
+
+  function renderUndoBar(): HTMLElement {
+    const bar = document.createElement('div');
+    bar.className = 'undo-bar';
+
+    const undoBtn = document.createElement('button');
+    undoBtn.className = 'btn btn-secondary';
+    undoBtn.textContent = 'Undo';
+    undoBtn.disabled = !bridge.canUndo;
+    undoBtn.addEventListener('click', () => {
+      selectedTile = null;
+      lastDrawnTileId = null;
+      bridge.undo();
+    });
+
+    const redoBtn = document.createElement('button');
+    redoBtn.className = 'btn btn-secondary';
+    redoBtn.textContent = 'Redo';
+    redoBtn.disabled = !bridge.canRedo;
+    redoBtn.addEventListener('click', async () => {
+      selectedTile = null;
+      lastDrawnTileId = null;
+      await bridge.redo();
+    });
+
+    bar.append(undoBtn, redoBtn);
+    return bar;
   }
 
   function handleTileClick(tile: Tile) {
@@ -600,7 +637,7 @@ export function renderGameScreen(ctx: ScreenContext): HTMLElement {
   function renderOnlineResult(state: any): HTMLElement {
     const result = state.result as GameResult | null;
     const sessionInfo = state.sessionInfo as {
-      scores: [number, number, number, number];
+      scores: PerSeat<number>;
       roundNumber: number;
       dealerIndex: number;
       prevailingWind: string;
@@ -614,21 +651,32 @@ export function renderGameScreen(ctx: ScreenContext): HTMLElement {
 
     let heading = '';
     let details = '';
+    // Servers before rules were shared send none: those rounds were Singapore rules
+    const rules: RuleSet = state.rules
+      ?? (state.players.length === 3 ? SINGAPORE_THREE_PLAYER_RULES : SINGAPORE_STANDARD_RULES);
+    const hongKong = rules.scoringSystem === 'hongKongOldStyle';
 
     if (!result || result.type === 'draw') {
       heading = 'Draw Game';
-      details = '<p>The wall was exhausted with no winner.</p>';
+      details = result?.drawReason === 'fourKongs'
+        ? '<p>Four kongs were declared — the round is abandoned.</p>'
+        : result?.drawReason === 'fourWinds'
+          ? '<p>All four players discarded the same wind — the round is abandoned.</p>'
+          : '<p>The wall was exhausted with no winner.</p>';
     } else if (result.winnerIndex !== undefined) {
       const isMe = result.winnerIndex === mySeat;
-      heading = isMe ? 'You Win!' : `${names[result.winnerIndex]} Wins`;
+      heading = result.winners
+        ? `${result.winners.map(w => names[w.winnerIndex]).join(' & ')} Win`
+        : isMe ? 'You Win!' : `${names[result.winnerIndex]} Wins`;
 
       if (result.scoring) {
+        const unit = hongKong ? 'faan' : 'tai';
         const scoringLines = result.scoring.details
-          .map(d => `<li>${d.name}: ${d.tai} tai</li>`)
+          .map(d => `<li>${d.name}: ${d.tai} ${unit}</li>`)
           .join('');
         details = `
           <div class="scoring-breakdown">
-            <p class="total-tai">${result.scoring.tai} Tai Total</p>
+            <p class="total-tai">${result.scoring.tai} ${hongKong ? 'Faan' : 'Tai'} Total</p>
             <ul class="scoring-list">${scoringLines}</ul>
           </div>
         `;
@@ -640,9 +688,9 @@ export function renderGameScreen(ctx: ScreenContext): HTMLElement {
       ? { base: ctx.screenData?.roomSettings?.base ?? 0.20, taiCap: ctx.screenData?.roomSettings?.taiCap ?? 5, shooterPays: ctx.screenData?.roomSettings?.shooterPays ?? true }
       : { base: 0.20, taiCap: 5, shooterPays: true };
 
-    // Calculate payments for this round
-    const payments = result ? calculatePayments(result, paymentConfig)
-      : { deltas: [0, 0, 0, 0] as [number, number, number, number] };
+    // Calculate payments for this round under the table's rules
+    const payments = result ? calculatePayments(result, paymentConfig, rules)
+      : { deltas: state.players.map(() => 0) as PerSeat<number> };
 
     const paymentRows = payments.deltas
       .map((d, i) => {
@@ -54,6 +54,20 @@ export function renderLobbyScreen(ctx: ScreenContext): HTMLElement {
             <details class="game-options" open>
               <summary>Game Options</summary>
               <div class="game-options-fields">
+                <label>
+                  Players
+                  <select id="seat-count" class="lobby-input">
+                    <option value="4" selected>4 players</option>
+                    <option value="3">3 players</option>
+                  </select>
+                </label>
+                <label>
+                  Scoring
+                  <select id="scoring-system" class="lobby-input">
+                    <option value="singapore" selected>Singapore (tai)</option>
+                    <option value="hongKongOldStyle">Hong Kong Old Style (faan)</option>
+                  </select>
+                </label>
                 <label>
                   Turn Timeout
                   <select id="turn-timeout" class="lobby-input">
@@ -163,17 +177,21 @@ export function renderLobbyScreen(ctx: ScreenContext): HTMLElement {
     const playerInput = screen.querySelector('#player-name') as HTMLInputElement;
     const turnTimeoutSelect = screen.querySelector('#turn-timeout') as HTMLSelectElement;
     const betweenRoundsSelect = screen.querySelector('#between-rounds-timeout') as HTMLSelectElement;
+    const seatCountSelect = screen.querySelector('#seat-count') as HTMLSelectElement;
+    const scoringSelect = screen.querySelector('#scoring-system') as HTMLSelectElement;
     const roomName = nameInput.value.trim() || 'Mahjong Room';
     const playerName = playerInput.value.trim() || 'Player';
     const turnTimeout = parseInt(turnTimeoutSelect.value, 10);
     const betweenRoundsTimeout = parseInt(betweenRoundsSelect.value, 10);
+    const seats = parseInt(seatCountSelect.value, 10);
+    const scoringSystem = scoringSelect.value;
 
     try {
       const res = await fetch(`${SERVER}/api/rooms`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          settings: { name: roomName, turnTimeout, betweenRoundsTimeout },
+          settings: { name: roomName, turnTimeout, betweenRoundsTimeout, seats, scoringSystem },
           playerName,
         }),
       });
@@ -1,5 +1,5 @@
 import type { ScreenContext } from '../main';
-import type { RoundRecord, SessionState } from '@lib/game-types';
+import type { DrawReason, RoundRecord, SessionState } from '@lib/game-types';
 import type { GameBridge } from '../state/game-bridge';
 import { taiToAmount } from '@lib/payments';
 
@@ -10,7 +10,18 @@ interface ResultScreenData {
   bridge: GameBridge;
 }
 
-const SEAT_NAMES = ['You', 'Right (AI)', 'Across (AI)', 'Left (AI)'];
+/** Seat labels from the player's point of view; three players leave nobody across. */
+function seatNames(seats: number): string[] {
+  return seats === 3
+    ? ['You', 'Right (AI)', 'Left (AI)']
+    : ['You', 'Right (AI)', 'Across (AI)', 'Left (AI)'];
+}
+
+const DRAW_REASONS: Record<DrawReason, string> = {
+  wallExhausted: 'The wall was exhausted with no winner.',
+  fourKongs: 'Four kongs were declared — the round is abandoned.',
+  fourWinds: 'All four players discarded the same wind — the round is abandoned.',
+};
 
 export function renderResultScreen(ctx: ScreenContext): HTMLElement {
   const screen = document.createElement('div');
@@ -18,36 +29,59 @@ export function renderResultScreen(ctx: ScreenContext): HTMLElement {
   const data = ctx.screenData as ResultScreenData;
   const { record, session, bridge } = data;
   const result = record.result;
+  const names = seatNames(session.config.rules.seats);
 
   let heading = '';
   let details = '';
 
   if (result.type === 'draw') {
     heading = 'Draw Game';
-    details = 'The wall was exhausted with no winner.';
+    details = DRAW_REASONS[result.drawReason ?? 'wallExhausted'];
   } else if (result.winnerIndex !== undefined) {
-    const winnerName = SEAT_NAMES[result.winnerIndex];
-    heading = result.winnerIndex === 0 ? 'You Win!' : `${winnerName} Wins`;
+    const winnerName = names[result.winnerIndex];
+    heading = result.winners
+      ? `${result.winners.map(w => names[w.winnerIndex]).join(' & ')} Win`
+      : result.winnerIndex === 0 ? 'You Win!' : `${winnerName} Wins`;
 
     if (result.scoring) {
+      const unit = session.config.rules.scoringSystem === 'hongKongOldStyle' ? 'faan' : 'tai';
       const scoringLines = result.scoring.details
-        .map(d => `<li>${d.name}: ${d.tai} tai</li>`)
+        .map(d => `<li>${d.name}: ${d.tai} ${unit}</li>`)
         .join('');
       details = `
         <div class="scoring-breakdown">
-          <p class="total-tai">${result.scoring.tai} Tai Total</p>
+          <p class="total-tai">${result.scoring.tai} ${unit === 'faan' ? 'Faan' : 'Tai'} Total</p>
           <ul class="scoring-list">${scoringLines}</ul>
         </div>
       `;
     }
   }
 
+  // Responsibility (包): one player pays for the whole hand
+  if (result.responsibility && session.config.rules.responsibilityPayments) {
+    const { playerIndex, pattern } = result.responsibility;
+    details += `<p>${names[playerIndex]} fed the ${pattern} and pays the whole hand.</p>`;
+  }
+
+  // Dealer streak (连庄) carried into the next round
+  if (session.dealerStreak > 0) {
+    details += `<p>${names[session.dealerIndex]} keeps the deal — streak of ${session.dealerStreak}.</p>`;
+  }
+
+  // Instant payments (animal pairs) settled during the round
+  const instantLines = record.payments.instantPayments
+    .map(p => `<li>${names[p.playerIndex]}: ${p.name} +$${p.deltas[p.playerIndex].toFixed(2)}</li>`)
+    .join('');
+  if (instantLines) {
+    details += `<ul class="scoring-list">${instantLines}</ul>`;
+  }
+
   // Payment deltas
   const paymentRows = record.payments.deltas
     .map((d, i) => {
       const sign = d > 0 ? '+' : '';
       const cls = d > 0 ? 'positive' : d < 0 ? 'negative' : '';
-      return `<tr class="${cls}"><td>${SEAT_NAMES[i]}</td><td>${sign}$${d.toFixed(2)}</td></tr>`;
+      return `<tr class="${cls}"><td>${names[i]}</td><td>${sign}$${d.toFixed(2)}</td></tr>`;
     })
     .join('');
 
@@ -55,7 +89,7 @@ export function renderResultScreen(ctx: ScreenContext): HTMLElement {
   const scoreRows = session.scores
     .map((s, i) => {
       const sign = s > 0 ? '+' : '';
-      return `<tr><td>${SEAT_NAMES[i]}</td><td>${sign}$${s.toFixed(2)}</td></tr>`;
+      return `<tr><td>${names[i]}</td><td>${sign}$${s.toFixed(2)}</td></tr>`;
     })
     .join('');
 
@@ -1,6 +1,21 @@
 import type { ScreenContext } from '../main';
 import type { PaymentConfig, SessionConfig } from '@lib/game-types';
 import { DEFAULT_PAYMENT_CONFIG } from '@lib/payments';
+import type { RuleSet } from '@lib/rules';
+import {
+  SINGAPORE_STANDARD_RULES,
+  SINGAPORE_THREE_PLAYER_RULES,
+  HONG_KONG_OLD_STYLE_RULES,
+  HONG_KONG_THREE_PLAYER_RULES,
+} from '@lib/rules';
+
+/** Rule sets offered for a new game, by select value. */
+const RULE_CHOICES: Record<string, RuleSet> = {
+  singapore: SINGAPORE_STANDARD_RULES,
+  singapore3: SINGAPORE_THREE_PLAYER_RULES,
+  hongKong: HONG_KONG_OLD_STYLE_RULES,
+  hongKong3: HONG_KONG_THREE_PLAYER_RULES,
+};
 
 export function renderSetupScreen(ctx: ScreenContext): HTMLElement {
   const screen = document.createElement('div');
@@ -25,6 +40,15 @@ export function renderSetupScreen(ctx: ScreenContext): HTMLElement {
           <span>Shooter pays</span>
           <input type="checkbox" id="shooter-pays" ${config.shooterPays ? 'checked' : ''}>
         </label>
+        <label class="setup-field">
+          <span>Rules</span>
+          <select id="rule-set">
+            <option value="singapore" selected>Singapore (tai)</option>
+            <option value="singapore3">Singapore, 3 players (no chow)</option>
+            <option value="hongKong">Hong Kong Old Style (faan)</option>
+            <option value="hongKong3">Hong Kong Old Style, 3 players (no chow)</option>
+          </select>
+        </label>
         <label class="setup-field">
           <span>Wind rounds</span>
           <select id="wind-rounds">
@@ -50,11 +74,13 @@ export function renderSetupScreen(ctx: ScreenContext): HTMLElement {
     const taiCap = parseInt((screen.querySelector('#tai-cap') as HTMLInputElement).value) || 5;
     const shooterPays = (screen.querySelector('#shooter-pays') as HTMLInputElement).checked;
     const windRounds = parseInt((screen.querySelector('#wind-rounds') as HTMLSelectElement).value) || 1;
+    const rules = RULE_CHOICES[(screen.querySelector('#rule-set') as HTMLSelectElement).value] ?? SINGAPORE_STANDARD_RULES;
 
     const sessionConfig: Partial<SessionConfig> = {
-      playerTypes: ['human', 'ai', 'ai', 'ai'],
+      playerTypes: rules.seats === 3 ? ['human', 'ai', 'ai'] : ['human', 'ai', 'ai', 'ai'],
       payment: { base, taiCap, shooterPays },
       windRounds,
+      rules,
     };
 
     ctx.navigate('game', { sessionConfig });
@@ -209,6 +209,31 @@ export class GameBridge {
     this.game.drawTile();
   }
 
+  // Undo / redo — local practice games only (online rooms use NetworkBridge)
+
+  get canUndo(): boolean {
+    return !this.advancing && (this.game?.canUndo ?? false);
+  }
+
+  get canRedo(): boolean {
+    return !this.advancing && (this.game?.canRedo ?? false);
+  }
+
+  /** Take back the human's last decision and the AI turns after it. */
+  undo() {
+    if (this.advancing || !this.game) return;
+    if (this.game.undo()) this.notifyUpdate();
+  }
+
+  /** Replay the undone decision and AI turns up to the next human decision. */
+  async redo() {
+    if (this.advancing || !this.game) return;
+    if (this.game.redo()) {
+      this.notifyUpdate();
+      await this.advanceAnimated();
+    }
+  }
+
   subscribeSession(listener: (event: SessionEvent) => void): () => void {
     return this.session.onSession(listener);
   }
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { GameRunner } from '../game-runner';
 import type { Room } from '../room-manager';
 import type { PlayerAction } from '@lib/game-types';
+import { createScriptedStrategy } from '@lib/strategy';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -17,6 +18,8 @@ function makeRoom(seatTypes: Array<'human' | 'ai-standby'> = ['human', 'ai-stand
       taiCap: 5,
       shooterPays: true,
       windRounds: 1,
+      seats: seatTypes.length as 3 | 4,
+      scoringSystem: 'singapore',
     },
     seats: seatTypes.map((type, i) => ({
       type,
@@ -62,7 +65,14 @@ describe('GameRunner', () => {
     // Seats 1-3 are ai-standby → mapped to 'ai' in engine
     expect(runner.state.players[1].type).toBe('ai');
     expect(runner.state.players[2].type).toBe('ai');
-    expect(runner.state.players[3].type).toBe('ai');
+    expect(runner.state.players[3]!.type).toBe('ai');
+  });
+
+  it('deals a three-player game in a three-seat room', () => {
+    const threeSeats = new GameRunner(makeRoom(['human', 'ai-standby', 'ai-standby']), vi.fn());
+    expect(threeSeats.state.players).toHaveLength(3);
+    expect(threeSeats.state.rules.allowChow).toBe(false);
+    threeSeats.destroy();
   });
 
   it('human seats get playerType human', () => {
@@ -134,4 +144,21 @@ describe('GameRunner', () => {
     // Should not throw
     runner.destroy();
   });
+
+  it('plays seats through injected strategies', async () => {
+    const botRoom = makeRoom(['ai-standby', 'ai-standby', 'ai-standby', 'ai-standby']);
+    const botRunner = new GameRunner(botRoom, vi.fn());
+    const seen: number[] = [];
+    const bot = createScriptedStrategy((_state, seat, actions) => {
+      seen.push(seat);
+      return actions.find(a => a.type === 'discard') ?? actions.find(a => a.type === 'pass') ?? actions[0];
+    });
+    for (let i = 0; i < 4; i++) botRunner.setStrategy(i, bot);
+
+    await botRunner.run();
+    expect(botRunner.state.phase).toBe('roundOver');
+    expect(new Set(seen)).toEqual(new Set([0, 1, 2, 3]));
+    expect(() => botRunner.setStrategy(4, bot)).toThrow('No seat 4 at this table');
+    botRunner.destroy();
+  });
 });
@@ -9,7 +9,9 @@ import {
   finishRoom,
   deleteRoom,
   roomCount,
+  roomRules,
 } from '../room-manager';
+import { HONG_KONG_OLD_STYLE_RULES, HONG_KONG_THREE_PLAYER_RULES } from '../../../src/rules';
 
 // Track created room IDs for cleanup
 const createdRoomIds: string[] = [];
@@ -41,6 +43,10 @@ describe('createRoom', () => {
     expect(room.seats[3].type).toBe('empty');
   });
 
+  it('rejects a seat count other than 3 or 4', () => {
+    expect(() => createRoom({ seats: 5 as 4 })).toThrow('A room has 3 or 4 seats');
+  });
+
   it('assigns unique IDs', () => {
     const r1 = createTrackedRoom();
     const r2 = createTrackedRoom();
@@ -149,6 +155,24 @@ describe('startRoom', () => {
     expect(() => startRoom(room.id, 1)).toThrow('Only the host');
   });
 
+  it('fills a three-seat room and plays it under three-player rules', () => {
+    const { room } = createTrackedRoom({ seats: 3 });
+    joinRoom(room.id, 'Bob');
+    startRoom(room.id, 0);
+
+    expect(room.seats.map(s => s.type)).toEqual(['human', 'human', 'ai-standby']);
+    expect(() => joinRoom(room.id, 'Carol')).toThrow();
+    expect(roomRules(room.settings)).toMatchObject({ seats: 3, allowChow: false });
+  });
+
+  it('plays a Hong Kong room under Hong Kong rules, three-player included', () => {
+    const { room } = createTrackedRoom({ scoringSystem: 'hongKongOldStyle' });
+    const threeSeats = createTrackedRoom({ seats: 3, scoringSystem: 'hongKongOldStyle' }).room;
+
+    expect(roomRules(room.settings)).toBe(HONG_KONG_OLD_STYLE_RULES);
+    expect(roomRules(threeSeats.settings)).toBe(HONG_KONG_THREE_PLAYER_RULES);
+  });
+
   it('transitions status to playing', () => {
     const { room } = createTrackedRoom();
     startRoom(room.id, 0);
@@ -6,6 +6,7 @@ import {
 } from '../state-filter';
 import type { GameState, PlayerState, GameEvent, PlayerAction } from '@lib/game-types';
 import type { Tile, Wind } from '@lib/tiles';
+import { SINGAPORE_STANDARD_RULES } from '@lib/rules';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -51,8 +52,14 @@ function makeGameState(overrides: Partial<GameState> = {}): GameState {
     firstTurnComplete: false,
     prevailingWind: 'east',
     dealerIndex: 0,
+    rules: SINGAPORE_STANDARD_RULES,
     lastDiscard: null,
     lastDiscardPlayerIndex: null,
+    robbingKong: false,
+    kongReplacementDraw: false,
+    bonusPayouts: [],
+    actionLog: [],
+    seed: 0,
     result: null,
     ...overrides,
   };
@@ -78,7 +85,7 @@ describe('filterStateForPlayer', () => {
 
     expect(filtered.players[1].handTiles).toBeUndefined();
     expect(filtered.players[2].handTiles).toBeUndefined();
-    expect(filtered.players[3].handTiles).toBeUndefined();
+    expect(filtered.players[3]!.handTiles).toBeUndefined();
   });
 
   it('adds handTileCount for all players', () => {
@@ -88,7 +95,7 @@ describe('filterStateForPlayer', () => {
     expect(filtered.players[0].handTileCount).toBe(3);
     expect(filtered.players[1].handTileCount).toBe(2);
     expect(filtered.players[2].handTileCount).toBe(2);
-    expect(filtered.players[3].handTileCount).toBe(2);
+    expect(filtered.players[3]!.handTileCount).toBe(2);
   });
 
   it('replaces wall with wallCount', () => {
@@ -229,6 +236,43 @@ describe('buildAgentState', () => {
     expect(south!.discards).toContain('Dots 9');
   });
 
+  it('lists waiting tiles with unseen copies', () => {
+    const hand = [
+      ...[1, 2, 3, 4, 5, 6, 7, 8, 9].map(v => makeTile('bamboo', v)),
+      makeTile('dots', 2), makeTile('dots', 3), makeTile('dots', 4), makeTile('dots', 5),
+    ];
+    const state = makeGameState();
+    state.players[0].handTiles = hand;
+    state.players[1].discards.push(makeTile('dots', 5, 2));
+    const agent = buildAgentState(state, 0, []);
+
+    expect(agent.yourWaitingTiles).toEqual([
+      { tile: 'Dots 2', unseen: 3 },
+      { tile: 'Dots 5', unseen: 2 },
+    ]);
+    expect(agent.yourShanten).toBe(0);
+    expect(agent.yourDiscardOptions).toEqual([]);
+  });
+
+  it('lists discard options when it is your turn to discard', () => {
+    const hand = [
+      ...[1, 2, 3, 4, 5, 6, 7, 8, 9].map(v => makeTile('bamboo', v)),
+      makeTile('dots', 2), makeTile('dots', 3), makeTile('dots', 4), makeTile('dots', 5),
+      makeTile('dragons', 'red'),
+    ];
+    const state = makeGameState();
+    state.players[0].handTiles = hand;
+    const agent = buildAgentState(state, 0, hand.map(tile => ({ type: 'discard' as const, tile })));
+
+    expect(agent.yourShanten).toBe(0);
+    expect(agent.yourDiscardOptions[0]).toEqual({
+      tile: 'Dragon red',
+      shanten: 0,
+      improvingTiles: [{ tile: 'Dots 2', unseen: 3 }, { tile: 'Dots 5', unseen: 3 }],
+      improvingCount: 6,
+    });
+  });
+
   it('reports isYourTurn false for non-current player', () => {
     const state = makeGameState({ currentPlayerIndex: 2 });
     const agent = buildAgentState(state, 0, []);
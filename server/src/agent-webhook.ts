@@ -4,9 +4,13 @@
  * Two modes:
  * 1. Built-in LLM brain — server calls an OpenAI-compatible API directly.
  * 2. Webhook callback — server POSTs game state, expects action in response.
+ *
+ * createAgentStrategy wraps either mode as the seat's PlayerStrategy.
  */
 
 import type { GameState, PlayerAction } from '../../src/game-types';
+import type { PlayerStrategy } from '../../src/strategy';
+import { aiStrategy } from '../../src/strategy';
 import type { AgentFriendlyState } from './state-filter.js';
 import { buildAgentState } from './state-filter.js';
 import { getValidActions } from '../../src/game';
@@ -77,6 +81,27 @@ export async function handleAgentTurn(
   throw new Error('Agent failed to produce a valid action after retries');
 }
 
+/**
+ * The strategy of an agent seat: its turns go to the LLM or webhook,
+ * falling back to the AI when the agent fails. Claims are decided by the
+ * AI directly — they are mechanical (win > kong > pong > chow > pass), so
+ * the agent is only asked for the complex discard decisions.
+ */
+export function createAgentStrategy(config: AgentConfig): PlayerStrategy {
+  return {
+    async decide(state, seatIndex, validActions) {
+      if (state.phase === 'claimWindow') return aiStrategy.decide(state, seatIndex, validActions);
+      try {
+        const result = await handleAgentTurn(state, seatIndex, validActions, config);
+        return { action: result.action, trashtalk: result.trashTalk };
+      } catch (err) {
+        console.warn(`[AgentTurn] Agent turn failed for seat ${seatIndex}, falling back to AI:`, err);
+        return aiStrategy.decide(state, seatIndex, validActions);
+      }
+    },
+  };
+}
+
 // ---------------------------------------------------------------------------
 // LLM Integration (OpenAI-compatible)
 // ---------------------------------------------------------------------------
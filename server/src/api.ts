@@ -14,6 +14,7 @@ import {
   leaveRoom,
   startRoom,
   finishRoom,
+  roomRules,
 } from './room-manager.js';
 import { GameRunner } from './game-runner.js';
 import { createSession, processRoundResult } from '../../src/game-session';
@@ -167,6 +168,7 @@ router.post('/rooms/:id/start', requireAuth, (req: Request, res: Response) => {
 
     // Create multi-round session
     const session = createSession({
+      rules: roomRules(room.settings),
       windRounds: room.settings.windRounds,
       payment: {
         base: room.settings.base,
@@ -190,7 +192,7 @@ router.post('/rooms/:id/start', requireAuth, (req: Request, res: Response) => {
     runner.run().then(() => {
       // Round completed — process result into session
       if (room.sessionState && runner.state.result) {
-        const { session: updated } = processRoundResult(room.sessionState, runner.state.result);
+        const { session: updated } = processRoundResult(room.sessionState, runner.state.result, runner.state);
         room.sessionState = updated;
         console.log(`[API] Round complete in room ${roomId}. Session scores: ${updated.scores}, finished: ${updated.finished}`);
 
@@ -278,7 +280,7 @@ router.post('/rooms/:id/nextRound', requireAuth, (req: Request, res: Response) =
     // Start the game loop asynchronously
     runner.run().then(() => {
       if (room.sessionState && runner.state.result) {
-        const { session: updated } = processRoundResult(room.sessionState, runner.state.result);
+        const { session: updated } = processRoundResult(room.sessionState, runner.state.result, runner.state);
         room.sessionState = updated;
         console.log(`[API] Round complete in room ${roomId}. Session scores: ${updated.scores}, finished: ${updated.finished}`);
 
@@ -2,6 +2,9 @@
 
 export const PORT = parseInt(process.env.PORT ?? '3001', 10);
 
+/** Check every game state for broken invariants (lost or duplicated tiles, wrong hand sizes). Debug aid. */
+export const DEBUG_STATE_CHECKS = process.env.DEBUG_STATE_CHECKS === '1';
+
 /** How long players have to submit a claim (pong/kong/chow/win) in ms. */
 export const CLAIM_TIMEOUT_MS = 8_000;
 
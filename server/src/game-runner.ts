@@ -3,7 +3,7 @@
  *
  * Wraps the pure game engine functions for server use:
  * - Validates and applies player actions
- * - Auto-plays AI-standby seats
+ * - Plays AI-standby and agent seats through their PlayerStrategy
  * - Manages claim window with timeout
  * - Broadcasts filtered state/events to connected clients
  */
@@ -16,34 +16,54 @@ import {
   claimChow,
   claimKong,
   claimWin,
+  claimWins,
   passClaim,
   declareKong,
   promotePungToKong,
   declareSelfWin,
   getValidActions,
 } from '../../src/game';
-import { getAIDecision } from '../../src/ai';
-import type { GameState, GameEvent, PlayerAction, PlayerType } from '../../src/game-types';
+import type { PerSeat, GameState, GameEvent, PlayerAction, PlayerType } from '../../src/game-types';
+import type { PlayerStrategy, SeatStrategies } from '../../src/strategy';
+import { aiStrategy, humanStrategy } from '../../src/strategy';
 import type { Tile, Wind } from '../../src/tiles';
 import { tilesMatch } from '../../src/tiles';
 import { filterStateForPlayer, filterEventForPlayer } from './state-filter.js';
-import { CLAIM_TIMEOUT_MS } from './config.js';
-import type { Room } from './room-manager.js';
-import { handleAgentTurn } from './agent-webhook.js';
+import { CLAIM_TIMEOUT_MS, DEBUG_STATE_CHECKS } from './config.js';
+import { roomRules } from './room-manager.js';
+import type { Room, Seat } from './room-manager.js';
+import { createAgentStrategy } from './agent-webhook.js';
 import { getTrashTalk } from '../../src/trash-talk';
+import { roundSeed } from '../../src/game-session';
+import { deriveSeed } from '../../src/random';
+import { assertValidGameState } from '../../src/state-check';
 
 export type BroadcastFn = (seatIndex: number, type: string, data: unknown) => void;
 
+/** The strategy a room seat plays by: AI-standby seats the AI, agents their LLM or webhook, humans their client. */
+function seatStrategy(seat: Seat, seatIndex: number): PlayerStrategy {
+  if (seat.type === 'ai-standby') return aiStrategy;
+  if (seat.type === 'agent') {
+    if (seat.agentConfig) return createAgentStrategy(seat.agentConfig);
+    // No config — shouldn't happen, fall back to AI
+    console.warn(`[GameRunner] Agent seat ${seatIndex} has no agentConfig, falling back to AI`);
+    return aiStrategy;
+  }
+  return humanStrategy;
+}
+
 export class GameRunner {
   state: GameState;
   private broadcast: BroadcastFn;
   private room: Room;
+  /** How each seat decides; external seats wait for their client's action. */
+  private strategies: SeatStrategies;
   private claimTimer: ReturnType<typeof setTimeout> | null = null;
   private turnTimer: ReturnType<typeof setTimeout> | null = null;
   private pendingClaims: Map<number, PlayerAction> = new Map();
   private claimResolve: (() => void) | null = null;
   /** Track consecutive timeouts per seat — auto-promote to AI after threshold. */
-  private timeoutCount: [number, number, number, number] = [0, 0, 0, 0];
+  private timeoutCount: number[];
   private static readonly AUTO_AI_THRESHOLD = 2;
   /** Recent player messages (trash talk) — for HTTP polling clients to pick up. */
   private _recentMessages: Array<{ playerIndex: number; message: string; ts: number }> = [];
@@ -52,21 +72,45 @@ export class GameRunner {
   constructor(room: Room, broadcast: BroadcastFn, dealerIndex?: number, prevailingWind?: Wind) {
     this.room = room;
     this.broadcast = broadcast;
+    this.timeoutCount = room.seats.map(() => 0);
+    this.strategies = room.seats.map(seatStrategy) as SeatStrategies;
 
     // Map room seat types to engine player types
     // 'agent' seats are treated as 'human' in the engine — the server handles their turns
-    const playerTypes: [PlayerType, PlayerType, PlayerType, PlayerType] = room.seats.map(
-      s => (s.type === 'ai-standby' ? 'ai' : 'human'),
-    ) as [PlayerType, PlayerType, PlayerType, PlayerType];
-
-    this.state = createGame(playerTypes, prevailingWind ?? 'east', dealerIndex ?? 0);
+    const playerTypes = room.seats.map(
+      (s): PlayerType => (s.type === 'ai-standby' ? 'ai' : 'human'),
+    ) as PerSeat<PlayerType>;
+
+    // Sessions deal each round from a seed derived from the session seed
+    const session = room.sessionState;
+    this.state = createGame(
+      playerTypes,
+      prevailingWind ?? 'east',
+      dealerIndex ?? 0,
+      session?.config.rules ?? roomRules(room.settings),
+      session ? roundSeed(session, session.rounds.length + 1) : undefined,
+    );
     this.broadcastState();
     this.broadcastAllEvent({ type: 'gameStarted', state: this.state });
   }
 
+  /** Replace the strategy a seat plays by, e.g. a deterministic bot in tests. */
+  setStrategy(seatIndex: number, strategy: PlayerStrategy): void {
+    if (seatIndex < 0 || seatIndex >= this.strategies.length) {
+      throw new Error(`No seat ${seatIndex} at this table`);
+    }
+    this.strategies[seatIndex] = strategy;
+  }
+
+  /** Move to a new state, asserting its invariants when DEBUG_STATE_CHECKS is on. */
+  private setState(state: GameState): void {
+    if (DEBUG_STATE_CHECKS) assertValidGameState(state);
+    this.state = state;
+  }
+
   /** Broadcast filtered state to each connected player. */
   private broadcastState(): void {
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < this.room.seats.length; i++) {
       if (this.room.seats[i].type === 'human' || this.room.seats[i].type === 'agent') {
         this.broadcast(i, 'gameState', filterStateForPlayer(this.state, i, this.room.sessionState));
       }
@@ -75,7 +119,7 @@ export class GameRunner {
 
   /** Broadcast a filtered event to each connected player. */
   private broadcastAllEvent(event: GameEvent): void {
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < this.room.seats.length; i++) {
       if (this.room.seats[i].type === 'human' || this.room.seats[i].type === 'agent') {
         this.broadcast(i, 'gameEvent', filterEventForPlayer(event, i));
       }
@@ -116,17 +160,15 @@ export class GameRunner {
     if (phase === 'draw') {
       // Draw phase — auto-draw for everyone (server-authoritative)
       const result = drawTile(this.state);
-      this.state = result.state;
+      this.setState(result.state);
       for (const e of result.events) this.broadcastAllEvent(e);
       this.broadcastState();
       return;
     }
 
     if (phase === 'postDraw' || phase === 'discard') {
-      if (seatType === 'ai-standby') {
-        await this.doAITurn(currentPlayerIndex);
-      } else if (seatType === 'agent') {
-        await this.doAgentTurn(currentPlayerIndex);
+      if (!this.strategies[currentPlayerIndex].external) {
+        await this.doStrategyTurn(currentPlayerIndex);
       } else {
         // Human (or auto-AI promoted human) — notify and wait.
         // Even auto-AI seats get notified so the player can reclaim by acting.
@@ -167,6 +209,11 @@ export class GameRunner {
     return msgs;
   }
 
+  /** Per-turn seed so canned trash talk replays with the round. */
+  private trashTalkSeed(seatIndex: number): number {
+    return deriveSeed(this.state.seed, this.state.turnNumber, seatIndex);
+  }
+
   /** Map a PlayerAction type to a trash talk context key. */
   private actionToTrashTalkContext(action: PlayerAction): string {
     switch (action.type) {
@@ -180,98 +227,53 @@ export class GameRunner {
     }
   }
 
-  /** Execute AI turn for an ai-standby seat. */
-  private async doAITurn(seatIndex: number): Promise<void> {
+  /** Play a seat's turn through its strategy, with its trash talk or a canned phrase. */
+  private async doStrategyTurn(seatIndex: number): Promise<void> {
     const actions = getValidActions(this.state, seatIndex);
     if (actions.length === 0) return;
 
-    const decision = await getAIDecision(this.state, seatIndex, actions);
+    const decision = await this.strategies[seatIndex].decide(this.state, seatIndex, actions);
     this.applyAction(seatIndex, decision.action);
 
-    const context = this.actionToTrashTalkContext(decision.action);
-    if (context) {
-      const talk = getTrashTalk(context);
-      if (talk) this.emitTrashTalk(seatIndex, talk);
-    }
-  }
-
-  /** Execute an agent turn via LLM/webhook, falling back to heuristic AI on failure. */
-  private async doAgentTurn(seatIndex: number): Promise<void> {
-    const actions = getValidActions(this.state, seatIndex);
-    if (actions.length === 0) return;
-
-    const config = this.room.seats[seatIndex].agentConfig;
-    if (!config) {
-      // No config — shouldn't happen, fall back to AI
-      console.warn(`[GameRunner] Agent seat ${seatIndex} has no agentConfig, falling back to AI`);
-      await this.doAITurn(seatIndex);
-      return;
-    }
-
-    try {
-      const result = await handleAgentTurn(this.state, seatIndex, actions, config);
-      this.applyAction(seatIndex, result.action);
-
-      // Use LLM trash talk if provided, otherwise fall back to canned phrases
-      if (result.trashTalk) {
-        this.emitTrashTalk(seatIndex, result.trashTalk);
-      } else {
-        const context = this.actionToTrashTalkContext(result.action);
-        if (context) {
-          const talk = getTrashTalk(context);
-          if (talk) this.emitTrashTalk(seatIndex, talk);
-        }
+    if (decision.trashtalk) {
+      this.emitTrashTalk(seatIndex, decision.trashtalk);
+    } else {
+      const context = this.actionToTrashTalkContext(decision.action);
+      if (context) {
+        const talk = getTrashTalk(context, this.trashTalkSeed(seatIndex));
+        if (talk) this.emitTrashTalk(seatIndex, talk);
       }
-    } catch (err) {
-      console.warn(`[GameRunner] Agent turn failed for seat ${seatIndex}, falling back to AI:`, err);
-      await this.doAITurn(seatIndex);
     }
   }
 
   /**
    * Collect claims during claim window.
-   * AI claims instantly; human/agent players have CLAIM_TIMEOUT_MS.
+   * Strategy seats claim instantly; human players are waited for.
    * Priority: win > pong/kong > chow. Chow only from left player.
    */
   private async handleClaimWindow(): Promise<void> {
     this.pendingClaims.clear();
     const lastDiscardPlayer = this.state.lastDiscardPlayerIndex!;
 
-    // Collect AI claims instantly (including auto-AI promoted seats)
-    for (let i = 0; i < 4; i++) {
-      if (i === lastDiscardPlayer) continue;
-      if (this.room.seats[i].type === 'ai-standby' || this.isAutoAI(i)) {
-        const actions = getValidActions(this.state, i);
-        if (actions.length > 0 && actions.some(a => a.type !== 'pass')) {
-          const decision = await getAIDecision(this.state, i, actions);
-          if (decision.action.type !== 'pass') {
-            this.pendingClaims.set(i, decision.action);
-          }
-        }
-      }
-    }
-
-    // Agent claim decisions use heuristic AI (instant) — no LLM call needed.
-    // Claim decisions are mechanical (win > kong > pong > chow > pass).
-    // LLM is reserved for the complex discard decisions only.
-    for (let i = 0; i < 4; i++) {
+    // Collect strategy claims instantly (auto-AI promoted humans claim through the AI)
+    for (let i = 0; i < this.room.seats.length; i++) {
       if (i === lastDiscardPlayer) continue;
-      if (this.room.seats[i].type === 'agent') {
-        const actions = getValidActions(this.state, i);
-        if (actions.length > 0 && actions.some(a => a.type !== 'pass')) {
-          const decision = await getAIDecision(this.state, i, actions);
-          if (decision.action.type !== 'pass') {
-            this.pendingClaims.set(i, decision.action);
-          }
+      const strategy = this.strategies[i].external ? (this.isAutoAI(i) ? aiStrategy : null) : this.strategies[i];
+      if (!strategy) continue;
+      const actions = getValidActions(this.state, i);
+      if (actions.length > 0 && actions.some(a => a.type !== 'pass')) {
+        const decision = await strategy.decide(this.state, i, actions);
+        if (decision.action.type !== 'pass') {
+          this.pendingClaims.set(i, decision.action);
         }
       }
     }
 
     // Notify human players who can claim (including auto-AI — they can reclaim by acting)
     const humanClaimers: number[] = [];
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < this.room.seats.length; i++) {
       if (i === lastDiscardPlayer) continue;
-      if (this.room.seats[i].type === 'human') {
+      if (this.strategies[i].external) {
         const actions = getValidActions(this.state, i);
         if (actions.length > 0 && actions.some(a => a.type !== 'pass')) {
           humanClaimers.push(i);
@@ -346,12 +348,20 @@ export class GameRunner {
       }
     }
 
-    if (bestAction && bestSeat >= 0 && bestAction.type !== 'pass') {
+    if (bestAction?.type === 'claimWin') {
+      // Settle every win claim together (head bump or multiple winners)
+      const winSeats = [...this.pendingClaims]
+        .filter(([, action]) => action.type === 'claimWin')
+        .map(([seat]) => seat);
+      const result = claimWins(this.state, winSeats);
+      this.setState(result.state);
+      for (const e of result.events) this.broadcastAllEvent(e);
+    } else if (bestAction && bestSeat >= 0 && bestAction.type !== 'pass') {
       this.applyAction(bestSeat, bestAction);
     } else {
       // Nobody claimed — pass
       const result = passClaim(this.state);
-      this.state = result.state;
+      this.setState(result.state);
       for (const e of result.events) this.broadcastAllEvent(e);
     }
   }
@@ -382,7 +392,7 @@ export class GameRunner {
         try {
           const actions = getValidActions(this.state, seatIndex);
           if (actions.length > 0) {
-            const decision = await getAIDecision(this.state, seatIndex, actions);
+            const decision = await aiStrategy.decide(this.state, seatIndex, actions);
             this.applyAction(seatIndex, decision.action);
           }
         } catch (err) {
@@ -489,7 +499,7 @@ export class GameRunner {
         return;
     }
 
-    this.state = result.state;
+    this.setState(result.state);
     for (const e of result.events) this.broadcastAllEvent(e);
   }
 
@@ -1,7 +1,8 @@
 /**
  * Room Manager — creates, tracks, and manages game rooms.
  *
- * Each room has 4 seats. Seats can be:
+ * Each room has 4 seats, or 3 for three-player mahjong, and is scored under
+ * Singapore or Hong Kong Old Style rules. Seats can be:
  *   - 'human'       — occupied by a browser or agent player
  *   - 'ai-standby'  — filled by local AI when the game starts
  *   - 'empty'       — waiting for a player to join
@@ -11,6 +12,13 @@ import { v4 as uuidv4 } from 'uuid';
 import { MAX_ROOMS } from './config.js';
 import type { AgentConfig } from './agent-webhook.js';
 import type { SessionState } from '../../src/game-types';
+import type { RuleSet, ScoringSystem } from '../../src/rules';
+import {
+  SINGAPORE_STANDARD_RULES,
+  SINGAPORE_THREE_PLAYER_RULES,
+  HONG_KONG_OLD_STYLE_RULES,
+  HONG_KONG_THREE_PLAYER_RULES,
+} from '../../src/rules';
 
 export type SeatType = 'human' | 'ai-standby' | 'agent' | 'empty';
 export type RoomStatus = 'waiting' | 'playing' | 'finished';
@@ -29,6 +37,10 @@ export interface RoomSettings {
   turnTimeout: number;
   /** Between-rounds timeout in seconds. 0 = no timeout (wait forever). */
   betweenRoundsTimeout: number;
+  /** Number of seats: 4, or 3 for the three-player variant. */
+  seats: 3 | 4;
+  /** Scoring system: Singapore tai or Hong Kong Old Style faan. */
+  scoringSystem: ScoringSystem;
 }
 
 export interface Seat {
@@ -43,7 +55,7 @@ export interface Room {
   id: string;
   hostSeatIndex: number;
   settings: RoomSettings;
-  seats: [Seat, Seat, Seat, Seat];
+  seats: Seat[];
   status: RoomStatus;
   createdAt: number;
   /** Multi-round session state — created when the game starts. */
@@ -60,15 +72,20 @@ const DEFAULT_SETTINGS: RoomSettings = {
   windRounds: 1,
   turnTimeout: 0,
   betweenRoundsTimeout: 0,
+  seats: 4,
+  scoringSystem: 'singapore',
 };
 
-function emptySeats(): [Seat, Seat, Seat, Seat] {
-  return [
-    { type: 'empty', playerName: null },
-    { type: 'empty', playerName: null },
-    { type: 'empty', playerName: null },
-    { type: 'empty', playerName: null },
-  ];
+function emptySeats(count: number): Seat[] {
+  return Array.from({ length: count }, () => ({ type: 'empty', playerName: null }));
+}
+
+/** The rules a room's games are played under. */
+export function roomRules(settings: RoomSettings): RuleSet {
+  if (settings.scoringSystem === 'hongKongOldStyle') {
+    return settings.seats === 3 ? HONG_KONG_THREE_PLAYER_RULES : HONG_KONG_OLD_STYLE_RULES;
+  }
+  return settings.seats === 3 ? SINGAPORE_THREE_PLAYER_RULES : SINGAPORE_STANDARD_RULES;
 }
 
 /** Create a new room. Returns the room and the host's seat index. */
@@ -80,14 +97,22 @@ export function createRoom(
     throw new Error('Maximum number of rooms reached');
   }
 
+  const fullSettings = { ...DEFAULT_SETTINGS, ...settings };
+  if (fullSettings.seats !== 3 && fullSettings.seats !== 4) {
+    throw new Error('A room has 3 or 4 seats');
+  }
+  if (fullSettings.scoringSystem !== 'singapore' && fullSettings.scoringSystem !== 'hongKongOldStyle') {
+    throw new Error(`Unknown scoring system: ${fullSettings.scoringSystem}`);
+  }
+
   const id = uuidv4();
-  const seats = emptySeats();
+  const seats = emptySeats(fullSettings.seats);
   seats[0] = { type: 'human', playerName: hostName };
 
   const room: Room = {
     id,
     hostSeatIndex: 0,
-    settings: { ...DEFAULT_SETTINGS, ...settings },
+    settings: fullSettings,
     seats,
     status: 'waiting',
     createdAt: Date.now(),
@@ -158,7 +183,7 @@ export function startRoom(roomId: string, requestingSeatIndex: number): Room {
   if (playerCount === 0) throw new Error('Need at least one player');
 
   // Fill empty seats with AI standby
-  for (let i = 0; i < 4; i++) {
+  for (let i = 0; i < room.seats.length; i++) {
     if (room.seats[i].type === 'empty') {
       room.seats[i] = { type: 'ai-standby', playerName: `AI ${i + 1}` };
     }
@@ -6,9 +6,11 @@
  * Wall/dead wall are replaced with counts.
  */
 
-import type { GameState, GameEvent, PlayerState, PlayerAction, SessionState } from '../../src/game-types';
+import type { PerSeat, GameState, GameEvent, PlayerState, PlayerAction, SessionState } from '../../src/game-types';
 import type { Tile } from '../../src/tiles';
 import type { MeldedSet } from '../../src/scoring';
+import { getWaitingTiles } from '../../src/hand-parser';
+import { calculateShanten, analyzeDiscards } from '../../src/shanten';
 
 // ---------------------------------------------------------------------------
 // Filtered Types (what clients receive)
@@ -27,16 +29,18 @@ export interface FilteredPlayerState {
 }
 
 export interface SessionInfo {
-  scores: [number, number, number, number];
+  scores: PerSeat<number>;
   roundNumber: number;
   dealerIndex: number;
   prevailingWind: string;
   finished: boolean;
   windRounds: number;
+  /** Consecutive rounds the dealer has kept the deal (连庄). */
+  dealerStreak: number;
 }
 
 export interface FilteredGameState {
-  players: [FilteredPlayerState, FilteredPlayerState, FilteredPlayerState, FilteredPlayerState];
+  players: PerSeat<FilteredPlayerState>;
   wallCount: number;
   deadWallCount: number;
   currentPlayerIndex: number;
@@ -47,6 +51,14 @@ export interface FilteredGameState {
   dealerIndex: number;
   lastDiscard: Tile | null;
   lastDiscardPlayerIndex: number | null;
+  /** True when the claim window is on a promoted-kong tile (win claims only). */
+  robbingKong: boolean;
+  /** True when the current player's latest tile is a kong replacement. */
+  kongReplacementDraw: boolean;
+  /** Instant animal-pair payouts so far (bonus tiles are public). */
+  bonusPayouts: GameState['bonusPayouts'];
+  /** The rules the round is played and scored under. */
+  rules: GameState['rules'];
   result: GameState['result'];
   /** Multi-round session info (present when room has a session). */
   sessionInfo?: SessionInfo;
@@ -75,7 +87,7 @@ export function filterStateForPlayer(state: GameState, seatIndex: number, sessio
   const filtered: FilteredGameState = {
     players: state.players.map((p, i) =>
       filterPlayer(p, i === seatIndex),
-    ) as [FilteredPlayerState, FilteredPlayerState, FilteredPlayerState, FilteredPlayerState],
+    ) as PerSeat<FilteredPlayerState>,
     wallCount: state.wall.length,
     deadWallCount: state.deadWall.length,
     currentPlayerIndex: state.currentPlayerIndex,
@@ -86,17 +98,22 @@ export function filterStateForPlayer(state: GameState, seatIndex: number, sessio
     dealerIndex: state.dealerIndex,
     lastDiscard: state.lastDiscard,
     lastDiscardPlayerIndex: state.lastDiscardPlayerIndex,
+    robbingKong: state.robbingKong,
+    kongReplacementDraw: state.kongReplacementDraw,
+    bonusPayouts: state.bonusPayouts,
+    rules: state.rules,
     result: state.result,
   };
 
   if (sessionState) {
     filtered.sessionInfo = {
-      scores: [...sessionState.scores] as [number, number, number, number],
+      scores: [...sessionState.scores] as PerSeat<number>,
       roundNumber: sessionState.rounds.length + 1,
       dealerIndex: sessionState.dealerIndex,
       prevailingWind: sessionState.prevailingWind,
       finished: sessionState.finished,
       windRounds: sessionState.config.windRounds,
+      dealerStreak: sessionState.dealerStreak,
     };
   }
 
@@ -181,6 +198,17 @@ export interface AgentFriendlyState {
   prevailingWind: string;
   dealerIndex: number;
   turnNumber: number;
+  /** Tiles that would complete your hand when you hold 13, with copies still unseen. */
+  yourWaitingTiles: { tile: string; unseen: number }[];
+  /** Tiles your hand is away from ready: 0 = ready, -1 = complete. */
+  yourShanten: number;
+  /** When you are to discard: each choice with the shanten and improving tiles it leaves, best first. */
+  yourDiscardOptions: {
+    tile: string;
+    shanten: number;
+    improvingTiles: { tile: string; unseen: number }[];
+    improvingCount: number;
+  }[];
 }
 
 /** Build a flattened, LLM-readable state for agent consumption. */
@@ -190,6 +218,10 @@ export function buildAgentState(
   validActions: PlayerAction[],
 ): AgentFriendlyState {
   const me = state.players[seatIndex];
+  const view = { state, playerIndex: seatIndex };
+  const discardOptions = validActions.some(a => a.type === 'discard')
+    ? analyzeDiscards(me.handTiles, me.openMelds, view)
+    : [];
 
   return {
     yourSeat: seatIndex,
@@ -217,5 +249,14 @@ export function buildAgentState(
     prevailingWind: state.prevailingWind,
     dealerIndex: state.dealerIndex,
     turnNumber: state.turnNumber,
+    yourWaitingTiles: getWaitingTiles(me.handTiles, me.openMelds, view)
+      .map(w => ({ tile: tileToReadable(w.tile), unseen: w.unseen })),
+    yourShanten: calculateShanten(me.handTiles, me.openMelds),
+    yourDiscardOptions: discardOptions.map(o => ({
+      tile: tileToReadable(o.tile),
+      shanten: o.shanten,
+      improvingTiles: o.improvingTiles.map(w => ({ tile: tileToReadable(w.tile), unseen: w.unseen })),
+      improvingCount: o.improvingCount,
+    })),
   };
 }
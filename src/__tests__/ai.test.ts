@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from 'vitest';
 import { fallbackDecision } from '../ai';
 import { GameState, PlayerState, PlayerAction } from '../game-types';
 import { Tile, createAllTiles, Wind } from '../tiles';
+import { SINGAPORE_STANDARD_RULES, createRuleSet } from '../rules';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -38,8 +39,14 @@ function makeTestState(overrides: Partial<GameState> & { players: [PlayerState,
     firstTurnComplete: false,
     prevailingWind: 'east',
     dealerIndex: 0,
+    rules: SINGAPORE_STANDARD_RULES,
     lastDiscard: null,
     lastDiscardPlayerIndex: null,
+    robbingKong: false,
+    kongReplacementDraw: false,
+    bonusPayouts: [],
+    actionLog: [],
+    seed: 0,
     result: null,
     ...overrides,
   };
@@ -189,4 +196,25 @@ describe('fallbackDecision', () => {
     const decision = fallbackDecision(state, 0, actions);
     expect(decision.action.type).toBe('declareKong');
   });
+
+  it('should not take a win below the minimum tai', () => {
+    const state = makeTestState({
+      players: [
+        makePlayer('east', [findTile('dots', 1), findTile('bamboo', 9)]),
+        makePlayer('south', []),
+        makePlayer('west', []),
+        makePlayer('north', []),
+      ],
+      rules: createRuleSet({ minimumTai: 2 }),
+    });
+
+    const actions: PlayerAction[] = [
+      { type: 'discard', tile: findTile('dots', 1) },
+      { type: 'discard', tile: findTile('bamboo', 9) },
+      { type: 'declareSelfWin' },
+    ];
+
+    const decision = fallbackDecision(state, 0, actions);
+    expect(decision.action.type).toBe('discard');
+  });
 });
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { fuzz, checkRecord, shrinkRecord, InvariantCheck } from '../fuzz';
+import { replayGame } from '../game-record';
+
+/** Games per run. Set FUZZ_GAMES for a longer run (see `npm run fuzz`). */
+const GAMES = Number(process.env.FUZZ_GAMES ?? 50);
+
+/** A stand-in bug: any exposed pung counts as a broken state. */
+const noPungs: InvariantCheck = state =>
+  state.players.flatMap((p, i) => (p.openMelds.some(m => m.type === 'pung') ? [`player ${i} has a pung`] : []));
+
+describe('fuzz', () => {
+  it('plays random games without breaking invariants', () => {
+    const report = fuzz({ games: GAMES, seed: 2024 });
+
+    expect(report.failures).toEqual([]);
+    expect(report.moves).toBeGreaterThan(GAMES * 50);
+  }, 600_000);
+
+  it('is reproducible from its seed', () => {
+    expect(fuzz({ games: 3, seed: 9, check: noPungs })).toEqual(fuzz({ games: 3, seed: 9, check: noPungs }));
+  });
+
+  it('shrinks a failure to a minimal replayable move log', () => {
+    const { failures } = fuzz({ games: 3, seed: 5, check: noPungs });
+    expect(failures.length).toBeGreaterThan(0);
+
+    for (const { record, message } of failures) {
+      const actions = record.actions;
+      expect(actions[actions.length - 1].move.type).toBe('claimPong');
+      expect(checkRecord(record, noPungs)).toBe(message);
+
+      const states = replayGame(record);
+      expect(noPungs(states[states.length - 1])).not.toEqual([]);
+
+      // Dropping any single move no longer gives a failing log
+      actions.forEach((_, i) => {
+        const shorter = { ...record, actions: actions.filter((__, j) => j !== i) };
+        expect(checkRecord(shorter, noPungs)).toBeNull();
+      });
+    }
+  });
+
+  it('refuses to shrink a record that does not fail', () => {
+    const { failures } = fuzz({ games: 1, seed: 5, check: noPungs });
+    expect(() => shrinkRecord(failures[0].record)).toThrow('does not fail');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { createGameRecord, replayGame } from '../game-record';
+import { createGame, drawTile, discardTile, passClaim, advanceGame } from '../game';
+import { SessionController } from '../game-session';
+import { validateGameState } from '../state-check';
+
+// ---------------------------------------------------------------------------
+// Action log
+// ---------------------------------------------------------------------------
+
+describe('action log', () => {
+  it('records each move with its seat, drawn tile and turn number', () => {
+    const dealt = createGame(['ai', 'ai', 'ai', 'ai'], 'east', 0, undefined, 5);
+    const discard = dealt.players[0].handTiles[0];
+
+    const afterDiscard = discardTile(dealt, discard).state;
+    const afterPass = passClaim(afterDiscard).state;
+    const afterDraw = drawTile(afterPass).state;
+
+    expect(dealt.actionLog).toEqual([]);
+    expect(afterDraw.actionLog).toEqual([
+      { playerIndex: 0, move: { type: 'discard', tile: discard }, turnNumber: 0 },
+      { playerIndex: 0, move: { type: 'pass' }, turnNumber: 0 },
+      { playerIndex: 1, move: { type: 'draw' }, drawnTile: afterDraw.actionLog[2].drawnTile, turnNumber: 1 },
+    ]);
+    expect(afterDraw.players[1].handTiles).toContainEqual(afterDraw.actionLog[2].drawnTile);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// replayGame
+// ---------------------------------------------------------------------------
+
+describe('replayGame', () => {
+  it('rebuilds every state of a played round', async () => {
+    const dealt = createGame(['ai', 'ai', 'ai', 'ai'], 'south', 2, undefined, 1234);
+    const { state: final } = await advanceGame(dealt);
+
+    const record = createGameRecord(final);
+    expect(record.seed).toBe(1234);
+    expect(record.actions.length).toBeGreaterThan(0);
+
+    const states = replayGame(record);
+    expect(states).toHaveLength(record.actions.length + 1);
+    expect(states[0]).toEqual(dealt);
+    expect(states[states.length - 1]).toEqual(final);
+    expect(states.flatMap(validateGameState)).toEqual([]);
+  });
+
+  it('throws when the record does not match its deal', async () => {
+    const { state: final } = await advanceGame(createGame(['ai', 'ai', 'ai', 'ai'], 'east', 0, undefined, 1));
+    const record = { ...createGameRecord(final), seed: 2 };
+
+    expect(() => replayGame(record)).toThrow();
+  });
+
+  it('replays rounds stored in a session', async () => {
+    const ctrl = new SessionController({ playerTypes: ['ai', 'ai', 'ai', 'ai'], seed: 3 });
+    ctrl.startRound();
+    await ctrl.advanceRound();
+
+    const [round] = ctrl.session.rounds;
+    expect(round.gameRecord?.seed).toBe(round.seed);
+
+    const states = replayGame(round.gameRecord!);
+    expect(states[states.length - 1].result).toEqual(round.result);
+  });
+});
@@ -3,9 +3,16 @@ import {
   createSession,
   startNextRound,
   processRoundResult,
+  roundSeed,
   SessionController,
 } from '../game-session';
 import { GameResult, SessionState, SessionEvent } from '../game-types';
+import {
+  createRuleSet,
+  SINGAPORE_STANDARD_RULES,
+  SINGAPORE_THREE_PLAYER_RULES,
+  HONG_KONG_OLD_STYLE_RULES,
+} from '../rules';
 
 // ---------------------------------------------------------------------------
 // createSession
@@ -37,6 +44,15 @@ describe('createSession', () => {
     expect(session.config.payment.taiCap).toBe(3);
     expect(session.config.payment.shooterPays).toBe(false);
   });
+
+  it('should default to Singapore standard rules and pass them to each round', () => {
+    expect(createSession().config.rules).toBe(SINGAPORE_STANDARD_RULES);
+
+    const rules = createRuleSet({ deadWallSize: 16 });
+    const { gameState } = startNextRound(createSession({ rules }));
+    expect(gameState.rules).toBe(rules);
+    expect(gameState.deadWall).toHaveLength(16);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -81,6 +97,39 @@ describe('startNextRound', () => {
   });
 });
 
+describe('seeded sessions', () => {
+  it('should deal the same rounds for the same session seed', () => {
+    const a = startNextRound(createSession({ seed: 7 })).gameState;
+    const b = startNextRound(createSession({ seed: 7 })).gameState;
+    expect(a.seed).toBe(b.seed);
+    expect(a.wall.map(t => t.id)).toEqual(b.wall.map(t => t.id));
+    expect(a.players.map(p => p.handTiles.map(t => t.id))).toEqual(
+      b.players.map(p => p.handTiles.map(t => t.id)),
+    );
+  });
+
+  it('should give each round its own seed', () => {
+    const session = createSession({ seed: 7 });
+    expect(roundSeed(session, 1)).not.toBe(roundSeed(session, 2));
+  });
+
+  it('should store the round seed on the round record', () => {
+    const session = createSession({ seed: 7 });
+    const { session: started, gameState } = startNextRound(session);
+    const { session: done } = processRoundResult(started, { type: 'draw' }, gameState);
+    expect(done.rounds[0].seed).toBe(gameState.seed);
+  });
+
+  it('should replay an identical session from the same seed', async () => {
+    const run = async () => {
+      const ctrl = new SessionController({ playerTypes: ['ai', 'ai', 'ai', 'ai'], seed: 99 });
+      const session = await ctrl.runFullSession();
+      return session.rounds.map(r => ({ seed: r.seed, result: r.result, scores: r.payments.deltas }));
+    };
+    expect(await run()).toEqual(await run());
+  });
+});
+
 // ---------------------------------------------------------------------------
 // processRoundResult
 // ---------------------------------------------------------------------------
@@ -97,7 +146,7 @@ describe('processRoundResult', () => {
       loserIndex: 0,
     };
 
-    const { session: next, events } = processRoundResult(withRound, result);
+    const { session: next, events } = processRoundResult(withRound, result, null);
 
     // With shooter-pays default: loser 0 pays 3× $0.80 = $2.40
     expect(next.scores[2]).toBeCloseTo(2.40);  // winner gains
@@ -116,12 +165,29 @@ describe('processRoundResult', () => {
     const { session: withRound } = startNextRound(session);
 
     const result: GameResult = { type: 'draw' };
-    const { session: next } = processRoundResult(withRound, result);
+    const { session: next } = processRoundResult(withRound, result, null);
 
     expect(next.scores).toEqual([0, 0, 0, 0]);
     expect(next.rounds).toHaveLength(1);
   });
 
+  it('should pay kongs into the scores even on a draw', () => {
+    const session = createSession({ playerTypes: ['ai', 'ai', 'ai', 'ai'] });
+    const { session: withRound } = startNextRound(session);
+
+    const result: GameResult = {
+      type: 'draw',
+      kongPayouts: [{ playerIndex: 1, concealed: true, tiles: [] }],
+    };
+    const { session: next } = processRoundResult(withRound, result, null);
+
+    // Concealed kong = 2 tai = $0.40 from each other player
+    expect(next.scores[1]).toBeCloseTo(1.20);
+    expect(next.scores[0]).toBeCloseTo(-0.40);
+    expect(next.rounds[0].payments.instantPayments).toHaveLength(1);
+    expect(next.rounds[0].payments.instantPayments[0].name).toBe('Concealed Kong');
+  });
+
   it('should rotate dealer when dealer loses', () => {
     const session = createSession({ playerTypes: ['ai', 'ai', 'ai', 'ai'] });
     const { session: withRound } = startNextRound(session);
@@ -134,7 +200,7 @@ describe('processRoundResult', () => {
       loserIndex: 0,
     };
 
-    const { session: next, events } = processRoundResult(withRound, result);
+    const { session: next, events } = processRoundResult(withRound, result, null);
 
     expect(next.dealerIndex).toBe(1); // rotated from 0 to 1
     expect(next.dealerRotationCount).toBe(1);
@@ -152,19 +218,69 @@ describe('processRoundResult', () => {
       scoring: { tai: 2, details: [] },
     };
 
-    const { session: next, events } = processRoundResult(withRound, result);
+    const { session: next, events } = processRoundResult(withRound, result, null);
 
     expect(next.dealerIndex).toBe(0); // stays
     expect(next.dealerRotationCount).toBe(0);
     expect(events.some(e => e.type === 'dealerRotated')).toBe(false);
   });
 
+  it('should charge the responsible player in the ledger', () => {
+    const session = createSession({ playerTypes: ['ai', 'ai', 'ai', 'ai'] });
+    const { session: withRound } = startNextRound(session);
+
+    const { session: next } = processRoundResult(withRound, {
+      type: 'win',
+      winnerIndex: 1,
+      scoring: { tai: 3, details: [] },
+      responsibility: { playerIndex: 3, pattern: 'Big Four Winds' },
+    }, null);
+
+    expect(next.scores).toEqual([0, 2.4, 0, -2.4]);
+  });
+
+  it('should keep dealer when dealer is one of several winners', () => {
+    const session = createSession({ playerTypes: ['ai', 'ai', 'ai', 'ai'] });
+    const { session: withRound } = startNextRound(session);
+    const hand = {} as NonNullable<GameResult['winningHand']>;
+
+    // Player 3 discards; player 0 (dealer) and player 2 both win
+    const { session: next } = processRoundResult(withRound, {
+      type: 'win',
+      winnerIndex: 0,
+      scoring: { tai: 2, details: [] },
+      loserIndex: 3,
+      winners: [
+        { winnerIndex: 0, winningHand: hand, scoring: { tai: 2, details: [] } },
+        { winnerIndex: 2, winningHand: hand, scoring: { tai: 1, details: [] } },
+      ],
+    }, null);
+
+    expect(next.dealerIndex).toBe(0);
+    expect(next.scores[0]).toBeGreaterThan(0);
+    expect(next.scores[2]).toBeGreaterThan(0);
+  });
+
+  it('should rotate a winning dealer when the rules say so', () => {
+    const rules = createRuleSet({ dealerKeepsDealOnWin: false });
+    const session = createSession({ playerTypes: ['ai', 'ai', 'ai', 'ai'], rules });
+    const { session: withRound } = startNextRound(session);
+
+    const { session: next } = processRoundResult(withRound, {
+      type: 'win',
+      winnerIndex: 0,
+      scoring: { tai: 2, details: [] },
+    }, null);
+
+    expect(next.dealerIndex).toBe(1);
+  });
+
   it('should not rotate dealer on draw', () => {
     const session = createSession({ playerTypes: ['ai', 'ai', 'ai', 'ai'] });
     const { session: withRound } = startNextRound(session);
 
     const result: GameResult = { type: 'draw' };
-    const { session: next } = processRoundResult(withRound, result);
+    const { session: next } = processRoundResult(withRound, result, null);
 
     // Draw = dealer didn't win, so dealer rotates
     expect(next.dealerIndex).toBe(1);
@@ -184,7 +300,7 @@ describe('processRoundResult', () => {
         scoring: { tai: 1, details: [] },
         loserIndex: session.dealerIndex,
       };
-      const { session: next } = processRoundResult(withRound, result);
+      const { session: next } = processRoundResult(withRound, result, null);
       session = next;
     }
 
@@ -202,7 +318,7 @@ describe('processRoundResult', () => {
       type: 'win',
       winnerIndex: 0,
       scoring: { tai: 1, details: [] },
-    });
+    }, null);
 
     // Player 0 stays dealer (won self-drawn), gains 3 × $0.20 = $0.60
     // Other players each lose $0.20
@@ -216,7 +332,7 @@ describe('processRoundResult', () => {
       winnerIndex: 1,
       scoring: { tai: 2, details: [] },
       loserIndex: 0,
-    });
+    }, null);
 
     // Player 1 gains 3 × $0.40 = $1.20 (shooter-pays)
     // Player 0: $0.60 - $1.20 = -$0.60
@@ -226,6 +342,62 @@ describe('processRoundResult', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Dealer streaks (连庄)
+// ---------------------------------------------------------------------------
+
+describe('dealer streaks', () => {
+  const dealerWin: GameResult = { type: 'win', winnerIndex: 0, scoring: { tai: 1, details: [] } };
+
+  function playRounds(session: SessionState, results: GameResult[]) {
+    const events: SessionEvent[] = [];
+    for (const result of results) {
+      const out = processRoundResult(session, result, null);
+      session = out.session;
+      events.push(...out.events);
+    }
+    return { session, events };
+  }
+
+  it('should keep the deal on a draw when the rules say so', () => {
+    const rules = createRuleSet({ dealerKeepsDealOnDraw: true });
+    const { session, events } = playRounds(createSession({ rules }), [{ type: 'draw' }]);
+
+    expect(session.dealerIndex).toBe(0);
+    expect(session.dealerStreak).toBe(1);
+    expect(events.some(e => e.type === 'dealerRotated')).toBe(false);
+    expect(events).toContainEqual({ type: 'dealerStreakChanged', dealerIndex: 0, streak: 1 });
+  });
+
+  it('should count consecutive kept deals and reset when the dealer loses', () => {
+    const lose: GameResult = { type: 'win', winnerIndex: 2, scoring: { tai: 1, details: [] } };
+    const { session: kept } = playRounds(createSession(), [dealerWin, dealerWin]);
+    expect(kept.dealerStreak).toBe(2);
+    expect(kept.rounds.map(r => r.dealerStreak)).toEqual([0, 1]);
+
+    const { session: lost, events } = playRounds(kept, [lose]);
+    expect(lost.dealerStreak).toBe(0);
+    expect(lost.dealerIndex).toBe(1);
+    expect(events).toContainEqual({ type: 'dealerStreakChanged', dealerIndex: 1, streak: 0 });
+  });
+
+  it('should add streak tai to a dealer win', () => {
+    const rules = createRuleSet({ dealerStreakTai: 1 });
+    const { session } = playRounds(createSession({ rules }), [dealerWin, dealerWin, dealerWin]);
+
+    // 1 tai, then 2 tai, then 3 tai self-drawn: 0.60 + 1.20 + 2.40
+    expect(session.scores[0]).toBeCloseTo(4.20);
+  });
+
+  it('should multiply a dealer win by the streak multiplier', () => {
+    const rules = createRuleSet({ dealerStreakMultiplier: 2 });
+    const { session } = playRounds(createSession({ rules }), [dealerWin, dealerWin]);
+
+    // 0.60, then 0.60 × 2
+    expect(session.scores[0]).toBeCloseTo(1.80);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // SessionController
 // ---------------------------------------------------------------------------
@@ -277,3 +449,69 @@ describe('SessionController', () => {
     expect(sum).toBeCloseTo(0);
   }, 30000); // generous timeout for full AI session
 });
+
+// ---------------------------------------------------------------------------
+// Three-player sessions
+// ---------------------------------------------------------------------------
+
+describe('three-player sessions', () => {
+  const rules = SINGAPORE_THREE_PLAYER_RULES;
+
+  it('should seat three players with three scores', () => {
+    const session = createSession({ rules });
+    expect(session.config.playerTypes).toEqual(['human', 'ai', 'ai']);
+    expect(session.scores).toEqual([0, 0, 0]);
+    expect(startNextRound(session).gameState.players).toHaveLength(3);
+  });
+
+  it('should reject player types that do not fit the rules', () => {
+    expect(() => createSession({ rules, playerTypes: ['ai', 'ai', 'ai', 'ai'] }))
+      .toThrow('Singapore three-player is played with 3 players, got 4');
+  });
+
+  it('should rotate the deal over three dealers and the winds East, South, West', () => {
+    let session = createSession({ rules, playerTypes: ['ai', 'ai', 'ai'], windRounds: 4 });
+    const dealt: [number, string][] = [];
+
+    while (!session.finished) {
+      const { session: withRound } = startNextRound(session);
+      dealt.push([session.dealerIndex, session.prevailingWind]);
+      const result: GameResult = {
+        type: 'win',
+        winnerIndex: (session.dealerIndex + 1) % 3,
+        scoring: { tai: 1, details: [] },
+      };
+      session = processRoundResult(withRound, result, null).session;
+    }
+
+    expect(dealt.map(([dealer]) => dealer)).toEqual([0, 1, 2, 0, 1, 2, 0, 1, 2, 0, 1, 2]);
+    expect(dealt.filter((_, i) => i % 3 === 0).map(([, wind]) => wind)).toEqual(['east', 'south', 'west', 'east']);
+    expect(session.scores.reduce((sum, s) => sum + s, 0)).toBeCloseTo(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Hong Kong Old Style sessions
+// ---------------------------------------------------------------------------
+
+describe('Hong Kong Old Style sessions', () => {
+  it('should play rounds through the same game flow, scored in faan', async () => {
+    const ctrl = new SessionController({ playerTypes: ['ai', 'ai', 'ai', 'ai'], rules: HONG_KONG_OLD_STYLE_RULES, seed: 3 });
+
+    for (let round = 0; round < 4 && !ctrl.isFinished; round++) {
+      const { state } = ctrl.startRound();
+      expect(state.players.flatMap(p => p.bonusTiles).some(t => t.suit === 'animals')).toBe(false);
+      await ctrl.advanceRound();
+    }
+
+    expect(ctrl.session.rounds.some(r => r.result.scoring)).toBe(true);
+    for (const { result, payments } of ctrl.session.rounds) {
+      if (result.scoring) {
+        expect(result.scoring.tai).toBeGreaterThanOrEqual(HONG_KONG_OLD_STYLE_RULES.minimumTai);
+        expect(result.scoring.details.some(d => d.name === 'Minimum Hand (Chicken)')).toBe(false);
+      }
+      expect(payments.instantPayments).toEqual([]);
+      expect(payments.deltas.reduce((sum, d) => sum + d, 0)).toBeCloseTo(0);
+    }
+  }, 30000);
+});
@@ -7,6 +7,7 @@ import {
   claimChow,
   claimKong,
   claimWin,
+  claimWins,
   passClaim,
   declareKong,
   promotePungToKong,
@@ -21,9 +22,11 @@ import {
   GameController,
   advanceGame,
 } from '../game';
-import { GameState, PlayerState } from '../game-types';
+import { PerSeat, GameState, PlayerState } from '../game-types';
 import { Tile, createAllTiles, tileKey, Wind } from '../tiles';
 import { MeldedSet } from '../scoring';
+import { SINGAPORE_STANDARD_RULES, SINGAPORE_THREE_PLAYER_RULES, createRuleSet } from '../rules';
+import { heuristicStrategy, SeatStrategies } from '../strategy';
 
 // ---------------------------------------------------------------------------
 // Helpers: create specific tiles for deterministic tests
@@ -49,7 +52,7 @@ function findTiles(suit: string, value: string | number, count: number): Tile[]
 /**
  * Create a custom GameState with specific hands for deterministic testing.
  */
-function makeTestState(overrides: Partial<GameState> & { players: [PlayerState, PlayerState, PlayerState, PlayerState] }): GameState {
+function makeTestState(overrides: Partial<GameState> & { players: PerSeat<PlayerState> }): GameState {
   return {
     wall: [],
     deadWall: [],
@@ -59,8 +62,14 @@ function makeTestState(overrides: Partial<GameState> & { players: [PlayerState,
     firstTurnComplete: false,
     prevailingWind: 'east',
     dealerIndex: 0,
+    rules: SINGAPORE_STANDARD_RULES,
     lastDiscard: null,
     lastDiscardPlayerIndex: null,
+    robbingKong: false,
+    kongReplacementDraw: false,
+    bonusPayouts: [],
+    actionLog: [],
+    seed: 0,
     result: null,
     ...overrides,
   };
@@ -89,7 +98,7 @@ describe('createGame', () => {
     expect(state.players[0].seat).toBe('east');
     expect(state.players[1].seat).toBe('south');
     expect(state.players[2].seat).toBe('west');
-    expect(state.players[3].seat).toBe('north');
+    expect(state.players[3]!.seat).toBe('north');
   });
 
   it('should assign player types correctly', () => {
@@ -97,7 +106,7 @@ describe('createGame', () => {
     expect(state.players[0].type).toBe('human');
     expect(state.players[1].type).toBe('ai');
     expect(state.players[2].type).toBe('human');
-    expect(state.players[3].type).toBe('ai');
+    expect(state.players[3]!.type).toBe('ai');
   });
 
   it('should start in postDraw phase with East as current player', () => {
@@ -175,6 +184,7 @@ describe('drawTile', () => {
     const { state: next } = drawTile(state);
     expect(next.phase).toBe('roundOver');
     expect(next.result?.type).toBe('draw');
+    expect(next.result?.drawReason).toBe('wallExhausted');
   });
 
   it('should throw when not in draw phase', () => {
@@ -485,6 +495,61 @@ describe('GameController', () => {
   });
 });
 
+describe('GameController undo/redo', () => {
+  const types: ['human', 'ai', 'ai', 'ai'] = ['human', 'ai', 'ai', 'ai'];
+
+  /** Discard, let the AI play, and draw again: one full human decision. */
+  async function playTurn(ctrl: GameController, tileIndex = 0): Promise<void> {
+    ctrl.discardTile(ctrl.state.players[0].handTiles[tileIndex]);
+    await ctrl.advance();
+    if (ctrl.phase === 'draw') ctrl.drawTile();
+  }
+
+  it('goes back to the last human decision and forward again', async () => {
+    const ctrl = new GameController(types, 'east', createGame(types, 'east', 0, undefined, 11));
+    const start = ctrl.state;
+    expect(ctrl.canUndo).toBe(false);
+
+    await playTurn(ctrl);
+    const afterTurn = ctrl.state;
+    expect(ctrl.isOver).toBe(false);
+    expect(ctrl.canUndo).toBe(true);
+
+    expect(ctrl.undo()).toBe(true);
+    expect(ctrl.state).toEqual(start);
+    expect(ctrl.canRedo).toBe(true);
+
+    expect(ctrl.redo()).toBe(true);
+    expect(ctrl.state).toEqual(afterTurn);
+    expect(ctrl.canRedo).toBe(false);
+
+    expect(ctrl.canUndo).toBe(true);
+    ctrl.undo();
+    expect(ctrl.state).toEqual(start);
+    expect(ctrl.canUndo).toBe(false);
+  });
+
+  it('undoes one decision at a time', async () => {
+    const ctrl = new GameController(types, 'east', createGame(types, 'east', 0, undefined, 11));
+    await playTurn(ctrl);
+    const afterFirst = ctrl.state;
+    await playTurn(ctrl);
+
+    ctrl.undo();
+    expect(ctrl.state).toEqual(afterFirst);
+  });
+
+  it('drops the redo moves once a new action is taken', async () => {
+    const ctrl = new GameController(types, 'east', createGame(types, 'east', 0, undefined, 11));
+    await playTurn(ctrl);
+    ctrl.undo();
+
+    ctrl.discardTile(ctrl.state.players[0].handTiles[1]);
+    expect(ctrl.canRedo).toBe(false);
+    expect(ctrl.redo()).toBe(false);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Kong and Self-Win
 // ---------------------------------------------------------------------------
@@ -512,6 +577,26 @@ describe('declareKong', () => {
     // Hand should have dots_1 + replacement
     expect(next.players[0].handTiles).toHaveLength(2);
   });
+
+  it('should record the kong for instant payment when the round ends', () => {
+    const kongTiles = findTiles('dots', 5, 4);
+    const state = makeTestState({
+      players: [
+        makePlayer('east', [...kongTiles, findTile('dots', 1)]),
+        makePlayer('south', []),
+        makePlayer('west', []),
+        makePlayer('north', []),
+      ],
+      deadWall: [],
+      phase: 'postDraw',
+    });
+
+    // No replacement left, so the round ends as a draw
+    const { state: next } = declareKong(state, kongTiles);
+    expect(next.result?.type).toBe('draw');
+    expect(next.result?.kongPayouts).toHaveLength(1);
+    expect(next.result?.kongPayouts?.[0]).toMatchObject({ playerIndex: 0, concealed: true });
+  });
 });
 
 describe('canDeclareConcealedKong', () => {
@@ -531,3 +616,658 @@ describe('canDeclareConcealedKong', () => {
     if (result) expect(result).toContain('dots_5');
   });
 });
+
+// ---------------------------------------------------------------------------
+// Robbing the Kong
+// ---------------------------------------------------------------------------
+
+describe('robbing the kong', () => {
+  /**
+   * East holds an open pung of Dots 5 plus the fourth copy in hand.
+   * South is waiting on Dots 5 (for the 4-5-6 chow).
+   */
+  function makeRobState(southType: 'human' | 'ai' = 'human'): GameState {
+    const pung: MeldedSet = {
+      type: 'pung',
+      tiles: [findTile('dots', 5, 1), findTile('dots', 5, 2), findTile('dots', 5, 3)],
+      concealed: false,
+    };
+    return makeTestState({
+      players: [
+        makePlayer('east', [findTile('dots', 5, 4), findTile('bamboo', 9, 2)], { openMelds: [pung] }),
+        makePlayer('south', [
+          findTile('bamboo', 1), findTile('bamboo', 2), findTile('bamboo', 3),
+          findTile('bamboo', 4), findTile('bamboo', 5), findTile('bamboo', 6),
+          findTile('bamboo', 7), findTile('bamboo', 8), findTile('bamboo', 9),
+          findTile('characters', 1, 1), findTile('characters', 1, 2),
+          findTile('dots', 4), findTile('dots', 6),
+        ], { type: southType }),
+        makePlayer('west', [findTile('dots', 4, 2), findTile('dots', 6, 2)]),
+        makePlayer('north', []),
+      ],
+      deadWall: [findTile('winds', 'north', 1)],
+      phase: 'postDraw',
+      firstTurnComplete: true,
+    });
+  }
+
+  it('opens a claim window on the promoted tile when someone can win', () => {
+    const state = makeRobState();
+    const { state: next, events } = promotePungToKong(state, findTile('dots', 5, 4));
+
+    expect(next.phase).toBe('claimWindow');
+    expect(next.robbingKong).toBe(true);
+    expect(next.lastDiscard?.id).toBe('dots_5_4');
+    expect(next.lastDiscardPlayerIndex).toBe(0);
+    expect(events.some(e => e.type === 'claimWindowOpen')).toBe(true);
+    expect(events.some(e => e.type === 'kongReplacement')).toBe(false);
+
+    // Only win claims are offered while robbing the kong
+    expect(getValidActions(next, 1).map(a => a.type)).toEqual(['claimWin', 'pass']);
+    expect(getValidActions(next, 2).map(a => a.type)).toEqual(['pass']);
+    expect(canChow(next, 1)).toBe(false);
+  });
+
+  it('claimWin robs the kong and reverts it to a pung', () => {
+    const { state: rob } = promotePungToKong(makeRobState(), findTile('dots', 5, 4));
+    const { state: next } = claimWin(rob, 1);
+
+    expect(next.phase).toBe('roundOver');
+    expect(next.robbingKong).toBe(false);
+    expect(next.result?.winnerIndex).toBe(1);
+    expect(next.result?.loserIndex).toBe(0);
+    expect(next.result?.scoring?.details.some(d => d.name === 'Robbing the Kong')).toBe(true);
+    expect(next.players[0].openMelds[0].type).toBe('pung');
+    expect(next.players[0].openMelds[0].tiles).toHaveLength(3);
+    // A robbed kong earns no kong money
+    expect(next.result?.kongPayouts).toEqual([]);
+  });
+
+  it('passing lets the promoter draw the kong replacement', () => {
+    const { state: rob } = promotePungToKong(makeRobState(), findTile('dots', 5, 4));
+    const { state: next, events } = passClaim(rob);
+
+    expect(next.phase).toBe('postDraw');
+    expect(next.currentPlayerIndex).toBe(0);
+    expect(next.robbingKong).toBe(false);
+    expect(next.lastDiscard).toBeNull();
+    expect(next.players[0].openMelds[0].type).toBe('kong');
+    expect(next.players[0].handTiles.some(t => t.id === 'winds_north_1')).toBe(true);
+    expect(events.some(e => e.type === 'kongReplacement')).toBe(true);
+  });
+
+  it('draws the replacement directly when nobody can rob', () => {
+    const state = makeRobState();
+    state.players[1].handTiles = [findTile('winds', 'east', 1)];
+    const { state: next } = promotePungToKong(state, findTile('dots', 5, 4));
+
+    expect(next.phase).toBe('postDraw');
+    expect(next.robbingKong).toBe(false);
+    expect(next.players[0].openMelds[0].type).toBe('kong');
+  });
+
+  it('is resolved by advanceGame for AI players', async () => {
+    const state = makeRobState('ai');
+    const { state: rob } = promotePungToKong(state, findTile('dots', 5, 4));
+    const { state: next } = await advanceGame(rob);
+
+    expect(next.phase).toBe('roundOver');
+    expect(next.result?.winnerIndex).toBe(1);
+    expect(next.result?.loserIndex).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Instant bonus payouts
+// ---------------------------------------------------------------------------
+
+describe('animal pair payouts', () => {
+  const cat = ALL.find(t => t.id === 'animals_cat')!;
+  const mouse = ALL.find(t => t.id === 'animals_mouse')!;
+
+  it('records a payout when a drawn bonus tile completes a pair', () => {
+    const state = makeTestState({
+      players: [
+        makePlayer('east', [findTile('dots', 1)], { bonusTiles: [cat] }),
+        makePlayer('south', []),
+        makePlayer('west', []),
+        makePlayer('north', []),
+      ],
+      wall: [mouse, findTile('bamboo', 2), findTile('bamboo', 3)],
+      phase: 'draw',
+    });
+
+    const { state: next, events } = drawTile(state);
+    expect(events.some(e => e.type === 'bonusTileDrawn')).toBe(true);
+    expect(next.bonusPayouts).toHaveLength(1);
+    expect(next.bonusPayouts[0]).toMatchObject({ playerIndex: 0, name: 'Cat & Mouse' });
+  });
+
+  it('carries payouts into the round result', () => {
+    const state = makeTestState({
+      players: [
+        makePlayer('east', [findTile('dots', 1)]),
+        makePlayer('south', []),
+        makePlayer('west', []),
+        makePlayer('north', []),
+      ],
+      bonusPayouts: [{ playerIndex: 2, name: 'Cat & Mouse', tiles: [cat, mouse] }],
+      wall: [],
+      phase: 'draw',
+    });
+
+    const { state: next } = drawTile(state);
+    expect(next.result?.type).toBe('draw');
+    expect(next.result?.bonusPayouts).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Win context
+// ---------------------------------------------------------------------------
+
+describe('win context', () => {
+  const straight = [
+    findTile('bamboo', 1), findTile('bamboo', 2), findTile('bamboo', 3),
+    findTile('bamboo', 4), findTile('bamboo', 5), findTile('bamboo', 6),
+    findTile('bamboo', 7), findTile('bamboo', 8), findTile('bamboo', 9),
+  ];
+
+  it('scores a self-drawn win on a kong replacement', () => {
+    const kongTiles = findTiles('dots', 5, 4);
+    const state = makeTestState({
+      players: [
+        makePlayer('east', [...kongTiles, ...straight, findTile('characters', 1, 1)]),
+        makePlayer('south', []),
+        makePlayer('west', []),
+        makePlayer('north', []),
+      ],
+      wall: [findTile('winds', 'east', 1)],
+      deadWall: [findTile('characters', 1, 2)],
+      phase: 'postDraw',
+      firstTurnComplete: true,
+    });
+
+    const { state: afterKong } = declareKong(state, kongTiles);
+    expect(afterKong.kongReplacementDraw).toBe(true);
+
+    const { state: next } = declareSelfWin(afterKong);
+    const names = next.result?.scoring?.details.map(d => d.name);
+    expect(names).toContain('Win on Kong Replacement');
+    expect(names).not.toContain('Win on Last Tile');
+    expect(next.result?.winningHand?.kongReplacement).toBe(true);
+  });
+
+  it('scores a self-drawn win on the last wall tile', () => {
+    const state = makeTestState({
+      players: [
+        makePlayer('east', [
+          ...straight,
+          findTile('dots', 2), findTile('dots', 3), findTile('dots', 4),
+          findTile('characters', 1, 1),
+        ]),
+        makePlayer('south', []),
+        makePlayer('west', []),
+        makePlayer('north', []),
+      ],
+      wall: [findTile('characters', 1, 2)],
+      phase: 'draw',
+      firstTurnComplete: true,
+      kongReplacementDraw: true,
+    });
+
+    const { state: drawn } = drawTile(state);
+    expect(drawn.kongReplacementDraw).toBe(false);
+
+    const { state: next } = declareSelfWin(drawn);
+    const names = next.result?.scoring?.details.map(d => d.name);
+    expect(names).toContain('Win on Last Tile');
+    expect(names).not.toContain('Win on Kong Replacement');
+  });
+
+  it('scores declared melds as they were declared', () => {
+    // Three exposed 1-2-3 bamboo chows could be re-read as pungs of 1, 2 and 3
+    const chows: MeldedSet[] = [1, 2, 3].map(copy => ({
+      type: 'chow',
+      tiles: [findTile('bamboo', 1, copy), findTile('bamboo', 2, copy), findTile('bamboo', 3, copy)],
+      concealed: false,
+    }));
+    const state = makeTestState({
+      players: [
+        makePlayer('east', [...findTiles('dots', 5, 3), ...findTiles('winds', 'south', 2)], { openMelds: chows }),
+        makePlayer('south', []),
+        makePlayer('west', []),
+        makePlayer('north', []),
+      ],
+      wall: [findTile('characters', 1)],
+      phase: 'postDraw',
+      firstTurnComplete: true,
+    });
+
+    const { state: next } = declareSelfWin(state);
+    expect(next.result?.winningHand?.melds.filter(m => m.type === 'chow')).toEqual(chows);
+    expect(next.result?.scoring?.details.map(d => d.name)).not.toContain('All Pungs');
+  });
+
+  /** South holds four concealed pungs' worth of tiles and claims `discard` to win. */
+  function makeConcealedPungsState(hand: Tile[], discard: Tile): GameState {
+    return makeTestState({
+      players: [
+        makePlayer('east', []),
+        makePlayer('south', hand),
+        makePlayer('west', []),
+        makePlayer('north', []),
+      ],
+      lastDiscard: discard,
+      lastDiscardPlayerIndex: 0,
+      phase: 'claimWindow',
+      firstTurnComplete: true,
+    });
+  }
+
+  it('keeps every pung concealed when a discard completes the pair', () => {
+    const pungs = [...findTiles('dots', 2, 3), ...findTiles('bamboo', 4, 3), ...findTiles('characters', 6, 3)];
+    const hand = [...pungs, ...findTiles('dots', 8, 3), findTile('bamboo', 7, 1)];
+    const { state: next } = claimWin(makeConcealedPungsState(hand, findTile('bamboo', 7, 2)), 1);
+
+    expect(next.result?.scoring?.details.map(d => d.name)).toEqual(['Four Concealed Pungs']);
+  });
+
+  it('counts a pung completed by a discard as exposed', () => {
+    const pungs = [...findTiles('dots', 2, 3), ...findTiles('bamboo', 4, 3), ...findTiles('characters', 6, 3)];
+    const hand = [...pungs, ...findTiles('dots', 8, 2), ...findTiles('bamboo', 7, 2)];
+    const { state: next } = claimWin(makeConcealedPungsState(hand, findTile('dots', 8, 3)), 1);
+
+    const names = next.result?.scoring?.details.map(d => d.name);
+    expect(names).toContain('All Pungs');
+    expect(names).not.toContain('Four Concealed Pungs');
+    expect(next.result?.winningHand?.melds.filter(m => !m.concealed)).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Minimum tai
+// ---------------------------------------------------------------------------
+
+describe('minimum tai to win', () => {
+  const plum = ALL.find(t => t.id === 'flowers_plum')!;
+  const orchid = ALL.find(t => t.id === 'flowers_orchid')!;
+
+  const openChow: MeldedSet = {
+    type: 'chow',
+    tiles: [findTile('bamboo', 1), findTile('bamboo', 2), findTile('bamboo', 3)],
+    concealed: false,
+  };
+
+  /** South waits on Dots 5 with an otherwise worthless open hand (East discarded it). */
+  function makeChickenState(minimumTai: number, bonusTiles: Tile[], excludeBonus = false): GameState {
+    return makeTestState({
+      players: [
+        makePlayer('east', []),
+        makePlayer('south', [
+          findTile('bamboo', 4), findTile('bamboo', 5), findTile('bamboo', 6),
+          findTile('bamboo', 7), findTile('bamboo', 8), findTile('bamboo', 9),
+          findTile('characters', 1, 1), findTile('characters', 1, 2),
+          findTile('dots', 4), findTile('dots', 6),
+        ], { bonusTiles, openMelds: [openChow] }),
+        makePlayer('west', []),
+        makePlayer('north', []),
+      ],
+      rules: createRuleSet({ minimumTai, minimumTaiExcludesBonus: excludeBonus }),
+      lastDiscard: findTile('dots', 5),
+      lastDiscardPlayerIndex: 0,
+      phase: 'claimWindow',
+      firstTurnComplete: true,
+    });
+  }
+
+  it('allows a chicken hand when no minimum is set', () => {
+    const state = makeChickenState(0, [plum]);
+    expect(canPlayerWin(state, 1, state.lastDiscard!)).toBe(true);
+    expect(getValidActions(state, 1).map(a => a.type)).toContain('claimWin');
+  });
+
+  it('only offers claimWin when the hand meets the minimum', () => {
+    const chicken = makeChickenState(1, [plum]);
+    expect(canPlayerWin(chicken, 1, chicken.lastDiscard!)).toBe(false);
+    expect(getValidActions(chicken, 1).map(a => a.type)).not.toContain('claimWin');
+    expect(() => claimWin(chicken, 1)).toThrow('minimum');
+
+    const seatFlower = makeChickenState(1, [orchid]);
+    expect(getValidActions(seatFlower, 1).map(a => a.type)).toContain('claimWin');
+  });
+
+  it('can leave bonus tiles out of the minimum', () => {
+    const state = makeChickenState(1, [orchid], true);
+    expect(canPlayerWin(state, 1, state.lastDiscard!)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Several players winning on one discard
+// ---------------------------------------------------------------------------
+
+describe('multiple win claims', () => {
+  /** A hand waiting on Dots 5 (for 4-5-6), built from the given tile copy. */
+  function waitingPlayer(seat: Wind, copy: number, type: 'human' | 'ai'): PlayerState {
+    const chow: MeldedSet = {
+      type: 'chow',
+      tiles: [findTile('bamboo', 1, copy), findTile('bamboo', 2, copy), findTile('bamboo', 3, copy)],
+      concealed: false,
+    };
+    return makePlayer(seat, [
+      findTile('bamboo', 4, copy), findTile('bamboo', 5, copy), findTile('bamboo', 6, copy),
+      findTile('bamboo', 7, copy), findTile('bamboo', 8, copy), findTile('bamboo', 9, copy),
+      findTile('characters', copy, 1), findTile('characters', copy, 2),
+      findTile('dots', 4, copy), findTile('dots', 6, copy),
+    ], { openMelds: [chow], type });
+  }
+
+  /** East discards Dots 5; South and North can both win on it. */
+  function makeDoubleWinState(multipleWinRule: 'headBump' | 'multiple', type: 'human' | 'ai' = 'human'): GameState {
+    const discard = findTile('dots', 5);
+    return makeTestState({
+      players: [
+        makePlayer('east', [], { discards: [discard], type }),
+        waitingPlayer('south', 1, type),
+        makePlayer('west', [], { type }),
+        waitingPlayer('north', 2, type),
+      ],
+      rules: createRuleSet({ multipleWinRule }),
+      lastDiscard: discard,
+      lastDiscardPlayerIndex: 0,
+      phase: 'claimWindow',
+      firstTurnComplete: true,
+    });
+  }
+
+  it('head bump gives the win to the claimant nearest the discarder', () => {
+    const { state: next } = claimWins(makeDoubleWinState('headBump'), [3, 1]);
+
+    expect(next.phase).toBe('roundOver');
+    expect(next.result?.winnerIndex).toBe(1);
+    expect(next.result?.loserIndex).toBe(0);
+    expect(next.result?.winners).toBeUndefined();
+  });
+
+  it('multiple winners all win, nearest the discarder first', () => {
+    const { state: next } = claimWins(makeDoubleWinState('multiple'), [3, 1]);
+
+    expect(next.result?.winnerIndex).toBe(1);
+    expect(next.result?.winners?.map(w => w.winnerIndex)).toEqual([1, 3]);
+    expect(next.result?.loserIndex).toBe(0);
+    expect(next.players[0].discards).toHaveLength(0);
+  });
+
+  it('a single claim under the multiple rule has one winner', () => {
+    const { state: next } = claimWin(makeDoubleWinState('multiple'), 3);
+    expect(next.result?.winnerIndex).toBe(3);
+    expect(next.result?.winners).toBeUndefined();
+  });
+
+  it('is resolved by advanceGame for AI players', async () => {
+    const { state: bumped } = await advanceGame(makeDoubleWinState('headBump', 'ai'));
+    expect(bumped.result?.winnerIndex).toBe(1);
+    expect(bumped.result?.winners).toBeUndefined();
+
+    const { state: shared } = await advanceGame(makeDoubleWinState('multiple', 'ai'));
+    expect(shared.result?.winners?.map(w => w.winnerIndex)).toEqual([1, 3]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Responsibility (包)
+// ---------------------------------------------------------------------------
+
+describe('responsibility', () => {
+  function exposedPung(suit: string, value: string | number, claimedFrom?: number): MeldedSet {
+    return { type: 'pung', tiles: findTiles(suit, value, 3), concealed: false, claimedFrom };
+  }
+
+  /** South holds three dragon pungs and waits on Dots 9; West discards it. */
+  function makeDragonsState(lastDragon: MeldedSet): GameState {
+    return makeTestState({
+      players: [
+        makePlayer('east', []),
+        makePlayer('south', [
+          findTile('bamboo', 1), findTile('bamboo', 2), findTile('bamboo', 3), findTile('dots', 9, 1),
+        ], { openMelds: [exposedPung('dragons', 'red', 2), exposedPung('dragons', 'green', 3), lastDragon] }),
+        makePlayer('west', []),
+        makePlayer('north', []),
+      ],
+      lastDiscard: findTile('dots', 9, 2),
+      lastDiscardPlayerIndex: 2,
+      phase: 'claimWindow',
+      firstTurnComplete: true,
+    });
+  }
+
+  it('claimed melds record who discarded the tile', () => {
+    const state = makeTestState({
+      players: [
+        makePlayer('east', []),
+        makePlayer('south', [findTile('dots', 3, 2), findTile('dots', 3, 3)]),
+        makePlayer('west', []),
+        makePlayer('north', []),
+      ],
+      lastDiscard: findTile('dots', 3, 1),
+      lastDiscardPlayerIndex: 0,
+      phase: 'claimWindow',
+    });
+    const { state: next } = claimPong(state, 1);
+    expect(next.players[1].openMelds[0].claimedFrom).toBe(0);
+  });
+
+  it('makes the feeder of the last dragon pung responsible', () => {
+    const { state: next } = claimWin(makeDragonsState(exposedPung('dragons', 'white', 0)), 1);
+
+    expect(next.result?.loserIndex).toBe(2);
+    expect(next.result?.responsibility).toEqual({ playerIndex: 0, pattern: 'Big Three Dragons' });
+  });
+
+  it('leaves nobody responsible when the last dragon set was concealed', () => {
+    const concealed: MeldedSet = { type: 'kong', tiles: findTiles('dragons', 'white', 4), concealed: true };
+    const { state: next } = claimWin(makeDragonsState(concealed), 1);
+
+    expect(next.result?.scoring?.details.some(d => d.name === 'Big Three Dragons')).toBe(true);
+    expect(next.result?.responsibility).toBeUndefined();
+  });
+
+  it('makes the feeder of the fourth exposed set of a full flush responsible', () => {
+    const state = makeTestState({
+      players: [
+        makePlayer('east', []),
+        makePlayer('south', [findTile('bamboo', 9, 1)], {
+          openMelds: [
+            exposedPung('bamboo', 1, 0),
+            exposedPung('bamboo', 3, 2),
+            exposedPung('bamboo', 5, 0),
+            exposedPung('bamboo', 7, 3),
+          ],
+        }),
+        makePlayer('west', []),
+        makePlayer('north', []),
+      ],
+      lastDiscard: findTile('bamboo', 9, 2),
+      lastDiscardPlayerIndex: 0,
+      phase: 'claimWindow',
+      firstTurnComplete: true,
+    });
+    const { state: next } = claimWin(state, 1);
+
+    expect(next.result?.responsibility).toEqual({ playerIndex: 3, pattern: 'Pure Hand' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Draws: reserved tail and abortive draws
+// ---------------------------------------------------------------------------
+
+describe('draw conditions', () => {
+  function kong(suit: string, value: string | number, concealed = true): MeldedSet {
+    return { type: 'kong', tiles: findTiles(suit, value, 4), concealed };
+  }
+
+  it('ends the round when only the reserved tail is left', () => {
+    const state = makeTestState({
+      players: [
+        makePlayer('east', []),
+        makePlayer('south', []),
+        makePlayer('west', []),
+        makePlayer('north', []),
+      ],
+      wall: [findTile('bamboo', 1), findTile('bamboo', 2)],
+      rules: createRuleSet({ reservedWallTiles: 2 }),
+      phase: 'draw',
+    });
+
+    const { state: next } = drawTile(state);
+    expect(next.result).toMatchObject({ type: 'draw', drawReason: 'wallExhausted' });
+
+    const { state: drawn } = drawTile({ ...state, rules: createRuleSet({ reservedWallTiles: 1 }) });
+    expect(drawn.phase).toBe('postDraw');
+  });
+
+  /** North is about to make the fourth East Wind discard of the first go-around. */
+  function makeFourWindsState(fourWindsDraw: boolean): GameState {
+    return makeTestState({
+      players: [
+        makePlayer('east', [], { discards: [findTile('winds', 'east', 1)] }),
+        makePlayer('south', [], { discards: [findTile('winds', 'east', 2)] }),
+        makePlayer('west', [], { discards: [findTile('winds', 'east', 3)] }),
+        makePlayer('north', [findTile('winds', 'east', 4), findTile('dots', 1)]),
+      ],
+      currentPlayerIndex: 3,
+      rules: createRuleSet({ fourWindsDraw }),
+      phase: 'postDraw',
+      firstTurnComplete: true,
+    });
+  }
+
+  it('aborts when all four first discards are the same wind', () => {
+    const { state: next, events } = discardTile(makeFourWindsState(true), findTile('winds', 'east', 4));
+
+    expect(next.result).toMatchObject({ type: 'draw', drawReason: 'fourWinds' });
+    expect(events.some(e => e.type === 'claimWindowOpen')).toBe(false);
+  });
+
+  it('plays on after four wind discards when the rule is off', () => {
+    const { state: next } = discardTile(makeFourWindsState(false), findTile('winds', 'east', 4));
+    expect(next.phase).toBe('claimWindow');
+  });
+
+  it('never aborts on wind discards at a three-player table', () => {
+    const state = makeTestState({
+      players: [
+        makePlayer('east', [], { discards: [findTile('winds', 'east', 1)] }),
+        makePlayer('south', [], { discards: [findTile('winds', 'east', 2)] }),
+        makePlayer('west', [findTile('winds', 'east', 3), findTile('dots', 1)]),
+      ],
+      currentPlayerIndex: 2,
+      rules: createRuleSet({ ...SINGAPORE_THREE_PLAYER_RULES, fourWindsDraw: true }),
+      phase: 'postDraw',
+      firstTurnComplete: true,
+    });
+
+    const { state: next } = discardTile(state, findTile('winds', 'east', 3));
+    expect(next.result).toBeNull();
+    expect(next.phase).toBe('claimWindow');
+  });
+
+  /** South declares a concealed kong of Dots 9; `kongs` are already on the table. */
+  function makeKongState(kongs: MeldedSet[][], fourKongsDraw = true): GameState {
+    return makeTestState({
+      players: [
+        makePlayer('east', [], { openMelds: kongs[0] }),
+        makePlayer('south', [...findTiles('dots', 9, 4), findTile('bamboo', 1)], { openMelds: kongs[1] }),
+        makePlayer('west', [], { openMelds: kongs[2] }),
+        makePlayer('north', [], { openMelds: kongs[3] }),
+      ],
+      deadWall: [findTile('bamboo', 2)],
+      currentPlayerIndex: 1,
+      rules: createRuleSet({ fourKongsDraw }),
+      phase: 'postDraw',
+      firstTurnComplete: true,
+    });
+  }
+
+  it('aborts on the fourth kong declared by more than one player', () => {
+    const state = makeKongState([[kong('dots', 1)], [kong('dots', 2, false)], [kong('dots', 3)], []]);
+    const { state: next } = declareKong(state, findTiles('dots', 9, 4));
+
+    expect(next.result).toMatchObject({ type: 'draw', drawReason: 'fourKongs' });
+    expect(next.result?.kongPayouts).toHaveLength(4);
+  });
+
+  it('plays on when one player holds all four kongs', () => {
+    const state = makeKongState([[], [kong('dots', 1), kong('dots', 2), kong('dots', 3)], [], []]);
+    const { state: next } = declareKong(state, findTiles('dots', 9, 4));
+    expect(next.phase).toBe('postDraw');
+  });
+
+  it('plays on after four kongs when the rule is off', () => {
+    const state = makeKongState([[kong('dots', 1)], [kong('dots', 2)], [kong('dots', 3)], []], false);
+    const { state: next } = declareKong(state, findTiles('dots', 9, 4));
+    expect(next.phase).toBe('postDraw');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Three players
+// ---------------------------------------------------------------------------
+
+describe('three-player games', () => {
+  const rules = SINGAPORE_THREE_PLAYER_RULES;
+
+  it('deals three seats and rejects a fourth player', () => {
+    const state = createGame(['human', 'ai', 'ai'], 'east', 0, rules, 3);
+    expect(state.players.map(p => p.seat)).toEqual(['east', 'south', 'west']);
+    expect(() => createGame(['ai', 'ai', 'ai', 'ai'], 'east', 0, rules))
+      .toThrow('Singapore three-player is played with 3 players, got 4');
+  });
+
+  it('passes the turn from West back to East', () => {
+    const discard = findTile('dots', 9, 1);
+    const state = makeTestState({
+      rules,
+      players: [
+        makePlayer('east', []),
+        makePlayer('south', []),
+        makePlayer('west', [], { discards: [discard] }),
+      ],
+      phase: 'claimWindow',
+      lastDiscard: discard,
+      lastDiscardPlayerIndex: 2,
+    });
+
+    expect(passClaim(state).state.currentPlayerIndex).toBe(0);
+  });
+
+  it('does not allow chows', () => {
+    const discard = findTile('bamboo', 5, 1);
+    const t4 = findTile('bamboo', 4, 1);
+    const t6 = findTile('bamboo', 6, 1);
+    const state = makeTestState({
+      rules,
+      players: [
+        makePlayer('east', [], { discards: [discard] }),
+        makePlayer('south', [t4, t6, findTile('dots', 1)]),
+        makePlayer('west', []),
+      ],
+      phase: 'claimWindow',
+      lastDiscard: discard,
+      lastDiscardPlayerIndex: 0,
+    });
+
+    expect(canChow(state, 1)).toBe(false);
+    expect(getValidActions(state, 1).map(a => a.type)).toEqual(['pass']);
+    expect(() => claimChow(state, 1, [t4, t6])).toThrow('Chows are not allowed under these rules');
+  });
+
+  it('plays a round to the end with AI players', async () => {
+    const strategies: SeatStrategies = [heuristicStrategy, heuristicStrategy, heuristicStrategy];
+    const { state } = await advanceGame(createGame(['ai', 'ai', 'ai'], 'east', 0, rules, 5), strategies);
+    expect(state.phase).toBe('roundOver');
+    expect(state.actionLog.some(e => e.move.type === 'claimChow')).toBe(false);
+  });
+});
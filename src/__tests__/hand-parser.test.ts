@@ -1,6 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { parseHand, isWinningHand } from '../hand-parser';
-import { createAllTiles, Tile, TileNumber, NumberedSuit, Wind, Dragon } from '../tiles';
+import { parseHand, parseHandWithMelds, isWinningHand, getWaitingTiles, countUnseenTiles } from '../hand-parser';
+import { createAllTiles, Tile, TileNumber, NumberedSuit, Wind, Dragon, tileKey } from '../tiles';
+import { createGame } from '../game';
+import { MeldedSet } from '../scoring';
+import { SINGAPORE_THREE_PLAYER_RULES } from '../rules';
 
 // Helper to create a numbered tile quickly
 function nt(suit: NumberedSuit, value: TileNumber): Tile {
@@ -156,3 +159,111 @@ describe('isWinningHand', () => {
     expect(isWinningHand(tiles)).toBe(false);
   });
 });
+
+describe('parseHandWithMelds', () => {
+  const chow: MeldedSet = {
+    type: 'chow',
+    tiles: [nt('bamboo', 1), nt('bamboo', 2), nt('bamboo', 3)],
+    concealed: false,
+  };
+  // With the chow: 111 222 333 bamboo, which parseHand could also read as pungs
+  const concealed = [
+    nt('bamboo', 1), nt('bamboo', 1), nt('bamboo', 2), nt('bamboo', 2), nt('bamboo', 3), nt('bamboo', 3),
+    nt('dots', 1), nt('dots', 1), nt('dots', 1),
+    nt('dots', 2), nt('dots', 2),
+  ];
+
+  it('keeps declared melds in every decomposition', () => {
+    const flat = parseHand([...concealed, ...chow.tiles]);
+    expect(flat.decompositions.some(d => d.melds.every(m => m.type === 'pung'))).toBe(true);
+
+    const result = parseHandWithMelds(concealed, [chow]);
+    expect(result.valid).toBe(true);
+    for (const d of result.decompositions) {
+      expect(d.melds[0]).toBe(chow);
+      expect(d.melds.filter(m => m.type === 'chow')).toHaveLength(3);
+    }
+  });
+
+  it('counts a declared kong as three tiles', () => {
+    const kong: MeldedSet = {
+      type: 'kong',
+      tiles: [nt('dots', 9), nt('dots', 9), nt('dots', 9), nt('dots', 9)],
+      concealed: true,
+    };
+    expect(parseHandWithMelds(concealed, [kong]).valid).toBe(true);
+    expect(parseHandWithMelds(concealed.slice(1), [kong]).valid).toBe(false);
+  });
+});
+
+describe('getWaitingTiles', () => {
+  // 123 456 789 bamboo + 234 dots + 5 dots: waits on Dots 2 and Dots 5
+  const hand = [
+    nt('bamboo', 1), nt('bamboo', 2), nt('bamboo', 3),
+    nt('bamboo', 4), nt('bamboo', 5), nt('bamboo', 6),
+    nt('bamboo', 7), nt('bamboo', 8), nt('bamboo', 9),
+    nt('dots', 2), nt('dots', 3), nt('dots', 4), nt('dots', 5),
+  ];
+
+  it('lists every tile that completes the hand', () => {
+    const waits = getWaitingTiles(hand, []);
+    expect(waits.map(w => tileKey(w.tile))).toEqual(['dots_2', 'dots_5']);
+    expect(waits.map(w => w.unseen)).toEqual([3, 3]);
+  });
+
+  it('keeps open melds as part of the hand', () => {
+    const pung: MeldedSet = {
+      type: 'pung',
+      tiles: [honor('dragons', 'red'), honor('dragons', 'red'), honor('dragons', 'red')],
+      concealed: false,
+    };
+    const waits = getWaitingTiles(hand.slice(3), [pung]);
+    expect(waits.map(w => tileKey(w.tile))).toEqual(['dots_2', 'dots_5']);
+  });
+
+  it('returns nothing for a hand of the wrong size', () => {
+    expect(getWaitingTiles(hand.slice(1), [])).toEqual([]);
+  });
+
+  it('does not wait on a tile the player holds all four of', () => {
+    // Four Dots 1 plus a bamboo straight: a fifth Dots 1 can never arrive
+    const quads = [
+      nt('dots', 1), nt('dots', 1), nt('dots', 1), nt('dots', 1),
+      nt('bamboo', 1), nt('bamboo', 2), nt('bamboo', 3),
+      nt('bamboo', 4), nt('bamboo', 5), nt('bamboo', 6),
+      nt('bamboo', 7), nt('bamboo', 8), nt('bamboo', 9),
+    ];
+    expect(getWaitingTiles(quads, []).map(w => tileKey(w.tile))).not.toContain('dots_1');
+  });
+
+  it('counts unseen copies from a player\'s seat', () => {
+    const state = createGame();
+    state.players.forEach(p => { p.discards = []; p.openMelds = []; });
+    state.players[2].discards = [nt('dots', 5)];
+    state.players[3]!.openMelds = [{ type: 'pung', tiles: [nt('dots', 2), nt('dots', 2), nt('dots', 2)], concealed: false }];
+
+    const waits = getWaitingTiles(hand, [], { state, playerIndex: 0 });
+    expect(waits.map(w => w.unseen)).toEqual([0, 2]);
+  });
+
+  it('keeps other players\' concealed kongs hidden', () => {
+    const state = createGame();
+    state.players.forEach(p => { p.discards = []; p.openMelds = []; });
+    state.players[1].openMelds = [{
+      type: 'kong',
+      tiles: [nt('dots', 9), nt('dots', 9), nt('dots', 9), nt('dots', 9)],
+      concealed: true,
+    }];
+
+    expect(countUnseenTiles([], [], { state, playerIndex: 0 }).get('dots_9')).toBe(4);
+  });
+
+  it('does not wait on tiles the rules take out of the set', () => {
+    // Characters 2-5 around a bamboo straight: both waits are removed for three players
+    const characters = [...hand.slice(0, 9), nt('characters', 2), nt('characters', 3), nt('characters', 4), nt('characters', 5)];
+    const state = createGame(['ai', 'ai', 'ai'], 'east', 0, SINGAPORE_THREE_PLAYER_RULES);
+
+    expect(getWaitingTiles(characters, []).map(w => tileKey(w.tile))).toEqual(['characters_2', 'characters_5']);
+    expect(getWaitingTiles(characters, [], { state, playerIndex: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { scoreHongKongHand, faanToAmount, HK_FAAN } from '../hk-scoring';
+import { meetsMinimumTai, MeldedSet, WinningHand } from '../scoring';
+import { createAllTiles, Tile } from '../tiles';
+import { HONG_KONG_OLD_STYLE_RULES, createRuleSet } from '../rules';
+import { DEFAULT_PAYMENT_CONFIG } from '../payments';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ALL = createAllTiles();
+
+function findTile(id: string): Tile {
+  const tile = ALL.find(t => t.id === id);
+  if (!tile) throw new Error(`Tile not found: ${id}`);
+  return { ...tile };
+}
+
+function findTiles(...ids: string[]): Tile[] {
+  return ids.map(findTile);
+}
+
+/** Pung of copies 1-3 of a tile key, e.g. pung('dragons_red'). */
+function pung(key: string, concealed = false): MeldedSet {
+  return { type: 'pung', tiles: findTiles(`${key}_1`, `${key}_2`, `${key}_3`), concealed };
+}
+
+function kong(key: string, concealed = false): MeldedSet {
+  return { type: 'kong', tiles: findTiles(`${key}_1`, `${key}_2`, `${key}_3`, `${key}_4`), concealed };
+}
+
+/** Chow starting at `start` using copy 1 of each tile. */
+function chow(suit: string, start: number, concealed = false): MeldedSet {
+  const tiles = [start, start + 1, start + 2].map(n => findTile(`${suit}_${n}_1`));
+  return { type: 'chow', tiles, concealed };
+}
+
+/** Pair of copies 3-4 of a tile key (so it never clashes with pung/chow copies). */
+function pairOf(key: string): Tile[] {
+  return findTiles(`${key}_3`, `${key}_4`);
+}
+
+function buildHand(melds: MeldedSet[], pair: Tile[], overrides: Partial<WinningHand> = {}): WinningHand {
+  return {
+    handTiles: [...melds.flatMap(m => m.tiles.slice(0, 3)), ...pair],
+    melds,
+    pair,
+    bonusTiles: [],
+    seatWind: 'south',
+    prevailingWind: 'east',
+    selfDrawn: false,
+    firstDraw: false,
+    ...overrides,
+  };
+}
+
+/** Four open chows in mixed suits on a plain pair. */
+function plainChows(overrides: Partial<WinningHand> = {}): WinningHand {
+  return buildHand(
+    [chow('bamboo', 1), chow('dots', 4), chow('characters', 7), chow('bamboo', 6)],
+    pairOf('dots_2'),
+    overrides,
+  );
+}
+
+const names = (hand: WinningHand) => scoreHongKongHand(hand).details.map(d => d.name);
+
+// ---------------------------------------------------------------------------
+// scoreHongKongHand
+// ---------------------------------------------------------------------------
+
+describe('scoreHongKongHand - flowers', () => {
+  it('scores a hand without flowers or seasons', () => {
+    const result = scoreHongKongHand(plainChows());
+    expect(result.details).toEqual([
+      { name: 'No Flowers', tai: HK_FAAN.noFlowers },
+      { name: 'All Chows', tai: HK_FAAN.allChows },
+    ]);
+    expect(result.tai).toBe(2);
+  });
+
+  it('scores only the seat flower and season, and complete sets', () => {
+    const seat = scoreHongKongHand(plainChows({ bonusTiles: findTiles('flowers_orchid', 'seasons_summer', 'flowers_plum') }));
+    expect(seat.details.filter(d => d.bonus).map(d => d.name)).toEqual([
+      expect.stringMatching(/^Seat Flower/),
+      expect.stringMatching(/^Seat Season/),
+    ]);
+
+    const complete = scoreHongKongHand(plainChows({
+      bonusTiles: findTiles('flowers_plum', 'flowers_orchid', 'flowers_chrysanthemum', 'flowers_bamboo'),
+    }));
+    expect(complete.details).toContainEqual({ name: 'Complete Flowers', tai: HK_FAAN.completeFlowers, bonus: true });
+    expect(names(plainChows({ bonusTiles: findTiles('flowers_plum') }))).not.toContain('No Flowers');
+  });
+});
+
+describe('scoreHongKongHand - patterns', () => {
+  it('scores dragon and wind pungs', () => {
+    const hand = buildHand(
+      [pung('dragons_red'), pung('winds_south'), pung('winds_east'), chow('dots', 1)],
+      pairOf('bamboo_5'),
+    );
+    expect(names(hand)).toEqual(expect.arrayContaining([
+      'Pung of Red Dragon',
+      'Pung of Seat Wind (south)',
+      'Pung of Prevailing Wind (east)',
+    ]));
+  });
+
+  it('scores flushes, all pungs and small three dragons', () => {
+    const pure = buildHand([chow('dots', 1), chow('dots', 4), pung('dots_9'), chow('dots', 5)], pairOf('dots_2'));
+    expect(names(pure)).toContain('Pure Hand');
+
+    const half = buildHand([pung('dots_1'), pung('dots_5'), pung('dragons_red'), pung('dragons_green')], pairOf('dragons_white'));
+    expect(names(half)).toEqual(expect.arrayContaining(['Half Flush', 'All Pungs', 'Small Three Dragons']));
+    expect(scoreHongKongHand(half).tai).toBe(HONG_KONG_OLD_STYLE_RULES.limitTai);
+  });
+
+  it('scores seven pairs, concealed and self-drawn', () => {
+    const tiles = ['bamboo_1', 'bamboo_4', 'dots_2', 'dots_7', 'characters_3', 'characters_8', 'winds_north']
+      .flatMap(pairOf);
+    const result = scoreHongKongHand(buildHand([], [], { handTiles: tiles, selfDrawn: true }));
+
+    expect(result.details.map(d => d.name)).toEqual(['No Flowers', 'Seven Pairs', 'Concealed Hand', 'Self-Drawn']);
+    expect(result.tai).toBe(7);
+  });
+
+  it('scores the circumstances of the win', () => {
+    expect(names(plainChows({ lastTile: true, kongReplacement: true, robbedKong: true }))).toEqual(
+      expect.arrayContaining(['Win on Last Tile', 'Win on Kong Replacement', 'Robbing the Kong']),
+    );
+  });
+});
+
+describe('scoreHongKongHand - limits', () => {
+  it('scores the shared limit hands and All Kongs at the limit', () => {
+    const dragons = buildHand([pung('dragons_red'), pung('dragons_green'), pung('dragons_white'), chow('dots', 1)], pairOf('bamboo_5'));
+    expect(scoreHongKongHand(dragons)).toEqual({ tai: 10, details: [{ name: 'Big Three Dragons', tai: 10 }] });
+
+    const kongs = buildHand([kong('dots_1'), kong('bamboo_5'), kong('characters_7'), kong('dots_8')], findTiles('bamboo_2_1', 'bamboo_2_2'));
+    expect(scoreHongKongHand(kongs).details).toEqual([{ name: 'All Kongs', tai: 10 }]);
+  });
+
+  it('caps the faan at the rule set limit', () => {
+    const rules = createRuleSet({ ...HONG_KONG_OLD_STYLE_RULES, limitTai: 6 });
+    const pure = buildHand([chow('dots', 1), chow('dots', 4), pung('dots_9'), chow('dots', 5)], pairOf('dots_2'));
+    expect(scoreHongKongHand(pure, rules).tai).toBe(6);
+  });
+
+  it('leaves hands under the three-faan minimum unable to win', () => {
+    expect(meetsMinimumTai(scoreHongKongHand(plainChows()), HONG_KONG_OLD_STYLE_RULES)).toBe(false);
+    expect(meetsMinimumTai(scoreHongKongHand(plainChows({ selfDrawn: true })), HONG_KONG_OLD_STYLE_RULES)).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// faanToAmount
+// ---------------------------------------------------------------------------
+
+describe('faanToAmount', () => {
+  const config = DEFAULT_PAYMENT_CONFIG; // base=0.20
+
+  it('reads the payment table, doubling then in half steps', () => {
+    expect([0, 1, 2, 3, 4, 5, 6, 7].map(f => faanToAmount(f, { ...config, base: 1 })))
+      .toEqual([1, 2, 4, 8, 16, 24, 32, 48]);
+    expect(faanToAmount(3, config)).toBeCloseTo(1.60);
+  });
+
+  it('pays hands over the limit at the limit, ignoring the tai cap', () => {
+    expect(faanToAmount(10, config)).toBeCloseTo(0.20 * 128);
+    expect(faanToAmount(13, config)).toBeCloseTo(0.20 * 128);
+    expect(faanToAmount(13, config, createRuleSet({ ...HONG_KONG_OLD_STYLE_RULES, limitTai: 13 }))).toBeCloseTo(0.20 * 384);
+  });
+});
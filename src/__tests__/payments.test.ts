@@ -1,6 +1,17 @@
 import { describe, it, expect } from 'vitest';
-import { taiToAmount, calculatePayments, DEFAULT_PAYMENT_CONFIG } from '../payments';
+import {
+  taiToAmount,
+  calculatePayments,
+  calculateBonusPayments,
+  calculateKongPayments,
+  getWinners,
+  DEFAULT_PAYMENT_CONFIG,
+} from '../payments';
 import { GameResult, PaymentConfig } from '../game-types';
+import { createRuleSet, SINGAPORE_THREE_PLAYER_RULES, HONG_KONG_OLD_STYLE_RULES } from '../rules';
+import { createAllTiles } from '../tiles';
+
+const ALL = createAllTiles();
 
 // ---------------------------------------------------------------------------
 // taiToAmount
@@ -33,6 +44,12 @@ describe('taiToAmount', () => {
     expect(taiToAmount(3, custom)).toBeCloseTo(4.00);
     expect(taiToAmount(4, custom)).toBeCloseTo(4.00); // capped at 3
   });
+
+  it('should use the rule set multiplier', () => {
+    const linear = createRuleSet({ taiMultiplier: 1.5 });
+    expect(taiToAmount(1, config, linear)).toBeCloseTo(0.20);
+    expect(taiToAmount(3, config, linear)).toBeCloseTo(0.45);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -133,3 +150,298 @@ describe('calculatePayments', () => {
     }
   });
 });
+
+// ---------------------------------------------------------------------------
+// Instant bonus payments
+// ---------------------------------------------------------------------------
+
+describe('calculateBonusPayments', () => {
+  const config = DEFAULT_PAYMENT_CONFIG;
+  const cat = ALL.find(t => t.id === 'animals_cat')!;
+  const mouse = ALL.find(t => t.id === 'animals_mouse')!;
+
+  it('should charge every other player for an animal pair', () => {
+    const result: GameResult = {
+      type: 'draw',
+      bonusPayouts: [{ playerIndex: 2, name: 'Cat & Mouse', tiles: [cat, mouse] }],
+    };
+    const payments = calculateBonusPayments(result, config);
+
+    expect(payments).toHaveLength(1);
+    expect(payments[0].name).toBe('Cat & Mouse');
+    expect(payments[0].deltas[2]).toBeCloseTo(0.60);
+    expect(payments[0].deltas[0]).toBeCloseTo(-0.20);
+    expect(payments[0].deltas[1]).toBeCloseTo(-0.20);
+    expect(payments[0].deltas[3]).toBeCloseTo(-0.20);
+  });
+
+  it('should use animalPairTai for the amount', () => {
+    const result: GameResult = {
+      type: 'draw',
+      bonusPayouts: [{ playerIndex: 0, name: 'Cat & Mouse', tiles: [cat, mouse] }],
+    };
+    const payments = calculateBonusPayments(result, { ...config, animalPairTai: 2 });
+    expect(payments[0].deltas[1]).toBeCloseTo(-0.40);
+  });
+
+  it('should be paid on a draw and added on top of a win', () => {
+    const payout = { playerIndex: 1, name: 'Cat & Mouse', tiles: [cat, mouse] };
+
+    const draw = calculatePayments({ type: 'draw', bonusPayouts: [payout] }, config);
+    expect(draw.deltas[1]).toBeCloseTo(0.60);
+    expect(draw.instantPayments).toHaveLength(1);
+    expect(draw.winnerTotal).toBe(0);
+
+    const win = calculatePayments({
+      type: 'win',
+      winnerIndex: 0,
+      scoring: { tai: 1, details: [] },
+      loserIndex: 3,
+      bonusPayouts: [payout],
+    }, config);
+    // Hand: 0 receives 0.60 from 3. Pair: 1 receives 0.20 from each other player.
+    expect(win.deltas[0]).toBeCloseTo(0.40);
+    expect(win.deltas[1]).toBeCloseTo(0.60);
+    expect(win.deltas[2]).toBeCloseTo(-0.20);
+    expect(win.deltas[3]).toBeCloseTo(-0.80);
+    expect(win.winnerTotal).toBeCloseTo(0.60);
+    expect(win.deltas.reduce((a, b) => a + b, 0)).toBeCloseTo(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Instant kong payments
+// ---------------------------------------------------------------------------
+
+describe('calculateKongPayments', () => {
+  const config = DEFAULT_PAYMENT_CONFIG;
+
+  it('should charge every other player per kong, concealed paying more', () => {
+    const result: GameResult = {
+      type: 'draw',
+      kongPayouts: [
+        { playerIndex: 0, concealed: false, tiles: [] },
+        { playerIndex: 3, concealed: true, tiles: [] },
+      ],
+    };
+    const payments = calculateKongPayments(result, config);
+
+    expect(payments.map(p => p.name)).toEqual(['Exposed Kong', 'Concealed Kong']);
+    expect(payments[0].deltas[0]).toBeCloseTo(0.60);
+    expect(payments[0].deltas[1]).toBeCloseTo(-0.20);
+    expect(payments[1].deltas[3]).toBeCloseTo(1.20);
+    expect(payments[1].deltas[2]).toBeCloseTo(-0.40);
+  });
+
+  it('should skip kongs whose tai is configured as 0', () => {
+    const result: GameResult = {
+      type: 'draw',
+      kongPayouts: [{ playerIndex: 0, concealed: false, tiles: [] }],
+    };
+    expect(calculateKongPayments(result, { ...config, exposedKongTai: 0 })).toEqual([]);
+  });
+
+  it('should be paid separately from the winning hand', () => {
+    const payments = calculatePayments({
+      type: 'win',
+      winnerIndex: 2,
+      scoring: { tai: 1, details: [] },
+      kongPayouts: [{ playerIndex: 1, concealed: false, tiles: [] }],
+    }, config);
+
+    // Hand: 2 receives 0.20 from each. Kong: 1 receives 0.20 from each.
+    expect(payments.winnerTotal).toBeCloseTo(0.60);
+    expect(payments.instantPayments).toHaveLength(1);
+    expect(payments.deltas[0]).toBeCloseTo(-0.40);
+    expect(payments.deltas[1]).toBeCloseTo(0.40);
+    expect(payments.deltas[2]).toBeCloseTo(0.40);
+    expect(payments.deltas[3]).toBeCloseTo(-0.40);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Multiple winners
+// ---------------------------------------------------------------------------
+
+describe('multiple winners', () => {
+  const config = DEFAULT_PAYMENT_CONFIG;
+  const hand = {} as NonNullable<GameResult['winningHand']>;
+
+  const result: GameResult = {
+    type: 'win',
+    winnerIndex: 1,
+    scoring: { tai: 2, details: [] },
+    loserIndex: 0,
+    winners: [
+      { winnerIndex: 1, winningHand: hand, scoring: { tai: 2, details: [] } },
+      { winnerIndex: 3, winningHand: hand, scoring: { tai: 3, details: [] } },
+    ],
+  };
+
+  it('getWinners lists every winner, or the single winner', () => {
+    expect(getWinners(result).map(w => w.winnerIndex)).toEqual([1, 3]);
+    expect(getWinners({ type: 'win', winnerIndex: 2, scoring: { tai: 1, details: [] } })
+      .map(w => w.winnerIndex)).toEqual([2]);
+    expect(getWinners({ type: 'draw' })).toEqual([]);
+  });
+
+  it('charges the discarder for each winner', () => {
+    const payments = calculatePayments(result, config);
+
+    // 2 tai = $0.40 × 3, 3 tai = $0.80 × 3
+    expect(payments.deltas[1]).toBeCloseTo(1.20);
+    expect(payments.deltas[3]).toBeCloseTo(2.40);
+    expect(payments.deltas[0]).toBeCloseTo(-3.60);
+    expect(payments.deltas[2]).toBeCloseTo(0);
+    expect(payments.winnerTotal).toBeCloseTo(1.20);
+  });
+
+  it('charges each winner\'s share only when shooter does not pay', () => {
+    const payments = calculatePayments(result, { ...config, shooterPays: false });
+    expect(payments.deltas[0]).toBeCloseTo(-1.20);
+    expect(payments.deltas.reduce((a, b) => a + b, 0)).toBeCloseTo(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Responsibility (包)
+// ---------------------------------------------------------------------------
+
+describe('responsibility payments', () => {
+  const config = DEFAULT_PAYMENT_CONFIG;
+
+  it('makes the responsible player pay the whole self-drawn hand', () => {
+    const result: GameResult = {
+      type: 'win',
+      winnerIndex: 1,
+      scoring: { tai: 3, details: [] },
+      responsibility: { playerIndex: 2, pattern: 'Big Three Dragons' },
+    };
+    const payments = calculatePayments(result, config);
+
+    expect(payments.deltas[1]).toBeCloseTo(2.40);
+    expect(payments.deltas[2]).toBeCloseTo(-2.40);
+    expect(payments.deltas[0]).toBeCloseTo(0);
+    expect(payments.deltas[3]).toBeCloseTo(0);
+  });
+
+  it('takes over from the discarder on a discard win', () => {
+    const result: GameResult = {
+      type: 'win',
+      winnerIndex: 1,
+      scoring: { tai: 3, details: [] },
+      loserIndex: 3,
+      responsibility: { playerIndex: 0, pattern: 'Pure Hand' },
+    };
+    const payments = calculatePayments(result, { ...config, shooterPays: false });
+
+    expect(payments.deltas[0]).toBeCloseTo(-2.40);
+    expect(payments.deltas[3]).toBeCloseTo(0);
+  });
+
+  it('is ignored when the rules turn it off', () => {
+    const result: GameResult = {
+      type: 'win',
+      winnerIndex: 1,
+      scoring: { tai: 3, details: [] },
+      responsibility: { playerIndex: 2, pattern: 'Big Three Dragons' },
+    };
+    const payments = calculatePayments(result, config, createRuleSet({ responsibilityPayments: false }));
+
+    expect(payments.deltas[1]).toBeCloseTo(2.40);
+    expect(payments.deltas[0]).toBeCloseTo(-0.80);
+    expect(payments.deltas[2]).toBeCloseTo(-0.80);
+    expect(payments.deltas[3]).toBeCloseTo(-0.80);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Three players
+// ---------------------------------------------------------------------------
+
+describe('three-player payments', () => {
+  const config = DEFAULT_PAYMENT_CONFIG;
+  const rules = SINGAPORE_THREE_PLAYER_RULES;
+
+  it('splits a self-drawn win between the two losers', () => {
+    const result: GameResult = { type: 'win', winnerIndex: 2, scoring: { tai: 3, details: [] } };
+    const payments = calculatePayments(result, config, rules);
+
+    expect(payments.deltas).toHaveLength(3);
+    expect(payments.deltas[2]).toBeCloseTo(1.60);
+    expect(payments.deltas[0]).toBeCloseTo(-0.80);
+    expect(payments.deltas[1]).toBeCloseTo(-0.80);
+    expect(payments.winnerTotal).toBeCloseTo(1.60);
+  });
+
+  it('makes the shooter pay for both losers', () => {
+    const result: GameResult = { type: 'win', winnerIndex: 0, loserIndex: 1, scoring: { tai: 3, details: [] } };
+    const payments = calculatePayments(result, config, rules);
+
+    expect(payments.deltas[0]).toBeCloseTo(1.60);
+    expect(payments.deltas[1]).toBeCloseTo(-1.60);
+    expect(payments.deltas[2]).toBeCloseTo(0);
+  });
+
+  it('charges the two other players for instant payments', () => {
+    const cat = ALL.find(t => t.id === 'animals_cat')!;
+    const mouse = ALL.find(t => t.id === 'animals_mouse')!;
+    const result: GameResult = {
+      type: 'draw',
+      bonusPayouts: [{ playerIndex: 1, name: 'Cat & Mouse', tiles: [cat, mouse] }],
+    };
+    const payments = calculatePayments(result, config, rules);
+
+    expect(payments.deltas).toEqual([-0.2, 0.4, -0.2]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Hong Kong payments
+// ---------------------------------------------------------------------------
+
+describe('Hong Kong payments', () => {
+  const rules = HONG_KONG_OLD_STYLE_RULES;
+  // 3 faan = 8 points = $1.60 per loser
+  const scoring = { tai: 3, details: [] };
+
+  it('makes every loser pay double on a self-drawn win', () => {
+    const result: GameResult = { type: 'win', winnerIndex: 1, scoring };
+    const payments = calculatePayments(result, DEFAULT_PAYMENT_CONFIG, rules);
+
+    expect(payments.perLoserAmount).toBeCloseTo(1.60);
+    expect(payments.deltas[1]).toBeCloseTo(9.60);
+    expect(payments.deltas[0]).toBeCloseTo(-3.20);
+    expect(payments.deltas[2]).toBeCloseTo(-3.20);
+    expect(payments.deltas[3]).toBeCloseTo(-3.20);
+  });
+
+  it('makes the discarder pay double and the others single as a half shooter', () => {
+    const result: GameResult = { type: 'win', winnerIndex: 0, loserIndex: 2, scoring };
+    const payments = calculatePayments(result, { ...DEFAULT_PAYMENT_CONFIG, shooterPays: false }, rules);
+
+    expect(payments.deltas[0]).toBeCloseTo(6.40);
+    expect(payments.deltas[2]).toBeCloseTo(-3.20);
+    expect(payments.deltas[1]).toBeCloseTo(-1.60);
+    expect(payments.deltas[3]).toBeCloseTo(-1.60);
+  });
+
+  it('makes a full shooter pay everyone\'s share', () => {
+    const result: GameResult = { type: 'win', winnerIndex: 0, loserIndex: 2, scoring };
+    const payments = calculatePayments(result, DEFAULT_PAYMENT_CONFIG, rules);
+
+    expect(payments.deltas[0]).toBeCloseTo(6.40);
+    expect(payments.deltas[2]).toBeCloseTo(-6.40);
+    expect(payments.winnerTotal).toBeCloseTo(6.40);
+  });
+
+  it('pays nothing for kongs', () => {
+    const result: GameResult = {
+      type: 'draw',
+      kongPayouts: [{ playerIndex: 1, concealed: true, tiles: [] }],
+    };
+
+    expect(calculateKongPayments(result, DEFAULT_PAYMENT_CONFIG, rules)).toEqual([]);
+    expect(calculatePayments(result, DEFAULT_PAYMENT_CONFIG, rules).deltas).toEqual([0, 0, 0, 0]);
+  });
+});
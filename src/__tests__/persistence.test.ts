@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest';
+import {
+  serializeGame,
+  deserializeGame,
+  serializeSession,
+  deserializeSession,
+  SAVE_VERSION,
+  SavedGame,
+  SavedSession,
+} from '../persistence';
+import { createGame, discardTile, GameController } from '../game';
+import { SessionController } from '../game-session';
+import { RuleSet, SINGAPORE_STANDARD_RULES, SINGAPORE_THREE_PLAYER_RULES, HONG_KONG_OLD_STYLE_RULES } from '../rules';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Serialize, edit the parsed save, and serialize it again. */
+function tamper<T>(json: string, edit: (saved: T) => void): string {
+  const saved = JSON.parse(json) as T;
+  edit(saved);
+  return JSON.stringify(saved);
+}
+
+/** A GameState as saved before saves were versioned: no envelope, none of the later fields. */
+function legacyGame(json: string): Record<string, any> {
+  const { state } = JSON.parse(json) as SavedGame;
+  const legacy: Record<string, any> = { ...state };
+  for (const key of ['rules', 'seed', 'robbingKong', 'kongReplacementDraw', 'bonusPayouts', 'actionLog']) {
+    delete legacy[key];
+  }
+  for (const player of legacy.players) {
+    for (const meld of player.openMelds) delete meld.claimedFrom;
+  }
+  return legacy;
+}
+
+// ---------------------------------------------------------------------------
+// Games
+// ---------------------------------------------------------------------------
+
+describe('saved games', () => {
+  it('round-trips a game in progress', () => {
+    const dealt = createGame(['human', 'ai', 'ai', 'ai'], 'south', 1, undefined, 42);
+    const { state } = discardTile(dealt, dealt.players[1].handTiles[0]);
+
+    const json = serializeGame(state);
+    expect(JSON.parse(json)).toMatchObject({ format: 'sg-mahjong/game-state', version: SAVE_VERSION });
+    expect(deserializeGame(json)).toEqual(state);
+  });
+
+  it('loads a game that can still be played', () => {
+    const loaded = deserializeGame(serializeGame(createGame(['ai', 'ai', 'ai', 'ai'], 'east', 0, undefined, 7)));
+    const ctrl = new GameController(['ai', 'ai', 'ai', 'ai'], 'east', loaded);
+
+    ctrl.discardTile(ctrl.state.players[0].handTiles[0]);
+    expect(ctrl.state.phase).toBe('claimWindow');
+  });
+
+  it('migrates an unversioned save from before seeds, rules and meld provenance', () => {
+    const state = createGame(['ai', 'ai', 'ai', 'ai'], 'east', 0, undefined, 9);
+    state.players[2].openMelds.push({
+      type: 'pung',
+      tiles: state.wall.splice(0, 3),
+      concealed: false,
+      claimedFrom: 1,
+    });
+    const legacy = legacyGame(serializeGame(state));
+
+    const loaded = deserializeGame(JSON.stringify(legacy));
+    expect(loaded.rules).toEqual(SINGAPORE_STANDARD_RULES);
+    expect(loaded.seed).toBe(0);
+    expect(loaded.actionLog).toEqual([]);
+    expect(loaded.bonusPayouts).toEqual([]);
+    expect(loaded.robbingKong).toBe(false);
+    expect(loaded.players[2].openMelds[0].claimedFrom).toBeUndefined();
+    expect(loaded.players).toEqual(legacy.players);
+  });
+
+  it('fills rule values added after a legacy save was written', () => {
+    const legacy = legacyGame(serializeGame(createGame(['ai', 'ai', 'ai', 'ai'])));
+    legacy.rules = { name: 'House', limitTai: 10, tai: { dragonPung: 2 } };
+
+    const { rules } = deserializeGame(JSON.stringify(legacy));
+    expect(rules.limitTai).toBe(10);
+    expect(rules.tai.dragonPung).toBe(2);
+    expect(rules.reservedWallTiles).toBe(SINGAPORE_STANDARD_RULES.reservedWallTiles);
+  });
+
+  it('round-trips a three-player game', () => {
+    const state = createGame(['human', 'ai', 'ai'], 'east', 2, SINGAPORE_THREE_PLAYER_RULES, 4);
+    expect(deserializeGame(serializeGame(state))).toEqual(state);
+  });
+
+  it('migrates a version 1 save to four-player rules with the full set', () => {
+    const json = tamper<SavedGame>(serializeGame(createGame(['ai', 'ai', 'ai', 'ai'])), s => {
+      s.version = 1;
+      const rules: Record<string, unknown> = s.state.rules as any;
+      for (const key of ['seats', 'removedTiles', 'allowChow']) delete rules[key];
+    });
+
+    const { rules } = deserializeGame(json);
+    expect(rules.seats).toBe(4);
+    expect(rules.removedTiles).toEqual([]);
+    expect(rules.allowChow).toBe(true);
+  });
+
+  it('migrates a version 2 save to Singapore scoring and round-trips Hong Kong rules', () => {
+    const json = tamper<SavedGame>(serializeGame(createGame(['ai', 'ai', 'ai', 'ai'])), s => {
+      s.version = 2;
+      delete (s.state.rules as Partial<RuleSet>).scoringSystem;
+    });
+    expect(deserializeGame(json).rules.scoringSystem).toBe('singapore');
+
+    const hongKong = createGame(['ai', 'ai', 'ai', 'ai'], 'east', 0, HONG_KONG_OLD_STYLE_RULES, 3);
+    expect(deserializeGame(serializeGame(hongKong))).toEqual(hongKong);
+  });
+
+  it('rejects malformed saves', () => {
+    const json = serializeGame(createGame(['ai', 'ai', 'ai', 'ai']));
+
+    expect(() => deserializeGame('{')).toThrow('not valid JSON');
+    expect(() => deserializeGame(tamper<SavedGame>(json, s => { s.version = SAVE_VERSION + 1; })))
+      .toThrow('newer release');
+    expect(() => deserializeGame(tamper<any>(json, s => { s.format = 'sg-mahjong/session-state'; })))
+      .toThrow('expected format');
+    expect(() => deserializeGame(tamper<SavedGame>(json, s => { s.state.phase = 'bidding' as any; })))
+      .toThrow('state.phase');
+    expect(() => deserializeGame(tamper<SavedGame>(json, s => { s.state.players[1].handTiles[0].name = 'Joker'; })))
+      .toThrow('state.players[1].handTiles[0] must be a valid tile');
+    expect(() => deserializeGame(tamper<SavedGame>(json, s => { (s.state as any).rules.tai = {}; })))
+      .toThrow('state.rules.tai.');
+    expect(() => deserializeGame(tamper<SavedGame>(json, s => { s.state.players.pop(); })))
+      .toThrow('state.players must be an array of 4');
+    expect(() => deserializeGame(tamper<SavedGame>(json, s => { s.state.rules.seats = 3; })))
+      .toThrow('state.players must be an array of 3');
+    expect(() => deserializeGame(tamper<SavedGame>(json, s => { (s.state.rules as any).scoringSystem = 'japanese'; })))
+      .toThrow('state.rules.scoringSystem');
+  });
+
+  it('rejects seat indices beyond the table', () => {
+    const json = serializeGame(createGame(['ai', 'ai', 'ai'], 'east', 0, SINGAPORE_THREE_PLAYER_RULES, 4));
+
+    expect(() => deserializeGame(tamper<SavedGame>(json, s => { s.state.currentPlayerIndex = 3; })))
+      .toThrow('state.currentPlayerIndex must be a seat index 0-2');
+    expect(() => deserializeGame(tamper<SavedGame>(json, s => { s.state.dealerIndex = 3; })))
+      .toThrow('state.dealerIndex must be a seat index 0-2');
+    expect(() => deserializeGame(tamper<SavedGame>(json, s => { s.state.lastDiscardPlayerIndex = 3; })))
+      .toThrow('state.lastDiscardPlayerIndex must be a seat index 0-2');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+describe('saved sessions', () => {
+  it('round-trips a session with a round in progress', async () => {
+    const ctrl = new SessionController({ playerTypes: ['ai', 'ai', 'ai', 'ai'], seed: 5 });
+    ctrl.startRound();
+    await ctrl.advanceRound();
+    ctrl.startRound();
+
+    const json = serializeSession(ctrl.session);
+    expect(JSON.parse(json)).toMatchObject({ format: 'sg-mahjong/session-state', version: SAVE_VERSION });
+    const loaded = deserializeSession(json);
+    expect(loaded).toEqual(ctrl.session);
+    expect(loaded.currentRound).not.toBeNull();
+  });
+
+  it('migrates an unversioned session save', async () => {
+    const ctrl = new SessionController({ playerTypes: ['ai', 'ai', 'ai', 'ai'], seed: 6 });
+    ctrl.startRound();
+    await ctrl.advanceRound();
+    ctrl.startRound();
+
+    const { session } = JSON.parse(serializeSession(ctrl.session)) as SavedSession;
+    const legacy: Record<string, any> = { ...session, currentRound: legacyGame(serializeGame(session.currentRound!)) };
+    delete legacy.dealerStreak;
+    delete legacy.config.rules;
+    delete legacy.config.seed;
+    legacy.rounds = session.rounds.map(({ roundNumber, result, payments, dealerIndex, prevailingWind }) =>
+      ({ roundNumber, result, payments, dealerIndex, prevailingWind }));
+
+    const loaded = deserializeSession(JSON.stringify(legacy));
+    expect(loaded.config.rules).toEqual(SINGAPORE_STANDARD_RULES);
+    expect(Number.isInteger(loaded.config.seed)).toBe(true);
+    expect(loaded.dealerStreak).toBe(0);
+    expect(loaded.rounds[0].dealerStreak).toBe(0);
+    expect(loaded.scores).toEqual(ctrl.session.scores);
+    expect(loaded.currentRound!.actionLog).toEqual([]);
+  });
+
+  it('rejects malformed sessions', () => {
+    const json = serializeSession(new SessionController({ seed: 1 }).session);
+
+    expect(() => deserializeSession(serializeGame(createGame(['ai', 'ai', 'ai', 'ai'])))).toThrow('expected format');
+    expect(() => deserializeSession(tamper<SavedSession>(json, s => { s.session.scores = [0, 0, 0] as any; })))
+      .toThrow('scores must be an array of 4');
+    expect(() => deserializeSession(tamper<SavedSession>(json, s => { s.session.config.windRounds = 0; })))
+      .toThrow('config.windRounds');
+  });
+
+  it('rejects round results and payments that do not fit the table', async () => {
+    const ctrl = new SessionController({ playerTypes: ['ai', 'ai', 'ai'], rules: SINGAPORE_THREE_PLAYER_RULES, seed: 9 });
+    ctrl.startRound();
+    await ctrl.advanceRound();
+    const json = serializeSession(ctrl.session);
+    const result = (s: SavedSession) => s.session.rounds[0].result;
+
+    expect(() => deserializeSession(tamper<SavedSession>(json, s => { result(s).type = 'win'; result(s).winnerIndex = 3; })))
+      .toThrow('rounds[0].result.winnerIndex must be a seat index 0-2');
+    expect(() => deserializeSession(tamper<SavedSession>(json, s => { result(s).loserIndex = -1; })))
+      .toThrow('rounds[0].result.loserIndex');
+    expect(() => deserializeSession(tamper<SavedSession>(json, s => {
+      result(s).responsibility = { playerIndex: 3, pattern: 'Big Three Dragons' };
+    }))).toThrow('rounds[0].result.responsibility.playerIndex');
+    expect(() => deserializeSession(tamper<SavedSession>(json, s => {
+      result(s).kongPayouts = [{ playerIndex: 0, concealed: 'yes' as any, tiles: [] }];
+    }))).toThrow('rounds[0].result.kongPayouts[0].concealed');
+    expect(() => deserializeSession(tamper<SavedSession>(json, s => {
+      result(s).bonusPayouts = [{ playerIndex: 5, name: 'Cat & Mouse', tiles: [] }];
+    }))).toThrow('rounds[0].result.bonusPayouts[0].playerIndex');
+    expect(() => deserializeSession(tamper<SavedSession>(json, s => { result(s).winners = [{} as any]; })))
+      .toThrow('rounds[0].result.winners[0].winnerIndex');
+    expect(() => deserializeSession(tamper<SavedSession>(json, s => { s.session.rounds[0].payments.deltas.push(0); })))
+      .toThrow('rounds[0].payments.deltas must be an array of 3');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  exportRoundLog,
+  importRoundLog,
+  exportSessionLog,
+  importSessionLog,
+  RoundLog,
+  SessionLog,
+} from '../round-log';
+import { SessionController } from '../game-session';
+import { SessionState } from '../game-types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let session: SessionState;
+
+beforeAll(async () => {
+  const ctrl = new SessionController({ playerTypes: ['ai', 'ai', 'ai', 'ai'], seed: 21 });
+  for (let i = 0; i < 2; i++) {
+    ctrl.startRound();
+    await ctrl.advanceRound();
+  }
+  session = ctrl.session;
+});
+
+/** Export, edit the parsed log, and serialize it again. */
+function tamper<T>(json: string, edit: (log: T) => void): string {
+  const log = JSON.parse(json) as T;
+  edit(log);
+  return JSON.stringify(log);
+}
+
+// ---------------------------------------------------------------------------
+// Round logs
+// ---------------------------------------------------------------------------
+
+describe('round logs', () => {
+  it('round-trips a completed round', () => {
+    const json = exportRoundLog(session.rounds[0], session.config.payment);
+    const log = JSON.parse(json) as RoundLog;
+    expect(log.format).toBe('sg-mahjong/round');
+    expect(log.version).toBe(1);
+    expect(log.moves.length).toBeGreaterThan(0);
+
+    expect(importRoundLog(json)).toEqual(session.rounds[0]);
+  });
+
+  it('rejects a log that is not JSON, or from another version', () => {
+    const json = exportRoundLog(session.rounds[0], session.config.payment);
+    expect(() => importRoundLog('{ nope')).toThrow(/not valid JSON/);
+    expect(() => importRoundLog(tamper<RoundLog>(json, log => { log.version = 99; }))).toThrow(/version/);
+  });
+
+  it('rejects tampered moves', () => {
+    const json = exportRoundLog(session.rounds[0], session.config.payment);
+    const edited = tamper<RoundLog>(json, log => {
+      const discard = log.moves.find(m => m.move === 'discard')!;
+      discard.tile = 'dragons_red_4';
+    });
+    expect(() => importRoundLog(edited)).toThrow(/Invalid round log/);
+
+    const badTurn = tamper<RoundLog>(json, log => { log.moves[log.moves.length - 1].turn += 1; });
+    expect(() => importRoundLog(badTurn)).toThrow(/moves do not match/);
+  });
+
+  it('rejects a result or payments that do not match the replay', () => {
+    const json = exportRoundLog(session.rounds[0], session.config.payment);
+    const badResult = tamper<RoundLog>(json, log => { log.result.type = log.result.type === 'win' ? 'draw' : 'win'; });
+    expect(() => importRoundLog(badResult)).toThrow(/result does not match/);
+
+    const badPayments = tamper<RoundLog>(json, log => { log.payments.deltas[0] += 1; });
+    expect(() => importRoundLog(badPayments)).toThrow(/payments do not match/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Session logs
+// ---------------------------------------------------------------------------
+
+describe('session logs', () => {
+  it('rebuilds the session from its log', () => {
+    const imported = importSessionLog(exportSessionLog(session));
+    expect(imported.scores).toEqual(session.scores);
+    expect(imported.rounds).toEqual(session.rounds);
+    expect(imported.dealerIndex).toBe(session.dealerIndex);
+    expect(imported.dealerStreak).toBe(session.dealerStreak);
+  });
+
+  it('rejects scores that do not add up', () => {
+    const json = tamper<SessionLog>(exportSessionLog(session), log => { log.scores[1] += 5; });
+    expect(() => importSessionLog(json)).toThrow(/scores do not match/);
+  });
+
+  it('rejects rounds out of sequence', () => {
+    const json = tamper<SessionLog>(exportSessionLog(session), log => { log.rounds.shift(); });
+    expect(() => importSessionLog(json)).toThrow(/does not follow on/);
+  });
+
+  it('rejects a round dealt from another seed', async () => {
+    const dealtFrom = async (seed: number) => {
+      const ctrl = new SessionController({ playerTypes: ['ai', 'ai', 'ai', 'ai'], seed });
+      ctrl.startRound();
+      await ctrl.advanceRound();
+      return JSON.parse(exportSessionLog(ctrl.session)) as SessionLog;
+    };
+    const own = await dealtFrom(5);
+    const other = await dealtFrom(999);
+    own.rounds[0] = other.rounds[0];
+    own.scores = other.scores;
+    own.finished = other.finished;
+
+    expect(() => importSessionLog(JSON.stringify(own))).toThrow(/round 1 does not follow on/);
+  });
+});
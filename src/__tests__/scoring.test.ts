@@ -0,0 +1,306 @@
+import { describe, it, expect } from 'vitest';
+import { scoreHand, findAnimalPairs, meetsMinimumTai, MeldedSet, WinningHand } from '../scoring';
+import { createAllTiles, Tile, Wind } from '../tiles';
+import { createRuleSet } from '../rules';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ALL = createAllTiles();
+
+function findTile(id: string): Tile {
+  const tile = ALL.find(t => t.id === id);
+  if (!tile) throw new Error(`Tile not found: ${id}`);
+  return { ...tile };
+}
+
+function findTiles(...ids: string[]): Tile[] {
+  return ids.map(findTile);
+}
+
+/** A plain mixed-suit hand worth no pattern tai, won off a discard. */
+function makeHand(bonusTiles: Tile[], seatWind: Wind = 'east'): WinningHand {
+  const melds = [
+    { type: 'chow' as const, tiles: findTiles('bamboo_1_1', 'bamboo_2_1', 'bamboo_3_1'), concealed: false },
+    { type: 'chow' as const, tiles: findTiles('dots_4_1', 'dots_5_1', 'dots_6_1'), concealed: true },
+    { type: 'chow' as const, tiles: findTiles('characters_7_1', 'characters_8_1', 'characters_9_1'), concealed: true },
+    { type: 'chow' as const, tiles: findTiles('bamboo_6_1', 'bamboo_7_1', 'bamboo_8_1'), concealed: true },
+  ];
+  const pair = findTiles('dots_2_1', 'dots_2_2');
+  return {
+    handTiles: [...melds.flatMap(m => m.tiles), ...pair],
+    melds,
+    pair,
+    bonusTiles,
+    seatWind,
+    prevailingWind: 'east',
+    selfDrawn: false,
+    firstDraw: false,
+  };
+}
+
+/** Pung of copies 1-3 of a tile key, e.g. pung('dragons_red'). */
+function pung(key: string, concealed = false): MeldedSet {
+  return { type: 'pung', tiles: findTiles(`${key}_1`, `${key}_2`, `${key}_3`), concealed };
+}
+
+/** Chow starting at `start` using copy 1 of each tile. */
+function chow(suit: string, start: number, concealed = false): MeldedSet {
+  const tiles = [start, start + 1, start + 2].map(n => findTile(`${suit}_${n}_1`));
+  return { type: 'chow', tiles, concealed };
+}
+
+/** Pair of copies 3-4 of a tile key (so it never clashes with pung/chow copies). */
+function pairOf(key: string): Tile[] {
+  return findTiles(`${key}_3`, `${key}_4`);
+}
+
+function buildHand(melds: MeldedSet[], pair: Tile[], overrides: Partial<WinningHand> = {}): WinningHand {
+  return {
+    handTiles: [...melds.flatMap(m => m.tiles), ...pair],
+    melds,
+    pair,
+    bonusTiles: [],
+    seatWind: 'south',
+    prevailingWind: 'east',
+    selfDrawn: false,
+    firstDraw: false,
+    ...overrides,
+  };
+}
+
+function detailNames(hand: WinningHand): string[] {
+  return scoreHand(hand).details.map(d => d.name);
+}
+
+// ---------------------------------------------------------------------------
+// Bonus tiles
+// ---------------------------------------------------------------------------
+
+describe('scoreHand - bonus tiles', () => {
+  it('scores only the flower and season matching the seat', () => {
+    const bonus = findTiles('flowers_plum', 'flowers_orchid', 'seasons_summer', 'seasons_winter');
+
+    const east = scoreHand(makeHand(bonus, 'east'));
+    expect(east.details.map(d => d.name)).toEqual(['Seat Flower (Plum)']);
+    expect(east.tai).toBe(1);
+
+    const south = scoreHand(makeHand(bonus, 'south'));
+    expect(south.details.map(d => d.name)).toEqual(['Seat Flower (Orchid)', 'Seat Season (Summer)']);
+    expect(south.tai).toBe(2);
+  });
+
+  it('gives no tai for other seats\' flowers (chicken hand)', () => {
+    const result = scoreHand(makeHand(findTiles('flowers_bamboo', 'seasons_autumn'), 'east'));
+    expect(result.tai).toBe(1);
+    expect(result.details.map(d => d.name)).toEqual(['Minimum Hand (Chicken)']);
+  });
+
+  it('scores a complete set of flowers or seasons as 8 tai', () => {
+    const flowers = findTiles('flowers_plum', 'flowers_orchid', 'flowers_bamboo', 'flowers_chrysanthemum');
+    expect(scoreHand(makeHand(flowers, 'west')).details).toEqual([{ name: 'Complete Flowers', tai: 8, bonus: true }]);
+
+    const seasons = findTiles('seasons_spring', 'seasons_summer', 'seasons_autumn', 'seasons_winter');
+    expect(scoreHand(makeHand(seasons, 'west')).details).toEqual([{ name: 'Complete Seasons', tai: 8, bonus: true }]);
+  });
+
+  it('scores all four animals as Complete Animals for 8 tai', () => {
+    const animals = findTiles('animals_cat', 'animals_mouse', 'animals_rooster', 'animals_centipede');
+    expect(scoreHand(makeHand(animals, 'south')).details).toEqual([{ name: 'Complete Animals', tai: 8, bonus: true }]);
+  });
+
+  it('scores every animal regardless of seat', () => {
+    const names = detailNames(makeHand(findTiles('animals_cat', 'animals_rooster'), 'north'));
+    expect(names).toEqual(['2 Animal(s)']);
+  });
+});
+
+describe('findAnimalPairs', () => {
+  it('finds cat + mouse and rooster + centipede', () => {
+    const pairs = findAnimalPairs(findTiles('animals_cat', 'animals_mouse', 'animals_rooster', 'animals_centipede'));
+    expect(pairs.map(p => p.name)).toEqual(['Cat & Mouse', 'Rooster & Centipede']);
+  });
+
+  it('ignores unmatched animals', () => {
+    expect(findAnimalPairs(findTiles('animals_cat', 'animals_rooster', 'flowers_plum'))).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Hand patterns
+// ---------------------------------------------------------------------------
+
+describe('scoreHand - Ping Hu', () => {
+  it('scores four chows with a non-scoring pair and no bonus tiles', () => {
+    const result = scoreHand(makeHand([]));
+    expect(result.details).toEqual([{ name: 'Ping Hu', tai: 4 }]);
+  });
+
+  it('is not awarded with bonus tiles or a scoring pair', () => {
+    expect(detailNames(makeHand(findTiles('flowers_orchid'), 'east'))).not.toContain('Ping Hu');
+
+    const melds = [chow('bamboo', 1), chow('dots', 4), chow('characters', 7), chow('bamboo', 6)];
+    expect(detailNames(buildHand(melds, pairOf('dragons_red')))).not.toContain('Ping Hu');
+    expect(detailNames(buildHand(melds, pairOf('winds_south')))).not.toContain('Ping Hu');
+    expect(detailNames(buildHand(melds, pairOf('winds_north')))).toContain('Ping Hu');
+  });
+});
+
+describe('scoreHand - dragons and winds', () => {
+  it('scores Small Three Dragons on top of the dragon pungs', () => {
+    const hand = buildHand(
+      [pung('dragons_red'), pung('dragons_green'), chow('bamboo', 1), chow('dots', 4)],
+      pairOf('dragons_white'),
+    );
+    const result = scoreHand(hand);
+    expect(result.details.map(d => d.name)).toEqual([
+      'Pung of Red Dragon', 'Pung of Green Dragon', 'Small Three Dragons',
+    ]);
+    expect(result.tai).toBe(6);
+  });
+
+  it('lets Big Three Dragons suppress Small Three Dragons', () => {
+    const hand = buildHand(
+      [pung('dragons_red'), pung('dragons_green'), pung('dragons_white'), chow('dots', 4)],
+      pairOf('bamboo_2'),
+    );
+    expect(scoreHand(hand).details).toEqual([{ name: 'Big Three Dragons', tai: 40 }]);
+  });
+
+  it('scores Small Four Winds as a limit hand', () => {
+    const hand = buildHand(
+      [pung('winds_east'), pung('winds_south'), pung('winds_west'), chow('dots', 4)],
+      pairOf('winds_north'),
+    );
+    expect(scoreHand(hand).details).toEqual([{ name: 'Small Four Winds', tai: 40 }]);
+  });
+
+  it('lets Big Four Winds suppress Small Four Winds', () => {
+    const hand = buildHand(
+      [pung('winds_east'), pung('winds_south'), pung('winds_west'), pung('winds_north')],
+      pairOf('dots_5'),
+    );
+    expect(scoreHand(hand).details).toEqual([{ name: 'Big Four Winds', tai: 40 }]);
+  });
+});
+
+describe('scoreHand - limit hands', () => {
+  it('scores All Honours', () => {
+    const hand = buildHand(
+      [pung('winds_east'), pung('winds_south'), pung('dragons_red'), pung('dragons_green')],
+      pairOf('winds_west'),
+    );
+    expect(scoreHand(hand).details).toEqual([{ name: 'All Honours', tai: 40 }]);
+  });
+
+  it('scores All Terminals', () => {
+    const hand = buildHand(
+      [pung('dots_1'), pung('dots_9'), pung('bamboo_1'), pung('characters_9')],
+      pairOf('bamboo_9'),
+    );
+    expect(scoreHand(hand).details).toEqual([{ name: 'All Terminals', tai: 40 }]);
+  });
+
+  it('scores Nine Gates only when concealed', () => {
+    const melds = [pung('dots_1', true), chow('dots', 2, true), chow('dots', 6, true), pung('dots_9', true)];
+    const hand = buildHand(melds, pairOf('dots_5'));
+    expect(scoreHand(hand).details).toEqual([{ name: 'Nine Gates', tai: 40 }]);
+
+    const open = buildHand([{ ...melds[0], concealed: false }, ...melds.slice(1)], pairOf('dots_5'));
+    expect(detailNames(open)).toContain('Pure Hand');
+  });
+
+  it('scores Four Concealed Pungs when every pung is concealed', () => {
+    const melds = [pung('dots_2', true), pung('bamboo_4', true), pung('characters_6', true), pung('dots_8', true)];
+
+    const selfDrawn = buildHand(melds, pairOf('bamboo_7'), { selfDrawn: true });
+    expect(scoreHand(selfDrawn).details).toEqual([{ name: 'Four Concealed Pungs', tai: 40 }]);
+
+    // Won off a discard that completes the pair: every pung was built in hand
+    const pairWait = buildHand(melds, pairOf('bamboo_7'));
+    expect(scoreHand(pairWait).details).toEqual([{ name: 'Four Concealed Pungs', tai: 40 }]);
+
+    // Won off a discard that completes a pung: that pung counts as exposed
+    const pungWait = detailNames(buildHand([...melds.slice(0, 3), pung('dots_8')], pairOf('bamboo_7')));
+    expect(pungWait).toContain('All Pungs');
+    expect(pungWait).not.toContain('Four Concealed Pungs');
+  });
+});
+
+describe('scoreHand - sisters', () => {
+  it('scores Greater Sisters for same-numbered pungs in all three suits', () => {
+    const hand = buildHand(
+      [pung('dots_5'), pung('bamboo_5'), pung('characters_5'), chow('dots', 1)],
+      pairOf('bamboo_8'),
+    );
+    const names = detailNames(hand);
+    expect(names).toContain('Greater Sisters');
+    expect(names).not.toContain('Lesser Sisters');
+  });
+
+  it('scores Lesser Sisters for two pungs and a pair of the same number', () => {
+    const hand = buildHand(
+      [pung('dots_5'), pung('bamboo_5'), chow('characters', 1), chow('dots', 1)],
+      pairOf('characters_5'),
+    );
+    expect(scoreHand(hand).details).toEqual([{ name: 'Lesser Sisters', tai: 2 }]);
+  });
+});
+
+describe('scoreHand - win context', () => {
+  it('scores last tile, kong replacement and robbed kong wins', () => {
+    expect(detailNames({ ...makeHand([]), selfDrawn: true, lastTile: true })).toContain('Win on Last Tile');
+    expect(detailNames({ ...makeHand([]), selfDrawn: true, kongReplacement: true })).toContain('Win on Kong Replacement');
+    expect(detailNames({ ...makeHand([]), robbedKong: true })).toContain('Robbing the Kong');
+  });
+
+  it('replaces the chicken-hand minimum', () => {
+    const result = scoreHand({ ...makeHand(findTiles('flowers_bamboo'), 'east'), robbedKong: true });
+    expect(result.details).toEqual([{ name: 'Robbing the Kong', tai: 1 }]);
+  });
+
+  it('adds nothing to a limit hand', () => {
+    const hand = buildHand(
+      [pung('dragons_red'), pung('dragons_green'), pung('dragons_white'), chow('dots', 4)],
+      pairOf('bamboo_2'),
+      { selfDrawn: true, lastTile: true },
+    );
+    expect(scoreHand(hand).details).toEqual([{ name: 'Big Three Dragons', tai: 40 }]);
+  });
+});
+
+describe('scoreHand - rule sets', () => {
+  it('uses the rule set tai values and limit', () => {
+    const rules = createRuleSet({ tai: { pingHu: 2 }, limitTai: 13 });
+    expect(scoreHand(makeHand([]), rules).tai).toBe(2);
+
+    const bigDragons = buildHand(
+      [pung('dragons_red'), pung('dragons_green'), pung('dragons_white'), chow('dots', 4)],
+      pairOf('bamboo_2'),
+    );
+    expect(scoreHand(bigDragons, rules).tai).toBe(13);
+  });
+
+  it('omits patterns valued at 0 and honours the chicken-hand setting', () => {
+    const noPingHu = createRuleSet({ tai: { pingHu: 0 } });
+    expect(scoreHand(makeHand([]), noPingHu).details).toEqual([{ name: 'Minimum Hand (Chicken)', tai: 1 }]);
+
+    const noChicken = createRuleSet({ tai: { pingHu: 0 }, chickenHandTai: 0 });
+    expect(scoreHand(makeHand([]), noChicken)).toEqual({ tai: 0, details: [] });
+  });
+});
+
+describe('meetsMinimumTai', () => {
+  it('never counts the chicken hand', () => {
+    const chicken = scoreHand(makeHand(findTiles('flowers_bamboo'), 'east'));
+    expect(meetsMinimumTai(chicken, createRuleSet({ minimumTai: 0 }))).toBe(true);
+    expect(meetsMinimumTai(chicken, createRuleSet({ minimumTai: 1 }))).toBe(false);
+  });
+
+  it('optionally leaves bonus tiles out', () => {
+    const seatFlowerOnly = scoreHand(makeHand(findTiles('flowers_plum'), 'east'));
+    expect(meetsMinimumTai(seatFlowerOnly, createRuleSet({ minimumTai: 1 }))).toBe(true);
+    expect(meetsMinimumTai(seatFlowerOnly, createRuleSet({ minimumTai: 1, minimumTaiExcludesBonus: true }))).toBe(false);
+  });
+});
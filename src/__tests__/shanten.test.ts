@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { calculateShanten, getImprovingTiles, analyzeDiscards } from '../shanten';
+import { createAllTiles, Tile, tileKey } from '../tiles';
+import { createGame } from '../game';
+import { MeldedSet } from '../scoring';
+import { WaitingTile } from '../hand-parser';
+import { SINGAPORE_THREE_PLAYER_RULES } from '../rules';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ALL = createAllTiles();
+
+function t(suit: string, value: string | number, copy = 1): Tile {
+  const tile = ALL.find(x => x.id === `${suit}_${value}_${copy}`);
+  if (!tile) throw new Error(`Tile not found: ${suit}_${value}_${copy}`);
+  return tile;
+}
+
+function pair(suit: string, value: string | number): Tile[] {
+  return [t(suit, value, 1), t(suit, value, 2)];
+}
+
+// 123 456 789 bamboo + 234 dots + 5 dots: waits on Dots 2 and Dots 5
+const READY = [
+  ...[1, 2, 3, 4, 5, 6, 7, 8, 9].map(v => t('bamboo', v)),
+  t('dots', 2), t('dots', 3), t('dots', 4), t('dots', 5),
+];
+
+const ORPHANS = [
+  t('bamboo', 1), t('bamboo', 9), t('dots', 1), t('dots', 9), t('characters', 1), t('characters', 9),
+  t('winds', 'east'), t('winds', 'south'), t('winds', 'west'), t('winds', 'north'),
+  t('dragons', 'red'), t('dragons', 'green'), t('dragons', 'white'),
+];
+
+// ---------------------------------------------------------------------------
+// calculateShanten
+// ---------------------------------------------------------------------------
+
+describe('calculateShanten', () => {
+  it('returns -1 for a complete hand', () => {
+    expect(calculateShanten([...READY, t('dots', 5, 2)])).toBe(-1);
+  });
+
+  it('returns 0 for a ready hand', () => {
+    expect(calculateShanten(READY)).toBe(0);
+  });
+
+  it('counts each missing step towards ready', () => {
+    // Swap Dots 4 and 5 for two isolated honors: one tile from ready
+    expect(calculateShanten([...READY.slice(0, 11), t('winds', 'east'), t('dragons', 'red')])).toBe(1);
+  });
+
+  it('recognises seven pairs', () => {
+    const hand = [
+      ...pair('bamboo', 1), ...pair('bamboo', 5), ...pair('dots', 3), ...pair('dots', 8),
+      ...pair('characters', 2), ...pair('winds', 'east'), t('dragons', 'red'),
+    ];
+    expect(calculateShanten(hand)).toBe(0);
+    expect(calculateShanten([...hand, t('dragons', 'red', 2)])).toBe(-1);
+  });
+
+  it('recognises thirteen orphans', () => {
+    expect(calculateShanten(ORPHANS)).toBe(0);
+    expect(calculateShanten([...ORPHANS, t('dragons', 'red', 2)])).toBe(-1);
+  });
+
+  it('only counts special hands while nothing is melded', () => {
+    const pung: MeldedSet = {
+      type: 'pung',
+      tiles: [t('dragons', 'white', 2), t('dragons', 'white', 3), t('dragons', 'white', 4)],
+      concealed: false,
+    };
+    const hand = [
+      ...pair('bamboo', 1), ...pair('bamboo', 5), ...pair('dots', 3), ...pair('dots', 8), ...pair('winds', 'east'),
+    ];
+    // Five pairs would be one from Seven Pairs, but with a pung only the standard shape counts
+    expect(calculateShanten(hand, [pung])).toBe(2);
+    expect(calculateShanten([...hand, ...pair('dragons', 'green'), t('dragons', 'red')])).toBe(0);
+  });
+
+  it('counts open melds as completed sets', () => {
+    const pung: MeldedSet = {
+      type: 'pung',
+      tiles: [t('dragons', 'red', 1), t('dragons', 'red', 2), t('dragons', 'red', 3)],
+      concealed: false,
+    };
+    expect(calculateShanten(READY.slice(3), [pung])).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getImprovingTiles / analyzeDiscards
+// ---------------------------------------------------------------------------
+
+describe('getImprovingTiles', () => {
+  it('lists the winning tiles of a ready hand', () => {
+    const improving = getImprovingTiles(READY);
+    expect(improving.map(w => tileKey(w.tile))).toEqual(['dots_2', 'dots_5']);
+    expect(improving.map(w => w.unseen)).toEqual([3, 3]);
+  });
+
+  it('lists all thirteen orphans when waiting on any of them', () => {
+    const hand = [...ORPHANS.slice(0, 12), t('dragons', 'green', 2)];
+    expect(getImprovingTiles(hand).map(w => tileKey(w.tile))).toEqual(['dragons_white']);
+    expect(getImprovingTiles(ORPHANS)).toHaveLength(13);
+  });
+});
+
+describe('analyzeDiscards', () => {
+  const hand = [...READY, t('dragons', 'red')];
+
+  it('puts the discard that keeps the hand ready first', () => {
+    const [best] = analyzeDiscards(hand);
+    expect(tileKey(best.tile)).toBe('dragons_red');
+    expect(best.shanten).toBe(0);
+    expect(best.improvingCount).toBe(6);
+  });
+
+  it('lists each distinct tile once, best first', () => {
+    const options = analyzeDiscards(hand);
+    expect(options).toHaveLength(14);
+    for (let i = 1; i < options.length; i++) {
+      const prev = options[i - 1];
+      const cur = options[i];
+      expect(prev.shanten < cur.shanten
+        || (prev.shanten === cur.shanten && prev.improvingCount >= cur.improvingCount)).toBe(true);
+    }
+  });
+
+  it('counts only tiles still unseen from the player view', () => {
+    const state = createGame(['ai', 'ai', 'ai', 'ai']);
+    state.players[0].handTiles = hand;
+    state.players[0].openMelds = [];
+    for (const p of state.players.slice(1)) {
+      p.handTiles = [];
+      p.openMelds = [];
+    }
+    state.players[2].discards = [t('dots', 2, 2), t('dots', 2, 3)];
+
+    const [best] = analyzeDiscards(hand, [], { state, playerIndex: 0 });
+    expect(best.improvingTiles.map(w => w.unseen)).toEqual([1, 3]);
+    expect(best.improvingCount).toBe(4);
+  });
+
+  it('leaves out tiles removed from a three-player set', () => {
+    // Bamboo straight, a Dots 5 pair, Characters 1 and 9: the characters next to them would help
+    const hand = [...READY.slice(0, 9), ...pair('dots', 5), t('characters', 1), t('characters', 9)];
+    const state = createGame(['ai', 'ai', 'ai'], 'east', 0, SINGAPORE_THREE_PLAYER_RULES);
+    const removed = (tiles: WaitingTile[]) =>
+      tiles.filter(w => SINGAPORE_THREE_PLAYER_RULES.removedTiles.includes(tileKey(w.tile)));
+
+    expect(removed(getImprovingTiles(hand))).not.toEqual([]);
+    expect(removed(getImprovingTiles(hand, [], { state, playerIndex: 0 }))).toEqual([]);
+    expect(getImprovingTiles(hand, [], { state, playerIndex: 0 }).map(w => tileKey(w.tile)))
+      .toEqual(expect.arrayContaining(['characters_1', 'characters_9']));
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { validateGameState, assertValidGameState } from '../state-check';
+import { createGame, drawTile, discardTile, passClaim, advanceGame, GameController } from '../game';
+import { createGameRecord, replayGame } from '../game-record';
+import { GameState } from '../game-types';
+import { SINGAPORE_THREE_PLAYER_RULES } from '../rules';
+import { heuristicStrategy } from '../strategy';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function dealt(seed = 11): GameState {
+  return createGame(['ai', 'ai', 'ai', 'ai'], 'east', 0, undefined, seed);
+}
+
+/** Player 1 after drawing, so their hand is at 14. */
+function afterDraw(): GameState {
+  const start = dealt();
+  const claimWindow = discardTile(start, start.players[0].handTiles[0]).state;
+  return drawTile(passClaim(claimWindow).state).state;
+}
+
+// ---------------------------------------------------------------------------
+// validateGameState
+// ---------------------------------------------------------------------------
+
+describe('validateGameState', () => {
+  it('accepts a fresh deal', () => {
+    expect(validateGameState(dealt())).toEqual([]);
+  });
+
+  it('accepts every state of played rounds', async () => {
+    for (const seed of [1, 2, 3, 4, 5]) {
+      const { state } = await advanceGame(dealt(seed));
+      for (const s of replayGame(createGameRecord(state))) {
+        expect(validateGameState(s)).toEqual([]);
+      }
+    }
+  });
+
+  it('accepts every state of a three-player round, counting only the tiles in play', async () => {
+    const dealtThree = createGame(['ai', 'ai', 'ai'], 'east', 0, SINGAPORE_THREE_PLAYER_RULES, 8);
+    const { state } = await advanceGame(dealtThree, [heuristicStrategy, heuristicStrategy, heuristicStrategy]);
+    for (const s of replayGame(createGameRecord(state))) {
+      expect(validateGameState(s)).toEqual([]);
+    }
+  });
+
+  it('reports a duplicated tile and the tile it replaced', () => {
+    const state = dealt();
+    const lost = state.players[1].handTiles[0];
+    state.players[1].handTiles[0] = state.wall[0];
+
+    const problems = validateGameState(state);
+    expect(problems).toContain(`tile ${state.wall[0].id} is in both the wall and player 1's hand`);
+    expect(problems).toContain(`1 tile(s) missing: ${lost.id}`);
+  });
+
+  it('reports hand sizes that do not fit the phase', () => {
+    const state = afterDraw();
+    state.wall.push(state.players[1].handTiles.pop()!);
+
+    expect(validateGameState(state)).toEqual(['player 1 holds 13 tiles in phase postDraw, expected 14']);
+  });
+
+  it('reports bonus tiles held in hand', () => {
+    const state = dealt();
+    const bonusIdx = state.wall.findIndex(t => t.isBonus);
+    [state.wall[bonusIdx], state.players[2].handTiles[0]] = [state.players[2].handTiles[0], state.wall[bonusIdx]];
+
+    expect(validateGameState(state)).toEqual([
+      `player 2's hand holds bonus tile ${state.players[2].handTiles[0].id}`,
+    ]);
+  });
+
+  it('reports malformed melds', () => {
+    const state = dealt();
+    const player = state.players[3]!;
+    const tiles = player.handTiles.splice(0, 3);
+    player.openMelds.push({ type: 'pung', tiles, concealed: false, claimedFrom: 3 });
+
+    expect(validateGameState(state)).toEqual([
+      "player 3's meld 1 is a pung of different tiles",
+    ]);
+  });
+
+  it('reports a claim window whose tile is not on the discards', () => {
+    const start = dealt();
+    const state = discardTile(start, start.players[0].handTiles[0]).state;
+    state.wall.push(state.players[0].discards.pop()!);
+    state.lastDiscard = state.wall[state.wall.length - 1];
+
+    expect(validateGameState(state)).toEqual([
+      `claimable tile ${state.lastDiscard.id} is not on top of the discards of player 0`,
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Debug assertions
+// ---------------------------------------------------------------------------
+
+describe('assertValidGameState', () => {
+  it('throws listing the problems', () => {
+    const state = dealt();
+    state.wall.pop();
+
+    expect(() => assertValidGameState(state)).toThrow(/^Invalid game state: 1 tile\(s\) missing/);
+  });
+
+  it('is checked by GameController when checkInvariants is on', () => {
+    const broken = dealt();
+    broken.players[0].handTiles.push(broken.players[1].handTiles[0]);
+    const ctrl = new GameController(['ai', 'ai', 'ai', 'ai'], 'east', broken);
+    ctrl.checkInvariants = true;
+
+    expect(() => ctrl.discardTile(broken.players[0].handTiles[1])).toThrow('Invalid game state');
+  });
+});
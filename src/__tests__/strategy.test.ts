@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PlayerStrategy,
+  aiStrategy,
+  heuristicStrategy,
+  humanStrategy,
+  createScriptedStrategy,
+  defaultStrategies,
+  SeatStrategies,
+} from '../strategy';
+import { createGame, advanceGame, stepGame, GameController } from '../game';
+import { SessionController } from '../game-session';
+import { GameState, PlayerAction } from '../game-types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Wins when it can, never claims, otherwise discards the first tile offered. */
+function simpleBot(): PlayerStrategy & { calls: number[] } {
+  const calls: number[] = [];
+  const strategy = createScriptedStrategy((_state, seat, validActions) => {
+    calls.push(seat);
+    return validActions.find(a => a.type === 'declareSelfWin' || a.type === 'claimWin')
+      ?? validActions.find(a => a.type === 'discard')
+      ?? validActions.find(a => a.type === 'pass')
+      ?? validActions[0];
+  });
+  return Object.assign(strategy, { calls });
+}
+
+function bots(): SeatStrategies {
+  return [simpleBot(), simpleBot(), simpleBot(), simpleBot()];
+}
+
+function dealt(seed = 21): GameState {
+  return createGame(['human', 'ai', 'ai', 'ai'], 'east', 0, undefined, seed);
+}
+
+// ---------------------------------------------------------------------------
+// Strategies
+// ---------------------------------------------------------------------------
+
+describe('defaultStrategies', () => {
+  it('plays AI seats with aiStrategy and leaves human seats external', () => {
+    expect(defaultStrategies(dealt())).toEqual([humanStrategy, aiStrategy, aiStrategy, aiStrategy]);
+    expect(humanStrategy.external).toBe(true);
+    expect(aiStrategy.external).toBeFalsy();
+  });
+});
+
+describe('heuristicStrategy', () => {
+  it('decides like the rule-based AI', async () => {
+    const state = dealt();
+    const actions: PlayerAction[] = [{ type: 'pass' }];
+    expect((await heuristicStrategy.decide(state, 1, actions)).action).toEqual({ type: 'pass' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Game loop
+// ---------------------------------------------------------------------------
+
+describe('game loop with strategies', () => {
+  it('plays every seat through its strategy, human seats included', async () => {
+    const strategies = bots();
+    const { state } = await advanceGame(dealt(), strategies);
+
+    expect(state.phase).toBe('roundOver');
+    expect((strategies[0] as ReturnType<typeof simpleBot>).calls.length).toBeGreaterThan(0);
+  });
+
+  it('replays the same round with deterministic bots', async () => {
+    const first = await advanceGame(dealt(4), bots());
+    const second = await advanceGame(dealt(4), bots());
+    expect(second.state.actionLog).toEqual(first.state.actionLog);
+  });
+
+  it('pauses for an external seat', async () => {
+    const strategies: SeatStrategies = [humanStrategy, ...bots().slice(1)] as SeatStrategies;
+    const step = await stepGame(dealt(), strategies);
+    expect(step.done).toBe(true);
+    expect(step.events).toEqual([]);
+  });
+});
+
+describe('registering strategies', () => {
+  it('lets GameController play a seat by a registered strategy', async () => {
+    const ctrl = new GameController(['human', 'ai', 'ai', 'ai'], 'east', dealt());
+    const bot = simpleBot();
+    ctrl.setStrategy(0, bot);
+    ctrl.setStrategy(1, simpleBot());
+    ctrl.setStrategy(2, simpleBot());
+    ctrl.setStrategy(3, simpleBot());
+
+    await ctrl.advance();
+    expect(ctrl.isOver).toBe(true);
+    expect(bot.calls[0]).toBe(0);
+    expect(() => ctrl.setStrategy(4, bot)).toThrow('No seat 4');
+  });
+
+  it('keeps a session strategy for every round', async () => {
+    const ctrl = new SessionController({ playerTypes: ['human', 'ai', 'ai', 'ai'], seed: 8 });
+    const bot = simpleBot();
+    ctrl.setStrategy(0, bot);
+
+    for (let round = 0; round < 2 && !ctrl.isFinished; round++) {
+      const game = ctrl.startRound();
+      expect(game.strategies[0]).toBe(bot);
+      await ctrl.advanceRound();
+    }
+    expect(ctrl.session.rounds.length).toBeGreaterThan(0);
+    expect(bot.calls.length).toBeGreaterThan(0);
+  });
+});
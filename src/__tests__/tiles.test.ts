@@ -5,6 +5,10 @@ import {
   TILE_COUNTS,
   tilesMatch,
   tileKey,
+  parseTiles,
+  formatTiles,
+  parseHandNotation,
+  formatHand,
   Tile,
 } from '../tiles';
 
@@ -109,3 +113,63 @@ describe('tileKey', () => {
     expect(tileKey(tile)).toBe('flowers_plum');
   });
 });
+
+describe('tile notation', () => {
+  it('parses numbered, honor and bonus tiles', () => {
+    expect(parseTiles('19b5d7c').map(tileKey)).toEqual(['bamboo_1', 'bamboo_9', 'dots_5', 'characters_7']);
+    expect(parseTiles('14E3R').map(tileKey)).toEqual(['winds_east', 'winds_north', 'dragons_white']);
+    expect(parseTiles('1f2s4a').map(t => t.id)).toEqual(['flowers_plum', 'seasons_summer', 'animals_centipede']);
+    expect(parseTiles('34f').map(t => t.id)).toEqual(['flowers_chrysanthemum', 'flowers_bamboo']);
+  });
+
+  it('gives repeated kinds successive copies', () => {
+    expect(parseTiles('555d').map(t => t.id)).toEqual(['dots_5_1', 'dots_5_2', 'dots_5_3']);
+    expect(() => parseTiles('55555d')).toThrow(/too many/);
+  });
+
+  it('rejects malformed notation', () => {
+    expect(() => parseTiles('12x')).toThrow();
+    expect(() => parseTiles('0b')).toThrow();
+    expect(() => parseTiles('4R')).toThrow();
+    expect(() => parseTiles('b')).toThrow();
+  });
+
+  it('formats tiles back to the same notation', () => {
+    for (const notation of ['123b456d789c11E22R', '9c1b', '1234E1f']) {
+      expect(formatTiles(parseTiles(notation))).toBe(notation);
+    }
+  });
+
+  it('parses a hand with exposed melds and a concealed kong', () => {
+    const { melds, concealed } = parseHandNotation('[123b][555d](9999c)11E');
+    expect(melds.map(m => [m.type, m.concealed])).toEqual([
+      ['chow', false], ['pung', false], ['kong', true],
+    ]);
+    expect(concealed.map(tileKey)).toEqual(['winds_east', 'winds_east']);
+    expect(formatHand(concealed, melds)).toBe('[123b][555d](9999c)11E');
+  });
+
+  it('keeps tile ids unique across melds and hand', () => {
+    const { melds, concealed } = parseHandNotation('[555d]5d');
+    expect(concealed[0].id).toBe('dots_5_4');
+    expect(melds[0].tiles.map(t => t.id)).not.toContain('dots_5_4');
+  });
+
+  it('rejects brackets that do not hold a meld', () => {
+    expect(() => parseHandNotation('[124b]')).toThrow(/not a meld/);
+    expect(() => parseHandNotation('[11E]')).toThrow(/not a meld/);
+  });
+
+  it('rejects unbalanced brackets', () => {
+    expect(() => parseHandNotation('[123b456d')).toThrow(/unbalanced '\['/);
+    expect(() => parseHandNotation('(123b')).toThrow(/unbalanced '\('/);
+    expect(() => parseHandNotation('123b]11E')).toThrow(/unbalanced '\]'/);
+    expect(() => parseHandNotation('[123b)11E')).toThrow(/unbalanced/);
+    expect(() => parseHandNotation('[[123b]]')).toThrow(/unbalanced/);
+  });
+
+  it('accepts only four identical tiles as a concealed kong', () => {
+    expect(() => parseHandNotation('(123b)11E')).toThrow(/not a concealed kong/);
+    expect(() => parseHandNotation('(555d)11E')).toThrow(/not a concealed kong/);
+  });
+});
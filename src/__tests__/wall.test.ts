@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { dealGame, drawFromDeadWall } from '../wall';
+import { dealGame, drawFromDeadWall, createTileSet } from '../wall';
+import { createRuleSet, SINGAPORE_THREE_PLAYER_RULES } from '../rules';
+import { tileKey } from '../tiles';
 
 describe('dealGame', () => {
   const game = dealGame();
@@ -59,6 +61,55 @@ describe('dealGame', () => {
   });
 });
 
+describe('dealGame with a rule set', () => {
+  it('reserves the configured dead wall size', () => {
+    const game = dealGame(0, createRuleSet({ deadWallSize: 16 }));
+    expect(game.deadWall).toHaveLength(16);
+  });
+});
+
+describe('dealGame for three players', () => {
+  const game = dealGame(1, SINGAPORE_THREE_PLAYER_RULES, 7);
+
+  it('deals three hands, the dealer seated East', () => {
+    expect(game.players.map(p => p.seat)).toEqual(['west', 'east', 'south']);
+    expect(game.players.map(p => p.handTiles.length)).toEqual([13, 14, 13]);
+  });
+
+  it('plays without characters 2 to 8', () => {
+    const allTiles = [
+      ...game.players.flatMap(p => [...p.handTiles, ...p.bonusTiles]),
+      ...game.wall,
+      ...game.deadWall,
+    ];
+    expect(allTiles).toHaveLength(120);
+    expect(allTiles.filter(t => t.suit === 'characters').map(tileKey).sort())
+      .toEqual([...Array(4).fill('characters_1'), ...Array(4).fill('characters_9')]);
+    expect(createTileSet(SINGAPORE_THREE_PLAYER_RULES)).toHaveLength(120);
+  });
+});
+
+describe('dealGame with a seed', () => {
+  const ids = (setup: ReturnType<typeof dealGame>) => ({
+    wall: setup.wall.map(t => t.id),
+    deadWall: setup.deadWall.map(t => t.id),
+    hands: setup.players.map(p => p.handTiles.map(t => t.id)),
+  });
+
+  it('deals identically for the same seed', () => {
+    expect(ids(dealGame(0, undefined, 42))).toEqual(ids(dealGame(0, undefined, 42)));
+  });
+
+  it('deals differently for different seeds', () => {
+    expect(ids(dealGame(0, undefined, 42))).not.toEqual(ids(dealGame(0, undefined, 43)));
+  });
+
+  it('records the seed, picking one when none is given', () => {
+    expect(dealGame(0, undefined, 42).seed).toBe(42);
+    expect(Number.isInteger(dealGame().seed)).toBe(true);
+  });
+});
+
 describe('drawFromDeadWall', () => {
   it('draws a tile from the dead wall', () => {
     const deadWall = dealGame().deadWall;
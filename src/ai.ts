@@ -8,6 +8,9 @@
 
 import { Tile, tileKey, Wind } from './tiles';
 import { GameState, PlayerAction } from './game-types';
+import { canPlayerWin } from './win-check';
+import { MeldedSet } from './scoring';
+import { calculateShanten, analyzeDiscards } from './shanten';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -313,14 +316,10 @@ function tileUsefulness(
 }
 
 /**
- * Evaluate how much claiming a meld improves the hand.
+ * Evaluate how much claiming a pong improves the hand.
  * Returns true if the claim is worthwhile.
  */
-function shouldClaimMeld(
-  state: GameState,
-  playerIndex: number,
-  meldType: 'pong' | 'chow',
-): boolean {
+function shouldClaimPong(state: GameState, playerIndex: number): boolean {
   const player = state.players[playerIndex];
   const tile = state.lastDiscard!;
   const counts = countHand(player.handTiles);
@@ -354,23 +353,41 @@ function shouldClaimMeld(
   const totalGroups = existingMelds + triplets + sequences;
 
   // Need 4 melds + 1 pair to win
-  // Claim if it helps us get closer
-  if (meldType === 'pong') {
-    // Pong is almost always good — it completes a meld from a pair
-    const hasMatchingPair = (counts.get(tileKey(tile)) || 0) >= 2;
-    if (hasMatchingPair) return true; // completing a triplet
-
-    // Even if we just have 1 matching tile, claim if we're close to winning
-    return totalGroups >= 2;
-  }
+  // Pong is almost always good — it completes a meld from a pair
+  const hasMatchingPair = (counts.get(tileKey(tile)) || 0) >= 2;
+  if (hasMatchingPair) return true; // completing a triplet
 
-  if (meldType === 'chow') {
-    // Chow completes a sequence — good if we're building toward winning
-    // Be more selective early (need more groups), aggressive when close
-    return totalGroups >= 2;
-  }
+  // Even if we just have 1 matching tile, claim if we're close to winning
+  return totalGroups >= 2;
+}
+
+/**
+ * Shanten and unseen improving tiles left after claiming a chow with the
+ * given hand tiles and making the best discard.
+ */
+function chowOutcome(
+  state: GameState,
+  playerIndex: number,
+  chowTiles: [Tile, Tile],
+): { shanten: number; improvingCount: number } {
+  const player = state.players[playerIndex];
+  const used = new Set(chowTiles.map(t => t.id));
+  const rest = player.handTiles.filter(t => !used.has(t.id));
+  const chow: MeldedSet = { type: 'chow', tiles: [state.lastDiscard!, ...chowTiles], concealed: false };
+  const melds = [...player.openMelds, chow];
 
-  return false;
+  const [best] = analyzeDiscards(rest, melds, { state, playerIndex });
+  return best ?? { shanten: calculateShanten(rest, melds), improvingCount: 0 };
+}
+
+/**
+ * Whether a win action satisfies the rule set's minimum tai. Actions from
+ * getValidActions already do; this guards callers passing their own list.
+ */
+function meetsWinMinimum(state: GameState, playerIndex: number, action: PlayerAction): boolean {
+  if (state.rules.minimumTai <= 0) return true;
+  const claimedTile = action.type === 'claimWin' ? state.lastDiscard ?? undefined : undefined;
+  return canPlayerWin(state, playerIndex, claimedTile);
 }
 
 /**
@@ -390,8 +407,10 @@ export function fallbackDecision(
   playerIndex: number,
   validActions: PlayerAction[],
 ): AIDecision {
-  // 1. Always win if possible
-  const winAction = validActions.find(a => a.type === 'claimWin' || a.type === 'declareSelfWin');
+  // 1. Always win if possible (and the hand meets the table's minimum tai)
+  const winAction = validActions.find(a =>
+    (a.type === 'claimWin' || a.type === 'declareSelfWin') && meetsWinMinimum(state, playerIndex, a),
+  );
   if (winAction) {
     return { action: winAction, reasoning: 'Win available' };
   }
@@ -410,35 +429,28 @@ export function fallbackDecision(
 
   // 4. Claim pong — always good (completes a meld)
   const pongAction = validActions.find(a => a.type === 'claimPong');
-  if (pongAction && shouldClaimMeld(state, playerIndex, 'pong')) {
+  if (pongAction && shouldClaimPong(state, playerIndex)) {
     return { action: pongAction, reasoning: `Pong ${state.lastDiscard?.name}` };
   }
 
-  // 5. Claim chow — good when building toward a win
+  // 5. Claim chow — only when it brings the hand closer to ready
   const chowActions = validActions.filter(a => a.type === 'claimChow') as
     Array<{ type: 'claimChow'; chowTiles: [Tile, Tile] }>;
-  if (chowActions.length > 0 && shouldClaimMeld(state, playerIndex, 'chow')) {
-    // Pick the chow that keeps the most useful tiles
+  if (chowActions.length > 0) {
     const player = state.players[playerIndex];
-    const counts = countHand(player.handTiles);
-    let bestChow = chowActions[0];
-    let bestScore = -Infinity;
-
-    for (const chow of chowActions) {
-      // Score: usefulness of the tiles we'd keep after claiming
-      const usedKeys = new Set(chow.chowTiles.map(t => t.id));
-      let score = 0;
-      for (const t of player.handTiles) {
-        if (!usedKeys.has(t.id)) {
-          score += tileUsefulness(t, counts, player.seat, state.prevailingWind);
-        }
-      }
-      if (score > bestScore) {
-        bestScore = score;
-        bestChow = chow;
-      }
+    const current = calculateShanten(player.handTiles, player.openMelds);
+
+    // Pick the chow leaving the lowest shanten, then the most improving tiles
+    const outcomes = chowActions
+      .map(chow => ({ chow, ...chowOutcome(state, playerIndex, chow.chowTiles) }))
+      .sort((a, b) => a.shanten - b.shanten || b.improvingCount - a.improvingCount);
+    const best = outcomes[0];
+    if (best.shanten < current) {
+      return {
+        action: best.chow,
+        reasoning: `Chow with ${best.chow.chowTiles.map(t => t.name).join(' + ')} (shanten ${best.shanten})`,
+      };
     }
-    return { action: bestChow, reasoning: `Chow with ${bestChow.chowTiles.map(t => t.name).join(' + ')}` };
   }
 
   // 6. Discard logic — smart tile selection
@@ -460,8 +472,9 @@ export function fallbackDecision(
 
 /**
  * Pick the best tile to discard.
- * Keeps tiles that form groups (pairs, triplets, sequences).
- * Discards isolated tiles, preferring safe ones (already discarded by others).
+ * First minimises shanten and maximises unseen improving tiles; among
+ * equal options, keeps tiles that form groups (pairs, triplets, sequences)
+ * and discards isolated tiles, preferring safe ones (already discarded by others).
  */
 function pickBestDiscard(
   state: GameState,
@@ -480,6 +493,12 @@ function pickBestDiscard(
     }
   }
 
+  // Shanten and tile acceptance after each possible discard
+  const outcomes = new Map(
+    analyzeDiscards(player.handTiles, player.openMelds, { state, playerIndex })
+      .map(o => [tileKey(o.tile), o]),
+  );
+
   // Score each tile: higher = more useful to keep (= worse to discard)
   const scored = discardActions.map(action => {
     const tile = action.tile;
@@ -502,15 +521,23 @@ function pickBestDiscard(
       if (!isScoringHonor) keepScore -= 8;
     }
 
-    return { action, keepScore };
+    const outcome = outcomes.get(key);
+    return {
+      action,
+      keepScore,
+      shanten: outcome?.shanten ?? Infinity,
+      improvingCount: outcome?.improvingCount ?? 0,
+    };
   });
 
-  // Sort ascending by keepScore — lowest = best to discard
-  scored.sort((a, b) => a.keepScore - b.keepScore);
+  // Lowest shanten, then most improving tiles, then lowest keepScore
+  scored.sort((a, b) =>
+    a.shanten - b.shanten || b.improvingCount - a.improvingCount || a.keepScore - b.keepScore,
+  );
 
   const best = scored[0];
   return {
     action: best.action,
-    reasoning: `Discard ${best.action.tile.name} (keep=${best.keepScore})`,
+    reasoning: `Discard ${best.action.tile.name} (shanten=${best.shanten}, keep=${best.keepScore})`,
   };
 }
@@ -0,0 +1,294 @@
+/**
+ * Engine Fuzzing for Singapore Mahjong
+ *
+ * Plays seeded random games to shake out engine bugs in situations scripted
+ * tests rarely reach: kong chains, bonus tiles at the end of the wall,
+ * several seats claiming one discard, three-player tables. Every seat
+ * picks at random from getValidActions, claim windows are settled by
+ * pickClaim (as in the game loop), and the state's invariants are checked
+ * after every move.
+ *
+ * A failing game is shrunk to the shortest move log found that still
+ * fails, as a GameRecord: replayGame() rebuilds it move by move, and
+ * checkRecord() confirms the failure.
+ */
+
+import { Wind } from './tiles';
+import {
+  RuleSet,
+  SINGAPORE_STANDARD_RULES,
+  SINGAPORE_THREE_PLAYER_RULES,
+  HONG_KONG_OLD_STYLE_RULES,
+  createRuleSet,
+} from './rules';
+import { PerSeat, PlayerType, GameState, GameMove, GameRecord, ActionLogEntry } from './game-types';
+import { createGame, applyLoggedMove, getValidActions, pickClaim } from './game';
+import { createGameRecord } from './game-record';
+import { validateGameState } from './state-check';
+import { Random, createRandom, deriveSeed, randomSeed } from './random';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Lists what is wrong with a state; an empty list means it is fine. */
+export type InvariantCheck = (state: GameState) => string[];
+
+export interface FuzzFailure {
+  /** Seed the failing game was generated from. */
+  seed: number;
+  /** The error a move threw, or the invariants it broke. */
+  message: string;
+  /** Deal and moves up to and including the failing move. */
+  record: GameRecord;
+}
+
+export interface FuzzOptions {
+  /** Number of games to play. Defaults to 100. */
+  games?: number;
+  /** Seed for the whole run; each game's seed is derived from it. Defaults to a random seed. */
+  seed?: number;
+  /** Invariants checked after every move. Defaults to validateGameState. */
+  check?: InvariantCheck;
+  /** Shrink failing games to a minimal move log. Defaults to true. */
+  shrink?: boolean;
+}
+
+export interface FuzzReport {
+  seed: number;
+  games: number;
+  /** Moves played across all games. */
+  moves: number;
+  failures: FuzzFailure[];
+}
+
+/** A round that runs longer than this is stuck. */
+const MAX_MOVES = 2000;
+
+const WINDS: Wind[] = ['east', 'south', 'west', 'north'];
+
+// ---------------------------------------------------------------------------
+// Random Play
+// ---------------------------------------------------------------------------
+
+function pick<T>(random: Random, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * House rules that reach more of the engine: short walls, abortive draws,
+ * multiple winners. A quarter of games are three-player and a quarter use
+ * Hong Kong Old Style scoring.
+ */
+function randomRules(random: Random): RuleSet {
+  const base = pick(random, [
+    SINGAPORE_STANDARD_RULES,
+    SINGAPORE_STANDARD_RULES,
+    SINGAPORE_THREE_PLAYER_RULES,
+    HONG_KONG_OLD_STYLE_RULES,
+  ]);
+  return createRuleSet({
+    ...base,
+    name: 'Fuzz',
+    minimumTai: pick(random, [0, 0, 1]),
+    reservedWallTiles: pick(random, [0, 0, 14]),
+    fourKongsDraw: random() < 0.5,
+    fourWindsDraw: random() < 0.5,
+    multipleWinRule: pick(random, ['headBump', 'multiple'] as const),
+  });
+}
+
+/**
+ * The next move of a random game. On their turn a player makes a kong or
+ * self-win half the time one is offered, so kongs chain more often than
+ * uniform picks over 14 discards would allow.
+ */
+function randomMove(state: GameState, random: Random): ActionLogEntry {
+  const pi = state.currentPlayerIndex;
+  const turnNumber = state.turnNumber;
+
+  if (state.phase === 'draw') {
+    return { playerIndex: pi, move: { type: 'draw' }, turnNumber };
+  }
+
+  if (state.phase === 'claimWindow') {
+    const decisions = state.players
+      .map((_, i) => i)
+      .filter(i => i !== state.lastDiscardPlayerIndex)
+      .map(i => ({ playerIndex: i, action: pick(random, getValidActions(state, i)) }));
+    return pickClaim(state, decisions);
+  }
+
+  const actions = getValidActions(state, pi);
+  const special = actions.filter(a => a.type !== 'discard');
+  const action = special.length > 0 && random() < 0.5 ? pick(random, special) : pick(random, actions);
+  return { playerIndex: pi, move: action, turnNumber };
+}
+
+/**
+ * Apply a move and check the result. Returns the new state, or the
+ * failure message if the move threw or broke an invariant.
+ */
+function playMove(
+  state: GameState,
+  entry: ActionLogEntry,
+  check: InvariantCheck,
+): { state: GameState; message?: string } {
+  let next: GameState;
+  try {
+    next = applyLoggedMove(state, entry).state;
+  } catch (e) {
+    return { state, message: `${entry.move.type} by player ${entry.playerIndex} threw: ${(e as Error).message}` };
+  }
+  const problems = check(next);
+  return { state: next, message: problems.length > 0 ? problems.join('; ') : undefined };
+}
+
+/** The record of a failed game: its log, plus the failing move if it threw before being logged. */
+function failureRecord(state: GameState, entry: ActionLogEntry, threw: boolean): GameRecord {
+  const record = createGameRecord(state);
+  return threw ? { ...record, actions: [...record.actions, entry] } : record;
+}
+
+/** Play one random game from a seed. */
+function playRandomGame(
+  seed: number,
+  check: InvariantCheck,
+): { moves: number; failure?: { message: string; record: GameRecord } } {
+  const random = createRandom(seed);
+  const rules = randomRules(random);
+  let state = createGame(
+    new Array<PlayerType>(rules.seats).fill('ai') as PerSeat<PlayerType>,
+    pick(random, WINDS.slice(0, rules.seats)),
+    Math.floor(random() * rules.seats),
+    rules,
+    deriveSeed(seed, 1),
+  );
+
+  const dealProblems = check(state);
+  if (dealProblems.length > 0) {
+    return { moves: 0, failure: { message: dealProblems.join('; '), record: createGameRecord(state) } };
+  }
+
+  let moves = 0;
+  while (state.phase !== 'roundOver') {
+    if (moves >= MAX_MOVES) {
+      return { moves, failure: { message: `round did not finish in ${MAX_MOVES} moves`, record: createGameRecord(state) } };
+    }
+    const entry = randomMove(state, random);
+    const played = playMove(state, entry, check);
+    moves++;
+    if (played.message) {
+      return { moves, failure: { message: played.message, record: failureRecord(played.state, entry, played.state === state) } };
+    }
+    state = played.state;
+  }
+  return { moves };
+}
+
+// ---------------------------------------------------------------------------
+// Replaying and Shrinking
+// ---------------------------------------------------------------------------
+
+/** A move as a comparable string: its type and tile ids. */
+function moveKey(move: GameMove): string {
+  const tiles = 'tile' in move ? [move.tile] : 'tiles' in move ? move.tiles : 'chowTiles' in move ? move.chowTiles : [];
+  return [move.type, ...tiles.map(t => t.id).sort()].join(' ');
+}
+
+/** Whether a logged move is one the engine offers in this state. */
+function isLegalMove(state: GameState, entry: ActionLogEntry): boolean {
+  const { move, playerIndex } = entry;
+  if (state.phase === 'roundOver') return false;
+  if (move.type === 'draw') return state.phase === 'draw' && playerIndex === state.currentPlayerIndex;
+  if (move.type === 'pass') return state.phase === 'claimWindow' && playerIndex === state.lastDiscardPlayerIndex;
+
+  const key = moveKey(move);
+  return (entry.claimants ?? [playerIndex]).every(seat =>
+    getValidActions(state, seat).some(a => moveKey(a) === key),
+  );
+}
+
+/**
+ * Deal a record's round and play the given moves. Returns the failure if a
+ * move throws or breaks an invariant, or null if the moves all play cleanly
+ * (or one is not legal where it is played).
+ */
+function replayMoves(
+  record: GameRecord,
+  actions: ActionLogEntry[],
+  check: InvariantCheck,
+): { message: string; record: GameRecord } | null {
+  let state = createGame(record.playerTypes, record.prevailingWind, record.dealerIndex, record.rules, record.seed);
+  const dealProblems = check(state);
+  if (dealProblems.length > 0) return { message: dealProblems.join('; '), record: createGameRecord(state) };
+
+  for (const entry of actions) {
+    if (!isLegalMove(state, entry)) return null;
+    const played = playMove(state, entry, check);
+    if (played.message) {
+      return { message: played.message, record: failureRecord(played.state, entry, played.state === state) };
+    }
+    state = played.state;
+  }
+  return null;
+}
+
+/**
+ * Replay a record and report how it fails: the error a move throws or the
+ * invariants it breaks. Returns null if every move plays cleanly.
+ */
+export function checkRecord(record: GameRecord, check: InvariantCheck = validateGameState): string | null {
+  return replayMoves(record, record.actions, check)?.message ?? null;
+}
+
+/**
+ * Shrink a failing record: drop runs of moves, halving the run length down
+ * to single moves, keeping each cut that leaves a legal log which still
+ * fails. The result may fail with a different message than the original.
+ * Throws if the record does not fail.
+ */
+export function shrinkRecord(
+  record: GameRecord,
+  check: InvariantCheck = validateGameState,
+): { message: string; record: GameRecord } {
+  let best = replayMoves(record, record.actions, check);
+  if (!best) throw new Error('Record does not fail, nothing to shrink');
+
+  let size = Math.max(1, Math.floor(best.record.actions.length / 2));
+  while (size >= 1) {
+    let cut = false;
+    for (let start = 0; start < best.record.actions.length; ) {
+      const actions = best.record.actions;
+      const candidate = replayMoves(record, [...actions.slice(0, start), ...actions.slice(start + size)], check);
+      if (candidate && candidate.record.actions.length < actions.length) {
+        best = candidate;
+        cut = true;
+      } else {
+        start += size;
+      }
+    }
+    if (!cut) size = Math.floor(size / 2);
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Fuzzing
+// ---------------------------------------------------------------------------
+
+/** Play many seeded random games, checking invariants after every move. */
+export function fuzz(options: FuzzOptions = {}): FuzzReport {
+  const { games = 100, seed = randomSeed(), check = validateGameState, shrink = true } = options;
+  const report: FuzzReport = { seed, games, moves: 0, failures: [] };
+
+  for (let g = 0; g < games; g++) {
+    const gameSeed = deriveSeed(seed, g);
+    const { moves, failure } = playRandomGame(gameSeed, check);
+    report.moves += moves;
+    if (failure) {
+      report.failures.push({ seed: gameSeed, ...(shrink ? shrinkRecord(failure.record, check) : failure) });
+    }
+  }
+  return report;
+}
@@ -0,0 +1,61 @@
+/**
+ * Game Records and Replays for Singapore Mahjong
+ *
+ * Every action function in game.ts appends to GameState.actionLog: who
+ * moved, what they did, any tile they drew and the turn number. Together
+ * with how the round was dealt (seed, dealer, wind, rules) that log makes a
+ * GameRecord, and replaying it through the same pure functions rebuilds
+ * every intermediate GameState of the round.
+ */
+
+import { GameState, GameRecord } from './game-types';
+import { createGame, applyLoggedMove } from './game';
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/** Build the replayable record of a round played so far. */
+export function createGameRecord(state: GameState): GameRecord {
+  return {
+    seed: state.seed,
+    playerTypes: state.players.map(p => p.type) as GameRecord['playerTypes'],
+    prevailingWind: state.prevailingWind,
+    dealerIndex: state.dealerIndex,
+    rules: state.rules,
+    actions: [...state.actionLog],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+/**
+ * Replay a round from its record. Returns every state in order: the state
+ * as dealt, then the state after each logged move.
+ * Throws if a drawn tile differs from the record (the deal did not match).
+ */
+export function replayGame(record: GameRecord): GameState[] {
+  let state = createGame(
+    record.playerTypes,
+    record.prevailingWind,
+    record.dealerIndex,
+    record.rules,
+    record.seed,
+  );
+  const states = [state];
+
+  record.actions.forEach((entry, i) => {
+    state = applyLoggedMove(state, entry).state;
+    const drawn = state.actionLog[state.actionLog.length - 1].drawnTile;
+    if (drawn?.id !== entry.drawnTile?.id) {
+      throw new Error(
+        `Replay diverged at move ${i + 1}: drew ${drawn?.id ?? 'nothing'}, record has ${entry.drawnTile?.id ?? 'nothing'}`,
+      );
+    }
+    states.push(state);
+  });
+
+  return states;
+}
@@ -5,12 +5,17 @@
  * cumulative scoring, and payment tracking.
  *
  * Default: 4 rounds (1 East wind cycle).
- * Dealer stays if they win, rotates if they lose.
- * Once all 4 players have lost as dealer, the session ends.
+ * Dealer stays if they win (unless the RuleSet says otherwise), rotates if they lose.
+ * The RuleSet can also keep the deal on a draw. Each round a dealer keeps the
+ * deal extends their streak (连庄), which can boost their winning payments.
+ * Once every player has lost as dealer, the wind cycle ends. A three-player
+ * session (see SINGAPORE_THREE_PLAYER_RULES) rotates the deal over three
+ * seats, and its prevailing wind runs East, South, West.
  */
 
 import { Wind } from './tiles';
 import {
+  PerSeat,
   PlayerType,
   GameState,
   GameResult,
@@ -24,7 +29,11 @@ import {
   PaymentConfig,
 } from './game-types';
 import { createGame, advanceGame, GameController } from './game';
-import { calculatePayments, DEFAULT_PAYMENT_CONFIG } from './payments';
+import { createGameRecord } from './game-record';
+import { calculatePayments, getWinners, DEFAULT_PAYMENT_CONFIG } from './payments';
+import { SINGAPORE_STANDARD_RULES } from './rules';
+import { deriveSeed, randomSeed } from './random';
+import { PlayerStrategy } from './strategy';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -32,10 +41,11 @@ import { calculatePayments, DEFAULT_PAYMENT_CONFIG } from './payments';
 
 const WINDS: Wind[] = ['east', 'south', 'west', 'north'];
 
-const DEFAULT_SESSION_CONFIG: SessionConfig = {
+const DEFAULT_SESSION_CONFIG: Omit<SessionConfig, 'seed'> = {
   playerTypes: ['human', 'ai', 'ai', 'ai'],
   payment: DEFAULT_PAYMENT_CONFIG,
   windRounds: 1,
+  rules: SINGAPORE_STANDARD_RULES,
 };
 
 // ---------------------------------------------------------------------------
@@ -43,23 +53,34 @@ const DEFAULT_SESSION_CONFIG: SessionConfig = {
 // ---------------------------------------------------------------------------
 
 /**
- * Create a new session state.
+ * Create a new session state. Pass `seed` to make every round's deal reproducible.
+ * Without `playerTypes`, a three-player session seats one human and two AIs.
  */
 export function createSession(config: Partial<SessionConfig> = {}): SessionState {
+  const rules = config.rules ?? DEFAULT_SESSION_CONFIG.rules;
+  const playerTypes = config.playerTypes
+    ?? (rules.seats === 3 ? ['human', 'ai', 'ai'] : DEFAULT_SESSION_CONFIG.playerTypes);
+  if (playerTypes.length !== rules.seats) {
+    throw new Error(`${rules.name} is played with ${rules.seats} players, got ${playerTypes.length}`);
+  }
+
   const fullConfig: SessionConfig = {
     ...DEFAULT_SESSION_CONFIG,
     ...config,
+    playerTypes,
     payment: { ...DEFAULT_PAYMENT_CONFIG, ...config.payment },
+    seed: config.seed ?? randomSeed(),
   };
 
   return {
     config: fullConfig,
-    scores: [0, 0, 0, 0],
+    scores: new Array(rules.seats).fill(0) as PerSeat<number>,
     rounds: [],
     dealerIndex: 0,
     prevailingWind: 'east',
     dealerRotationCount: 0,
     completedWindCycles: 0,
+    dealerStreak: 0,
     currentRound: null,
     finished: false,
   };
@@ -80,14 +101,16 @@ export function startNextRound(session: SessionState): {
     throw new Error('A round is already in progress');
   }
 
+  const roundNumber = session.rounds.length + 1;
+
   const gameState = createGame(
     session.config.playerTypes,
     session.prevailingWind,
     session.dealerIndex,
+    session.config.rules,
+    roundSeed(session, roundNumber),
   );
 
-  const roundNumber = session.rounds.length + 1;
-
   const newSession: SessionState = {
     ...session,
     currentRound: gameState,
@@ -105,25 +128,38 @@ export function startNextRound(session: SessionState): {
   return { session: newSession, gameState, events };
 }
 
+/** Seed for a given round (1-based) of a session. */
+export function roundSeed(session: SessionState, roundNumber: number): number {
+  return deriveSeed(session.config.seed, roundNumber);
+}
+
 /**
  * Process a completed round's result. Updates scores, determines dealer rotation,
  * checks if session is over.
+ * @param finalState - The round's final state, whose seed and action log are
+ *   kept in the round record. Null records neither.
  */
 export function processRoundResult(
   session: SessionState,
   result: GameResult,
+  finalState: GameState | null,
 ): {
   session: SessionState;
   events: SessionEvent[];
 } {
   const events: SessionEvent[] = [];
 
+  const { rules } = session.config;
+
   // Calculate payments
-  const payments = calculatePayments(result, session.config.payment);
+  const payments = calculatePayments(result, session.config.payment, rules, {
+    dealerIndex: session.dealerIndex,
+    streak: session.dealerStreak,
+  });
 
   // Update cumulative scores
-  const scores: [number, number, number, number] = [...session.scores];
-  for (let i = 0; i < 4; i++) {
+  const scores = [...session.scores] as PerSeat<number>;
+  for (let i = 0; i < scores.length; i++) {
     scores[i] = Math.round((scores[i] + payments.deltas[i]) * 100) / 100;
   }
 
@@ -134,6 +170,9 @@ export function processRoundResult(
     payments,
     dealerIndex: session.dealerIndex,
     prevailingWind: session.prevailingWind,
+    seed: finalState?.seed,
+    dealerStreak: session.dealerStreak,
+    gameRecord: finalState ? createGameRecord(finalState) : undefined,
   };
 
   events.push({ type: 'roundCompleted', record });
@@ -144,35 +183,46 @@ export function processRoundResult(
   let newRotationCount = session.dealerRotationCount;
   let newCompletedCycles = session.completedWindCycles;
   let newPrevailingWind = session.prevailingWind;
+  let newStreak = session.dealerStreak;
   let finished = false;
 
-  const dealerWon = result.type === 'win' && result.winnerIndex === session.dealerIndex;
+  const dealerWon = getWinners(result).some(w => w.winnerIndex === session.dealerIndex);
+  const dealerKeepsDeal = dealerWon
+    ? rules.dealerKeepsDealOnWin
+    : result.type === 'draw' && rules.dealerKeepsDealOnDraw;
 
-  if (!dealerWon) {
+  if (dealerKeepsDeal) {
+    newStreak++;
+  } else {
+    newStreak = 0;
     // Dealer rotates to next player
-    newDealerIndex = (session.dealerIndex + 1) % 4;
+    newDealerIndex = (session.dealerIndex + 1) % rules.seats;
     newRotationCount++;
     events.push({ type: 'dealerRotated', newDealerIndex });
 
     // Check if a full wind cycle completed
-    if (newRotationCount >= 4) {
+    if (newRotationCount >= rules.seats) {
       newCompletedCycles++;
       newRotationCount = 0;
 
       if (newCompletedCycles < session.config.windRounds) {
-        // Advance prevailing wind for next cycle
-        const windIdx = WINDS.indexOf(newPrevailingWind);
-        newPrevailingWind = WINDS[(windIdx + 1) % 4];
+        // Advance prevailing wind for next cycle, over the seat winds in play
+        const winds = WINDS.slice(0, rules.seats);
+        newPrevailingWind = winds[(winds.indexOf(newPrevailingWind) + 1) % winds.length];
       } else {
         finished = true;
       }
     }
   }
 
+  if (newStreak !== session.dealerStreak) {
+    events.push({ type: 'dealerStreakChanged', dealerIndex: newDealerIndex, streak: newStreak });
+  }
+
   if (finished) {
     events.push({
       type: 'sessionCompleted',
-      finalScores: [...scores] as [number, number, number, number],
+      finalScores: [...scores] as PerSeat<number>,
       rounds: [...session.rounds, record],
     });
   }
@@ -185,6 +235,7 @@ export function processRoundResult(
     prevailingWind: newPrevailingWind,
     dealerRotationCount: newRotationCount,
     completedWindCycles: newCompletedCycles,
+    dealerStreak: newStreak,
     currentRound: null,
     finished,
   };
@@ -201,12 +252,26 @@ export class SessionController {
   currentGame: GameController | null = null;
   private sessionListeners: SessionEventListener[] = [];
   private gameListeners: EventListener[] = [];
+  /** Strategies registered for seats, applied to every round. */
+  private strategies = new Map<number, PlayerStrategy>();
 
   constructor(config: Partial<SessionConfig> = {}) {
     this.session = createSession(config);
     this.emitSession({ type: 'sessionStarted', config: this.session.config });
   }
 
+  /**
+   * Register the strategy that plays a seat, in the current round and every
+   * round after it. Seats without one play by their player type.
+   */
+  setStrategy(seat: number, strategy: PlayerStrategy): void {
+    if (seat < 0 || seat >= this.session.config.playerTypes.length) {
+      throw new Error(`No seat ${seat} at this table`);
+    }
+    this.strategies.set(seat, strategy);
+    this.currentGame?.setStrategy(seat, strategy);
+  }
+
   /** Subscribe to session-level events. Returns an unsubscribe function. */
   onSession(listener: SessionEventListener): () => void {
     this.sessionListeners.push(listener);
@@ -240,6 +305,7 @@ export class SessionController {
       this.session.prevailingWind,
       gameState,
     );
+    for (const [seat, strategy] of this.strategies) this.currentGame.setStrategy(seat, strategy);
 
     // Forward game events to session-level listeners
     this.currentGame.on((event: GameEvent) => {
@@ -256,13 +322,13 @@ export class SessionController {
   }
 
   private completeRound(result: GameResult): void {
-    const { session, events } = processRoundResult(this.session, result);
+    const { session, events } = processRoundResult(this.session, result, this.currentGame?.state ?? null);
     this.session = session;
     this.currentGame = null;
     for (const e of events) this.emitSession(e);
   }
 
-  /** Advance the current round — auto-plays AI turns. */
+  /** Advance the current round — plays every seat through its strategy. */
   async advanceRound(): Promise<void> {
     if (!this.currentGame) throw new Error('No round in progress');
     await this.currentGame.advance();
@@ -281,8 +347,8 @@ export class SessionController {
     return this.session.finished;
   }
 
-  get scores(): [number, number, number, number] {
-    return [...this.session.scores] as [number, number, number, number];
+  get scores(): PerSeat<number> {
+    return [...this.session.scores] as PerSeat<number>;
   }
 
   get roundNumber(): number {
@@ -7,6 +7,7 @@
 
 import { Tile, Wind } from './tiles';
 import { MeldedSet, ScoringResult, WinningHand } from './scoring';
+import { RuleSet } from './rules';
 
 // ---------------------------------------------------------------------------
 // Turn Phase State Machine
@@ -25,6 +26,9 @@ export type TurnPhase =
 
 export type PlayerType = 'human' | 'ai';
 
+/** One entry per seat: four, or three in a three-player game (RuleSet.seats). */
+export type PerSeat<T> = [T, T, T, T] | [T, T, T];
+
 export interface PlayerState {
   seat: Wind;
   type: PlayerType;
@@ -43,15 +47,15 @@ export interface PlayerState {
 // ---------------------------------------------------------------------------
 
 export interface GameState {
-  /** Always 4 players, indexed 0-3 for East/South/West/North. */
-  players: [PlayerState, PlayerState, PlayerState, PlayerState];
+  /** One player per seat (rules.seats), indexed from 0; seat winds start at the dealer. */
+  players: PerSeat<PlayerState>;
 
   /** Live wall (drawable tiles). */
   wall: Tile[];
   /** Dead wall for kong replacements. */
   deadWall: Tile[];
 
-  /** Index (0-3) of the player whose turn it is. */
+  /** Index of the player whose turn it is. */
   currentPlayerIndex: number;
   /** Current phase of the turn. */
   phase: TurnPhase;
@@ -64,11 +68,32 @@ export interface GameState {
   prevailingWind: Wind;
   /** Who is East (dealer) this round. */
   dealerIndex: number;
+  /** House rules in force for this round. */
+  rules: RuleSet;
+  /** Seed the wall was shuffled with. Never sent to clients — it reveals the wall. */
+  seed: number;
 
   /** The tile just discarded (active during claimWindow). */
   lastDiscard: Tile | null;
   /** Who discarded it. */
   lastDiscardPlayerIndex: number | null;
+  /**
+   * True while the claim window is open on a tile used to promote a pung to
+   * a kong (抢杠). lastDiscard holds the promoted tile and
+   * lastDiscardPlayerIndex the promoting player; only wins may be claimed.
+   */
+  robbingKong: boolean;
+  /**
+   * True while the current player's latest tile is a kong replacement from
+   * the dead wall (杠上开花). Cleared by the next wall draw or discard.
+   */
+  kongReplacementDraw: boolean;
+
+  /** Instant bonus-tile payouts (animal pairs) earned so far this round. */
+  bonusPayouts: BonusPayout[];
+
+  /** Every draw and action taken this round, in order (see GameRecord). */
+  actionLog: ActionLogEntry[];
 
   /** Set when the round ends (win or draw). */
   result: GameResult | null;
@@ -78,13 +103,76 @@ export interface GameState {
 // Game Result
 // ---------------------------------------------------------------------------
 
+/**
+ * Why a round ended without a winner.
+ * - wallExhausted: only the reserved tail (or an empty dead wall) remained
+ * - fourKongs: four kongs declared by more than one player
+ * - fourWinds: all four players discarded the same wind on the first go-around
+ */
+export type DrawReason = 'wallExhausted' | 'fourKongs' | 'fourWinds';
+
 export interface GameResult {
   type: 'win' | 'draw';
+  /** Why the round was drawn (draws only). */
+  drawReason?: DrawReason;
+  /** The winner — with several winners, the one nearest the discarder. */
   winnerIndex?: number;
   winningHand?: WinningHand;
   scoring?: ScoringResult;
   /** Who discarded the winning tile (undefined if self-drawn). */
   loserIndex?: number;
+  /** A player who fed the decisive meld and pays the whole hand (包). */
+  responsibility?: Responsibility;
+  /** Instant bonus-tile payouts earned during the round (paid win or draw). */
+  bonusPayouts?: BonusPayout[];
+  /** Kongs standing at the end of the round, paid instantly (win or draw). */
+  kongPayouts?: KongPayout[];
+  /**
+   * Every winner when several players won on the same discard, nearest the
+   * discarder first. Absent for a single winner.
+   */
+  winners?: WinnerResult[];
+}
+
+/** One winner's hand and score on a discard won by several players. */
+export interface WinnerResult {
+  winnerIndex: number;
+  winningHand: WinningHand;
+  scoring: ScoringResult;
+  responsibility?: Responsibility;
+}
+
+/**
+ * Responsibility payment (包): the player whose discard completed the
+ * decisive exposed meld of Big Three Dragons, Big Four Winds or a full
+ * flush pays for the whole hand.
+ */
+export interface Responsibility {
+  playerIndex: number;
+  /** The pattern that was fed, e.g. 'Big Three Dragons'. */
+  pattern: string;
+}
+
+/**
+ * An instant payout earned by setting aside a matching bonus-tile pair
+ * (cat + mouse, rooster + centipede). Every other player pays the holder.
+ */
+export interface BonusPayout {
+  playerIndex: number;
+  /** Display name, e.g. 'Cat & Mouse'. */
+  name: string;
+  tiles: Tile[];
+}
+
+/**
+ * A kong declared during the round (杠钱). Every other player pays the
+ * declarer, whether or not they go on to win. A robbed kong is not paid.
+ */
+export interface KongPayout {
+  playerIndex: number;
+  /** True for a concealed kong, false for an exposed or promoted kong. */
+  concealed: boolean;
+  tiles: Tile[];
 }
 
 // ---------------------------------------------------------------------------
@@ -102,6 +190,41 @@ export type PlayerAction =
   | { type: 'claimWin' }
   | { type: 'pass' };
 
+// ---------------------------------------------------------------------------
+// Action Log (for replays)
+// ---------------------------------------------------------------------------
+
+/** Anything that moves a round on: a player action, or a draw from the wall. */
+export type GameMove = PlayerAction | { type: 'draw' };
+
+export interface ActionLogEntry {
+  /** Seat that acted. For a pass, the seat whose discard everyone passed on. */
+  playerIndex: number;
+  move: GameMove;
+  /**
+   * The tile that came into the hand: the wall tile for a draw, or the kong
+   * replacement after a kong. Bonus tiles set aside on the way are not listed.
+   */
+  drawnTile?: Tile;
+  /** GameState.turnNumber when the move was made. */
+  turnNumber: number;
+  /** Every seat that claimed the discard to win, when more than one did. */
+  claimants?: number[];
+}
+
+/**
+ * Everything needed to replay a round: how it was dealt plus its action log.
+ * Replaying the moves against a game dealt from `seed` rebuilds every state.
+ */
+export interface GameRecord {
+  seed: number;
+  playerTypes: PerSeat<PlayerType>;
+  prevailingWind: Wind;
+  dealerIndex: number;
+  rules: RuleSet;
+  actions: ActionLogEntry[];
+}
+
 // ---------------------------------------------------------------------------
 // Events (for UI integration)
 // ---------------------------------------------------------------------------
@@ -131,6 +254,22 @@ export interface PaymentConfig {
   taiCap: number;
   /** If true, discarder pays full amount for all 3 losers (shooter-pays rule). */
   shooterPays: boolean;
+  /** Tai each other player pays instantly for an animal pair. Defaults to 1. */
+  animalPairTai?: number;
+  /** Tai each other player pays instantly for an exposed kong. Defaults to 1; 0 disables. */
+  exposedKongTai?: number;
+  /** Tai each other player pays instantly for a concealed kong. Defaults to 2; 0 disables. */
+  concealedKongTai?: number;
+}
+
+/** A payment settled during the round rather than on the winning hand. */
+export interface InstantPayment {
+  /** Why the payment was made, e.g. 'Cat & Mouse' or 'Concealed Kong'. */
+  name: string;
+  /** Player receiving the payment. */
+  playerIndex: number;
+  /** Net payment per player index for this entry. Sums to zero. */
+  deltas: PerSeat<number>;
 }
 
 /**
@@ -139,12 +278,14 @@ export interface PaymentConfig {
  * Always sums to zero.
  */
 export interface PaymentResult {
-  /** Net payment per player index (0-3). */
-  deltas: [number, number, number, number];
-  /** Amount a single loser owes. */
+  /** Net payment per player index, including instant payments. */
+  deltas: PerSeat<number>;
+  /** Amount a single loser owes (to the first winner, if several won). */
   perLoserAmount: number;
-  /** Total the winner receives. */
+  /** Total the (first) winner receives for the winning hand. */
   winnerTotal: number;
+  /** Instant payments settled during the round, already included in deltas. */
+  instantPayments: InstantPayment[];
 }
 
 // ---------------------------------------------------------------------------
@@ -162,25 +303,35 @@ export interface RoundRecord {
   dealerIndex: number;
   /** The prevailing wind for this round. */
   prevailingWind: Wind;
+  /** Seed the round was dealt with, if known. */
+  seed?: number;
+  /** The dealer's streak (连庄) going into this round. */
+  dealerStreak: number;
+  /** How the round was played, for replayGame(), if known. */
+  gameRecord?: GameRecord;
 }
 
 export interface SessionConfig {
   /** Player types for each seat. */
-  playerTypes: [PlayerType, PlayerType, PlayerType, PlayerType];
+  playerTypes: PerSeat<PlayerType>;
   /** Payment configuration. */
   payment: PaymentConfig;
   /** Number of full wind rotations (1 = East round only = 4 rounds min). */
   windRounds: number;
+  /** House rules applied to every round of the session. */
+  rules: RuleSet;
+  /** Session seed; each round is dealt with a seed derived from it. */
+  seed: number;
 }
 
 export interface SessionState {
   /** Configuration for this session. */
   config: SessionConfig;
   /** Cumulative score per player (net payments). */
-  scores: [number, number, number, number];
+  scores: PerSeat<number>;
   /** History of completed rounds. */
   rounds: RoundRecord[];
-  /** Current dealer index (0-3). */
+  /** Current dealer index. */
   dealerIndex: number;
   /** Current prevailing wind. */
   prevailingWind: Wind;
@@ -188,6 +339,8 @@ export interface SessionState {
   dealerRotationCount: number;
   /** How many full wind cycles have completed. */
   completedWindCycles: number;
+  /** Consecutive rounds the current dealer has kept the deal (连庄). 0 = fresh dealer. */
+  dealerStreak: number;
   /** The current round's GameState, if a round is in progress. */
   currentRound: GameState | null;
   /** Whether the session is finished. */
@@ -202,8 +355,9 @@ export type SessionEvent =
   | { type: 'sessionStarted'; config: SessionConfig }
   | { type: 'roundStarted'; roundNumber: number; dealerIndex: number; prevailingWind: Wind }
   | { type: 'roundCompleted'; record: RoundRecord }
-  | { type: 'scoresUpdated'; scores: [number, number, number, number] }
+  | { type: 'scoresUpdated'; scores: PerSeat<number> }
   | { type: 'dealerRotated'; newDealerIndex: number }
-  | { type: 'sessionCompleted'; finalScores: [number, number, number, number]; rounds: RoundRecord[] };
+  | { type: 'dealerStreakChanged'; dealerIndex: number; streak: number }
+  | { type: 'sessionCompleted'; finalScores: PerSeat<number>; rounds: RoundRecord[] };
 
 export type SessionEventListener = (event: SessionEvent) => void;
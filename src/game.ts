@@ -2,21 +2,28 @@
  * Singapore Mahjong Game Engine
  *
  * Core game state machine with turn flow, claiming logic, kong mechanics,
- * win detection, and event system. Always 4 seats — AI fills empty ones.
+ * win detection, and event system. The game loop (stepGame, advanceGame)
+ * plays each seat through its PlayerStrategy and pauses for human seats.
  */
 
 import { Tile, Wind, tileKey, tilesMatch } from './tiles';
-import { MeldedSet, WinningHand, scoreHand } from './scoring';
+import { MeldedSet, findAnimalPairs, meetsMinimumTai } from './scoring';
 import { dealGame, drawFromDeadWall } from './wall';
-import { parseHand } from './hand-parser';
-import { getAIDecision } from './ai';
+import { RuleSet, SINGAPORE_STANDARD_RULES } from './rules';
+import { canPlayerWin, evaluateWin } from './win-check';
+import { assertValidGameState } from './state-check';
+import { SeatStrategies, PlayerStrategy, defaultStrategies } from './strategy';
 import {
   TurnPhase,
   PlayerType,
   PlayerState,
+  PerSeat,
   GameState,
   GameResult,
+  KongPayout,
   PlayerAction,
+  GameMove,
+  ActionLogEntry,
   GameEvent,
   EventListener,
 } from './game-types';
@@ -43,18 +50,38 @@ function cloneState(state: GameState): GameState {
       openMelds: p.openMelds.map(m => ({ ...m, tiles: [...m.tiles] })),
       bonusTiles: [...p.bonusTiles],
       discards: [...p.discards],
-    })) as [PlayerState, PlayerState, PlayerState, PlayerState],
+    })) as PerSeat<PlayerState>,
+    actionLog: [...state.actionLog],
   };
 }
 
-/** Next player index (wrapping 0-3). */
-function nextPlayer(index: number): number {
-  return (index + 1) % 4;
+/** Append a move to the round's action log. */
+function logMove(
+  state: GameState,
+  playerIndex: number,
+  move: GameMove,
+  claimants?: number[],
+): ActionLogEntry {
+  const entry: ActionLogEntry = { playerIndex, move, turnNumber: state.turnNumber };
+  if (claimants) entry.claimants = claimants;
+  state.actionLog.push(entry);
+  return entry;
+}
+
+/** Next player index, wrapping around the table. */
+function nextPlayer(state: GameState, index: number): number {
+  return (index + 1) % state.players.length;
+}
+
+/** How many seats after `from` the player `to` sits in turn order. */
+function seatDistance(state: GameState, from: number, to: number): number {
+  const seats = state.players.length;
+  return (to - from + seats) % seats;
 }
 
 /** Check if playerIndex is the "left player" (next in turn) of discardedBy. */
-function isLeftOf(playerIndex: number, discardedBy: number): boolean {
-  return nextPlayer(discardedBy) === playerIndex;
+function isLeftOf(state: GameState, playerIndex: number, discardedBy: number): boolean {
+  return nextPlayer(state, discardedBy) === playerIndex;
 }
 
 /**
@@ -88,40 +115,29 @@ function removeOneTile(hand: Tile[], key: string): Tile | null {
   return hand.splice(idx, 1)[0];
 }
 
-/**
- * Build a full 14-tile array for a player by combining concealed hand + open meld tiles.
- * This is needed because parseHand() expects exactly 14 tiles.
- */
-function reconstructFullHand(player: PlayerState, extraTile?: Tile): Tile[] {
-  const tiles: Tile[] = [...player.handTiles];
-  if (extraTile) tiles.push(extraTile);
-  for (const meld of player.openMelds) {
-    // For kongs, only add 3 tiles (parseHand doesn't handle kong in 14 tiles)
-    if (meld.type === 'kong') {
-      tiles.push(...meld.tiles.slice(0, 3));
-    } else {
-      tiles.push(...meld.tiles);
-    }
-  }
-  return tiles;
-}
-
 // ---------------------------------------------------------------------------
 // Game Creation
 // ---------------------------------------------------------------------------
 
 /**
  * Create a new game. Deals tiles and sets up initial state.
- * @param playerTypes - Player types for each seat [East, South, West, North]. Defaults to all AI.
+ * @param playerTypes - Player types by player index, one per seat of the rules. Defaults to four AIs.
  * @param prevailingWind - Round wind. Defaults to 'east'.
- * @param dealerIndex - Which player index (0-3) is dealer. Defaults to 0.
+ * @param dealerIndex - Which player index is dealer. Defaults to 0.
+ * @param rules - House rules for the round, including the number of seats. Defaults to Singapore standard.
+ * @param seed - Shuffle seed, for reproducible deals. Defaults to a random seed.
  */
 export function createGame(
-  playerTypes: [PlayerType, PlayerType, PlayerType, PlayerType] = ['ai', 'ai', 'ai', 'ai'],
+  playerTypes: PerSeat<PlayerType> = ['ai', 'ai', 'ai', 'ai'],
   prevailingWind: Wind = 'east',
   dealerIndex: number = 0,
+  rules: RuleSet = SINGAPORE_STANDARD_RULES,
+  seed?: number,
 ): GameState {
-  const setup = dealGame(dealerIndex);
+  if (playerTypes.length !== rules.seats) {
+    throw new Error(`${rules.name} is played with ${rules.seats} players, got ${playerTypes.length}`);
+  }
+  const setup = dealGame(dealerIndex, rules, seed);
 
   const players = setup.players.map((hand, i) => ({
     seat: hand.seat,
@@ -130,9 +146,9 @@ export function createGame(
     openMelds: [] as MeldedSet[],
     bonusTiles: hand.bonusTiles,
     discards: [] as Tile[],
-  })) as [PlayerState, PlayerState, PlayerState, PlayerState];
+  })) as PerSeat<PlayerState>;
 
-  return {
+  const state: GameState = {
     players,
     wall: setup.wall,
     deadWall: setup.deadWall,
@@ -142,10 +158,21 @@ export function createGame(
     firstTurnComplete: false,
     prevailingWind,
     dealerIndex,
+    rules,
+    seed: setup.seed,
     lastDiscard: null,
     lastDiscardPlayerIndex: null,
+    robbingKong: false,
+    kongReplacementDraw: false,
+    bonusPayouts: [],
+    actionLog: [],
     result: null,
   };
+
+  // Animal pairs dealt in the opening hand pay out straight away
+  for (let i = 0; i < players.length; i++) recordBonusPayouts(state, i);
+
+  return state;
 }
 
 // ---------------------------------------------------------------------------
@@ -161,43 +188,40 @@ export function drawTile(state: GameState): { state: GameState; events: GameEven
   if (state.phase !== 'draw') {
     throw new Error(`Cannot draw in phase: ${state.phase}`);
   }
-  if (state.wall.length === 0) {
-    // Wall exhausted — game is a draw
+  if (state.wall.length <= state.rules.reservedWallTiles) {
+    // Only the reserved tail is left — game is a draw
     const s = cloneState(state);
-    s.phase = 'roundOver';
-    s.result = { type: 'draw' };
-    return { state: s, events: [{ type: 'gameOver', result: s.result }] };
+    logMove(s, s.currentPlayerIndex, { type: 'draw' });
+    return endRound(s, { type: 'draw', drawReason: 'wallExhausted' }, []);
   }
 
   const s = cloneState(state);
   const events: GameEvent[] = [];
   const pi = s.currentPlayerIndex;
   const player = s.players[pi];
+  const entry = logMove(s, pi, { type: 'draw' });
+  s.kongReplacementDraw = false;
 
   // Draw from wall
   let tile = s.wall.shift()!;
   events.push({ type: 'tileDrawn', playerIndex: pi, tile });
 
   // Replace bonus tiles
-  while (tile.isBonus && s.wall.length > 0) {
-    player.bonusTiles.push(tile);
-    events.push({ type: 'bonusTileDrawn', playerIndex: pi, tile });
+  while (tile.isBonus && s.wall.length > s.rules.reservedWallTiles) {
+    setAsideBonusTile(s, pi, tile, events);
     tile = s.wall.shift()!;
     events.push({ type: 'tileDrawn', playerIndex: pi, tile });
   }
 
   if (tile.isBonus) {
     // Last tile was also a bonus — very rare edge case
-    player.bonusTiles.push(tile);
-    events.push({ type: 'bonusTileDrawn', playerIndex: pi, tile });
-    if (s.wall.length === 0) {
-      s.phase = 'roundOver';
-      s.result = { type: 'draw' };
-      events.push({ type: 'gameOver', result: s.result });
-      return { state: s, events };
+    setAsideBonusTile(s, pi, tile, events);
+    if (s.wall.length <= s.rules.reservedWallTiles) {
+      return endRound(s, { type: 'draw', drawReason: 'wallExhausted' }, events);
     }
   } else {
     player.handTiles.push(tile);
+    entry.drawnTile = tile;
   }
 
   s.phase = 'postDraw';
@@ -222,6 +246,7 @@ export function discardTile(
   const events: GameEvent[] = [];
   const pi = s.currentPlayerIndex;
   const player = s.players[pi];
+  logMove(s, pi, { type: 'discard', tile });
 
   // Remove tile from hand
   const idx = player.handTiles.findIndex(t => t.id === tile.id);
@@ -233,6 +258,7 @@ export function discardTile(
 
   s.lastDiscard = tile;
   s.lastDiscardPlayerIndex = pi;
+  s.kongReplacementDraw = false;
   s.phase = 'claimWindow';
 
   if (!s.firstTurnComplete) {
@@ -240,6 +266,11 @@ export function discardTile(
   }
 
   events.push({ type: 'tileDiscarded', playerIndex: pi, tile });
+
+  if (s.rules.fourWindsDraw && isFourWindsDiscard(s)) {
+    return endRound(s, { type: 'draw', drawReason: 'fourWinds' }, events);
+  }
+
   events.push({ type: 'claimWindowOpen', discard: tile, discardedBy: pi });
 
   return { state: s, events };
@@ -267,6 +298,7 @@ export function claimPong(
   const events: GameEvent[] = [];
   const player = s.players[claimingPlayerIndex];
   const discardKey = tileKey(state.lastDiscard);
+  logMove(s, claimingPlayerIndex, { type: 'claimPong' });
 
   // Need 2 matching tiles in hand
   const matching = player.handTiles.filter(t => tileKey(t) === discardKey);
@@ -281,7 +313,12 @@ export function claimPong(
     if (removed) meldTiles.push(removed);
   }
 
-  const meld: MeldedSet = { type: 'pung', tiles: meldTiles, concealed: false };
+  const meld: MeldedSet = {
+    type: 'pung',
+    tiles: meldTiles,
+    concealed: false,
+    claimedFrom: state.lastDiscardPlayerIndex!,
+  };
   player.openMelds.push(meld);
 
   // Remove discard from the discarder's discard pile (it was claimed)
@@ -312,13 +349,17 @@ export function claimChow(
   if (state.phase !== 'claimWindow' || !state.lastDiscard) {
     throw new Error('Cannot claim chow outside claimWindow');
   }
-  if (!isLeftOf(claimingPlayerIndex, state.lastDiscardPlayerIndex!)) {
+  if (!state.rules.allowChow) {
+    throw new Error('Chows are not allowed under these rules');
+  }
+  if (!isLeftOf(state, claimingPlayerIndex, state.lastDiscardPlayerIndex!)) {
     throw new Error('Chow can only be claimed by the next player in turn order');
   }
 
   const s = cloneState(state);
   const events: GameEvent[] = [];
   const player = s.players[claimingPlayerIndex];
+  logMove(s, claimingPlayerIndex, { type: 'claimChow', chowTiles });
 
   // Validate the three tiles form a valid chow
   const allThree = [s.lastDiscard!, ...chowTiles].sort((a, b) => {
@@ -346,7 +387,12 @@ export function claimChow(
     player.handTiles.splice(idx, 1);
   }
 
-  const meld: MeldedSet = { type: 'chow', tiles: allThree, concealed: false };
+  const meld: MeldedSet = {
+    type: 'chow',
+    tiles: allThree,
+    concealed: false,
+    claimedFrom: state.lastDiscardPlayerIndex!,
+  };
   player.openMelds.push(meld);
 
   // Remove discard from discarder's pile
@@ -382,6 +428,7 @@ export function claimKong(
   const events: GameEvent[] = [];
   const player = s.players[claimingPlayerIndex];
   const discardKey = tileKey(state.lastDiscard);
+  logMove(s, claimingPlayerIndex, { type: 'claimKong' });
 
   // Need 3 matching tiles in hand
   const matching = player.handTiles.filter(t => tileKey(t) === discardKey);
@@ -395,7 +442,12 @@ export function claimKong(
     if (removed) meldTiles.push(removed);
   }
 
-  const meld: MeldedSet = { type: 'kong', tiles: meldTiles, concealed: false };
+  const meld: MeldedSet = {
+    type: 'kong',
+    tiles: meldTiles,
+    concealed: false,
+    claimedFrom: state.lastDiscardPlayerIndex!,
+  };
   player.openMelds.push(meld);
 
   // Remove discard from discarder's pile
@@ -406,43 +458,10 @@ export function claimKong(
   s.lastDiscardPlayerIndex = null;
   s.currentPlayerIndex = claimingPlayerIndex;
 
-  // Kong replacement draw from dead wall
-  const replacement = drawFromDeadWall(s.deadWall);
-  if (replacement) {
-    events.push({ type: 'meldDeclared', playerIndex: claimingPlayerIndex, meld });
-    events.push({ type: 'kongReplacement', playerIndex: claimingPlayerIndex, tile: replacement });
-
-    // Handle bonus tile replacement
-    if (replacement.isBonus) {
-      player.bonusTiles.push(replacement);
-      events.push({ type: 'bonusTileDrawn', playerIndex: claimingPlayerIndex, tile: replacement });
-      // Draw another replacement
-      const next = drawFromDeadWall(s.deadWall);
-      if (next && !next.isBonus) {
-        player.handTiles.push(next);
-        s.phase = 'postDraw';
-      } else if (next) {
-        player.bonusTiles.push(next);
-        s.phase = 'postDraw'; // simplified: may need further replacement
-      } else {
-        s.phase = 'roundOver';
-        s.result = { type: 'draw' };
-        events.push({ type: 'gameOver', result: s.result });
-        return { state: s, events };
-      }
-    } else {
-      player.handTiles.push(replacement);
-      s.phase = 'postDraw';
-    }
-  } else {
-    // Dead wall exhausted
-    events.push({ type: 'meldDeclared', playerIndex: claimingPlayerIndex, meld });
-    s.phase = 'roundOver';
-    s.result = { type: 'draw' };
-    events.push({ type: 'gameOver', result: s.result });
-  }
+  events.push({ type: 'meldDeclared', playerIndex: claimingPlayerIndex, meld });
 
-  return { state: s, events };
+  // Kong replacement draw from dead wall
+  return drawKongReplacement(s, claimingPlayerIndex, events);
 }
 
 /**
@@ -451,42 +470,72 @@ export function claimKong(
 export function claimWin(
   state: GameState,
   claimingPlayerIndex: number,
+): { state: GameState; events: GameEvent[] } {
+  return claimWins(state, [claimingPlayerIndex]);
+}
+
+/**
+ * Several players claim the last discard to win at once. Under the
+ * head-bump rule only the claimant nearest the discarder in turn order
+ * wins; under the multiple-winners rule every claimant wins.
+ */
+export function claimWins(
+  state: GameState,
+  claimingPlayerIndices: number[],
 ): { state: GameState; events: GameEvent[] } {
   if (state.phase !== 'claimWindow' || !state.lastDiscard) {
     throw new Error('Cannot claim win outside claimWindow');
   }
+  if (claimingPlayerIndices.length === 0) {
+    throw new Error('No win claims to settle');
+  }
 
   const s = cloneState(state);
   const events: GameEvent[] = [];
-  const player = s.players[claimingPlayerIndex];
-
-  // Add discard to hand for validation
-  const fullHand = reconstructFullHand(player, state.lastDiscard);
-
-  const parseResult = parseHand(fullHand);
-  if (!parseResult.valid) {
-    throw new Error('Not a winning hand');
-  }
 
-  // Pick the best-scoring decomposition
-  const result = buildBestWinResult(
-    s, claimingPlayerIndex, parseResult, state.lastDiscard, false,
+  const discarderIdx = state.lastDiscardPlayerIndex!;
+  const claimants = [...new Set(claimingPlayerIndices)].sort(
+    (a, b) => seatDistance(state, discarderIdx, a) - seatDistance(state, discarderIdx, b),
   );
+  const winnerIndices = state.rules.multipleWinRule === 'multiple' ? claimants : claimants.slice(0, 1);
+  logMove(s, claimants[0], { type: 'claimWin' }, claimants.length > 1 ? claimants : undefined);
+
+  // Add discard to each hand and pick the best-scoring decomposition
+  const results = winnerIndices.map(i => requireWin(s, i, state.lastDiscard!));
+  const result: GameResult = results.length === 1
+    ? results[0]
+    : {
+        ...results[0],
+        winners: results.map(r => ({
+          winnerIndex: r.winnerIndex!,
+          winningHand: r.winningHand!,
+          scoring: r.scoring!,
+          responsibility: r.responsibility,
+        })),
+      };
 
-  // Remove discard from discarder's pile
   const discarder = s.players[s.lastDiscardPlayerIndex!];
-  discarder.discards.pop();
-
-  s.phase = 'roundOver';
-  s.result = result;
-
-  events.push({ type: 'gameOver', result });
+  if (state.robbingKong) {
+    // Robbed kong — the promoted tile leaves the kong, which reverts to a pung
+    const robbedId = state.lastDiscard.id;
+    const kong = discarder.openMelds.find(m => m.tiles.some(t => t.id === robbedId));
+    if (kong) {
+      kong.tiles = kong.tiles.filter(t => t.id !== robbedId);
+      kong.type = 'pung';
+    }
+    s.robbingKong = false;
+  } else {
+    // Remove discard from discarder's pile
+    discarder.discards.pop();
+  }
 
-  return { state: s, events };
+  return endRound(s, result, events);
 }
 
 /**
  * All players pass on the discard. Advances to next player's draw.
+ * If the window was opened by a pung promotion, nobody robbed the kong and
+ * the promoting player draws their replacement tile instead.
  */
 export function passClaim(state: GameState): { state: GameState; events: GameEvent[] } {
   if (state.phase !== 'claimWindow') {
@@ -495,10 +544,20 @@ export function passClaim(state: GameState): { state: GameState; events: GameEve
 
   const s = cloneState(state);
   const events: GameEvent[] = [];
+  logMove(s, state.lastDiscardPlayerIndex!, { type: 'pass' });
+
+  if (state.robbingKong) {
+    const pi = state.lastDiscardPlayerIndex!;
+    s.lastDiscard = null;
+    s.lastDiscardPlayerIndex = null;
+    s.robbingKong = false;
+    s.currentPlayerIndex = pi;
+    return drawKongReplacement(s, pi, events);
+  }
 
   s.lastDiscard = null;
   s.lastDiscardPlayerIndex = null;
-  s.currentPlayerIndex = nextPlayer(state.lastDiscardPlayerIndex!);
+  s.currentPlayerIndex = nextPlayer(state, state.lastDiscardPlayerIndex!);
   s.phase = 'draw';
   s.turnNumber++;
 
@@ -527,6 +586,7 @@ export function declareKong(
   const events: GameEvent[] = [];
   const pi = s.currentPlayerIndex;
   const player = s.players[pi];
+  logMove(s, pi, { type: 'declareKong', tiles: kongTiles });
 
   if (kongTiles.length !== 4) {
     throw new Error('Kong must be exactly 4 tiles');
@@ -571,6 +631,7 @@ export function promotePungToKong(
   const events: GameEvent[] = [];
   const pi = s.currentPlayerIndex;
   const player = s.players[pi];
+  logMove(s, pi, { type: 'promotePungToKong', tile });
 
   // Find matching open pung
   const key = tileKey(tile);
@@ -594,9 +655,19 @@ export function promotePungToKong(
 
   events.push({ type: 'meldDeclared', playerIndex: pi, meld: player.openMelds[pungIdx] });
 
-  // Note: In a full implementation, we'd check if other players can "rob the kong"
-  // by claiming a win on this tile before drawing replacement.
-  // For now, proceed directly to replacement draw.
+  // Robbing the kong (抢杠): if anyone can win on the promoted tile, open a
+  // claim window on it before the replacement draw. The flag is set first so
+  // the robbing tai counts towards the minimum.
+  s.robbingKong = true;
+  const canRob = s.players.some((_, i) => i !== pi && canPlayerWin(s, i, tile));
+  if (canRob) {
+    s.lastDiscard = tile;
+    s.lastDiscardPlayerIndex = pi;
+    s.phase = 'claimWindow';
+    events.push({ type: 'claimWindowOpen', discard: tile, discardedBy: pi });
+    return { state: s, events };
+  }
+  s.robbingKong = false;
 
   return drawKongReplacement(s, pi, events);
 }
@@ -614,40 +685,56 @@ export function declareSelfWin(
 
   const s = cloneState(state);
   const events: GameEvent[] = [];
-  const pi = s.currentPlayerIndex;
-  const player = s.players[pi];
+  logMove(s, s.currentPlayerIndex, { type: 'declareSelfWin' });
 
-  const fullHand = reconstructFullHand(player);
-  const parseResult = parseHand(fullHand);
-  if (!parseResult.valid) {
-    throw new Error('Not a winning hand');
-  }
-
-  const result = buildBestWinResult(s, pi, parseResult, undefined, true);
+  const result = requireWin(s, s.currentPlayerIndex);
 
-  s.phase = 'roundOver';
-  s.result = result;
+  return endRound(s, result, events);
+}
 
-  events.push({ type: 'gameOver', result });
+// ---------------------------------------------------------------------------
+// Replaying Logged Moves
+// ---------------------------------------------------------------------------
 
-  return { state: s, events };
+/** Apply one logged move to a state with the matching action function. */
+export function applyLoggedMove(
+  state: GameState,
+  entry: ActionLogEntry,
+): { state: GameState; events: GameEvent[] } {
+  const { move, playerIndex } = entry;
+  switch (move.type) {
+    case 'draw':
+      return drawTile(state);
+    case 'discard':
+      return discardTile(state, move.tile);
+    case 'declareKong':
+      return declareKong(state, move.tiles);
+    case 'promotePungToKong':
+      return promotePungToKong(state, move.tile);
+    case 'declareSelfWin':
+      return declareSelfWin(state);
+    case 'claimPong':
+      return claimPong(state, playerIndex);
+    case 'claimChow':
+      return claimChow(state, playerIndex, move.chowTiles);
+    case 'claimKong':
+      return claimKong(state, playerIndex);
+    case 'claimWin':
+      return claimWins(state, entry.claimants ?? [playerIndex]);
+    case 'pass':
+      return passClaim(state);
+  }
 }
 
 // ---------------------------------------------------------------------------
 // Query Helpers
 // ---------------------------------------------------------------------------
 
-/** Check if a player can win with their current hand (+ optional extra tile). */
-export function canPlayerWin(state: GameState, playerIndex: number, extraTile?: Tile): boolean {
-  const player = state.players[playerIndex];
-  const fullHand = reconstructFullHand(player, extraTile);
-  if (fullHand.length !== 14) return false;
-  return parseHand(fullHand).valid;
-}
+export { canPlayerWin };
 
 /** Check if a player can pong the last discard. */
 export function canPong(state: GameState, playerIndex: number): boolean {
-  if (!state.lastDiscard || playerIndex === state.lastDiscardPlayerIndex) return false;
+  if (!state.lastDiscard || state.robbingKong || playerIndex === state.lastDiscardPlayerIndex) return false;
   const player = state.players[playerIndex];
   const key = tileKey(state.lastDiscard);
   return countInHand(player.handTiles, key) >= 2;
@@ -659,7 +746,8 @@ export function canPong(state: GameState, playerIndex: number): boolean {
  * or false if no chow is possible.
  */
 export function canChow(state: GameState, playerIndex: number): [Tile, Tile][] | false {
-  if (!state.lastDiscard || !isLeftOf(playerIndex, state.lastDiscardPlayerIndex!)) return false;
+  if (!state.lastDiscard || state.robbingKong || !state.rules.allowChow) return false;
+  if (!isLeftOf(state, playerIndex, state.lastDiscardPlayerIndex!)) return false;
 
   const player = state.players[playerIndex];
   const discard = state.lastDiscard;
@@ -690,7 +778,7 @@ export function canChow(state: GameState, playerIndex: number): [Tile, Tile][] |
 
 /** Check if a player can kong the last discard. */
 export function canKongFromDiscard(state: GameState, playerIndex: number): boolean {
-  if (!state.lastDiscard || playerIndex === state.lastDiscardPlayerIndex) return false;
+  if (!state.lastDiscard || state.robbingKong || playerIndex === state.lastDiscardPlayerIndex) return false;
   const player = state.players[playerIndex];
   const key = tileKey(state.lastDiscard);
   return countInHand(player.handTiles, key) >= 3;
@@ -814,7 +902,103 @@ export function getValidActions(state: GameState, playerIndex: number): PlayerAc
 // Internal Helpers
 // ---------------------------------------------------------------------------
 
-/** Draw kong replacement from dead wall, handling bonus tiles. */
+/**
+ * Evaluate a win for a player, throwing if the hand doesn't win or falls
+ * short of the rule set's minimum tai.
+ */
+function requireWin(state: GameState, playerIndex: number, claimedTile?: Tile): GameResult {
+  const result = evaluateWin(state, playerIndex, claimedTile);
+  if (!result) {
+    throw new Error('Not a winning hand');
+  }
+  if (!meetsMinimumTai(result.scoring!, state.rules)) {
+    throw new Error(`Hand does not meet the minimum of ${state.rules.minimumTai} tai`);
+  }
+  return result;
+}
+
+/**
+ * Set a drawn bonus tile aside for a player. Records an instant payout if
+ * it completes an animal pair (cat + mouse, rooster + centipede).
+ */
+function setAsideBonusTile(
+  state: GameState,
+  playerIndex: number,
+  tile: Tile,
+  events: GameEvent[],
+): void {
+  const player = state.players[playerIndex];
+  player.bonusTiles.push(tile);
+  events.push({ type: 'bonusTileDrawn', playerIndex, tile });
+  recordBonusPayouts(state, playerIndex);
+}
+
+/** Record any newly completed animal pairs for a player. */
+function recordBonusPayouts(state: GameState, playerIndex: number): void {
+  const player = state.players[playerIndex];
+  for (const pair of findAnimalPairs(player.bonusTiles)) {
+    const recorded = state.bonusPayouts.some(
+      p => p.playerIndex === playerIndex && p.name === pair.name,
+    );
+    if (!recorded) {
+      state.bonusPayouts = [...state.bonusPayouts, { playerIndex, ...pair }];
+    }
+  }
+}
+
+/** Collect the kongs standing in every player's melds for instant payment. */
+function collectKongPayouts(state: GameState): KongPayout[] {
+  const payouts: KongPayout[] = [];
+  state.players.forEach((player, playerIndex) => {
+    for (const meld of player.openMelds) {
+      if (meld.type === 'kong') {
+        payouts.push({ playerIndex, concealed: meld.concealed, tiles: [...meld.tiles] });
+      }
+    }
+  });
+  return payouts;
+}
+
+/** End the round with the given result, carrying over instant payouts. */
+function endRound(
+  state: GameState,
+  result: GameResult,
+  events: GameEvent[],
+): { state: GameState; events: GameEvent[] } {
+  state.phase = 'roundOver';
+  state.result = {
+    ...result,
+    bonusPayouts: [...state.bonusPayouts],
+    kongPayouts: collectKongPayouts(state),
+  };
+  events.push({ type: 'gameOver', result: state.result });
+  return { state, events };
+}
+
+/**
+ * Whether every player's only discard so far is the same wind, with no
+ * claims in between (the first go-around). Needs four players: three winds
+ * at a three-player table are not the pattern.
+ */
+function isFourWindsDiscard(state: GameState): boolean {
+  if (state.rules.seats === 3) return false;
+  const first = state.players.map(p => p.discards[0]);
+  return state.players.every(p => p.discards.length === 1 && p.openMelds.length === 0)
+    && first[0].suit === 'winds'
+    && first.every(t => tilesMatch(t, first[0]));
+}
+
+/** Whether four kongs stand on the table, declared by more than one player. */
+function isFourKongsAbort(state: GameState): boolean {
+  const kongCounts = state.players.map(p => p.openMelds.filter(m => m.type === 'kong').length);
+  const total = kongCounts.reduce((sum, n) => sum + n, 0);
+  return total >= 4 && kongCounts.filter(n => n > 0).length > 1;
+}
+
+/**
+ * Draw kong replacement from dead wall, handling bonus tiles.
+ * Every kong passes through here, so this is where four kongs abort the round.
+ */
 function drawKongReplacement(
   state: GameState,
   playerIndex: number,
@@ -822,130 +1006,112 @@ function drawKongReplacement(
 ): { state: GameState; events: GameEvent[] } {
   const player = state.players[playerIndex];
 
+  if (state.rules.fourKongsDraw && isFourKongsAbort(state)) {
+    return endRound(state, { type: 'draw', drawReason: 'fourKongs' }, events);
+  }
+
   let replacement = drawFromDeadWall(state.deadWall);
   if (!replacement) {
-    state.phase = 'roundOver';
-    state.result = { type: 'draw' };
-    events.push({ type: 'gameOver', result: state.result });
-    return { state, events };
+    return endRound(state, { type: 'draw', drawReason: 'wallExhausted' }, events);
   }
 
   events.push({ type: 'kongReplacement', playerIndex, tile: replacement });
 
   // Handle bonus tile replacement
   while (replacement.isBonus) {
-    player.bonusTiles.push(replacement);
-    events.push({ type: 'bonusTileDrawn', playerIndex, tile: replacement });
+    setAsideBonusTile(state, playerIndex, replacement, events);
     replacement = drawFromDeadWall(state.deadWall);
     if (!replacement) {
-      state.phase = 'roundOver';
-      state.result = { type: 'draw' };
-      events.push({ type: 'gameOver', result: state.result });
-      return { state, events };
+      return endRound(state, { type: 'draw', drawReason: 'wallExhausted' }, events);
     }
     events.push({ type: 'kongReplacement', playerIndex, tile: replacement });
   }
 
   player.handTiles.push(replacement);
+  // The kong (or the pass on a robbable kong) was just logged by the caller
+  state.actionLog[state.actionLog.length - 1].drawnTile = replacement;
+  state.kongReplacementDraw = true;
   state.phase = 'postDraw';
   events.push({ type: 'turnChanged', playerIndex, phase: 'postDraw' });
 
   return { state, events };
 }
 
+// ---------------------------------------------------------------------------
+// Automated Game Loop
+// ---------------------------------------------------------------------------
+
+/** Whether any external (human) seat other than the discarder has a non-pass option on the discard. */
+function externalCanClaim(state: GameState, strategies: SeatStrategies): boolean {
+  return state.players.some((_, i) =>
+    i !== state.lastDiscardPlayerIndex
+    && strategies[i].external
+    && getValidActions(state, i).some(a => a.type !== 'pass'),
+  );
+}
+
 /**
- * Build the best-scoring GameResult from parse results.
+ * Whether an external (human) seat has a decision to make: their discard
+ * (or kong / self-win) after drawing, or a claim on the last discard. A
+ * draw is not a decision.
  */
-function buildBestWinResult(
+function isExternalDecision(state: GameState, strategies: SeatStrategies): boolean {
+  if (state.phase === 'claimWindow') return externalCanClaim(state, strategies);
+  return (state.phase === 'postDraw' || state.phase === 'discard')
+    && !!strategies[state.currentPlayerIndex].external;
+}
+
+/** Ask the player on turn for their move after drawing, and play it. */
+async function playTurn(
   state: GameState,
-  playerIndex: number,
-  parseResult: ReturnType<typeof parseHand>,
-  claimedTile: Tile | undefined,
-  selfDrawn: boolean,
-): GameResult {
-  const player = state.players[playerIndex];
-  const isFirstDraw = !state.firstTurnComplete;
-
-  let bestScoring = { tai: 0, details: [] as any[] };
-  let bestHand: WinningHand | null = null;
-
-  // Try each decomposition and pick the highest-scoring one
-  const decompositions = parseResult.decompositions;
-
-  // Also handle seven pairs and thirteen orphans as special decompositions
-  if (parseResult.sevenPairs || parseResult.thirteenOrphans || decompositions.length === 0) {
-    // Build a hand for special patterns
-    const fullTiles = reconstructFullHand(player, claimedTile);
-    const hand: WinningHand = {
-      handTiles: fullTiles,
-      melds: [],
-      pair: [],
-      bonusTiles: player.bonusTiles,
-      seatWind: player.seat,
-      prevailingWind: state.prevailingWind,
-      selfDrawn,
-      firstDraw: isFirstDraw,
-    };
-    const scoring = scoreHand(hand);
-    if (scoring.tai > bestScoring.tai) {
-      bestScoring = scoring;
-      bestHand = hand;
-    }
-  }
+  strategies: SeatStrategies,
+): Promise<{ state: GameState; events: GameEvent[] }> {
+  const pi = state.currentPlayerIndex;
+  const validActions = getValidActions(state, pi);
+  const decision = await strategies[pi].decide(state, pi, validActions);
+  const action = decision.action;
 
-  for (const decomp of decompositions) {
-    // Merge open melds with decomposition's concealed melds
-    const melds: MeldedSet[] = [
-      ...player.openMelds,
-      ...decomp.melds.filter(m => {
-        // Only include melds not already in openMelds
-        return !player.openMelds.some(om =>
-          om.tiles.some(t => m.tiles.some(mt => mt.id === t.id)),
-        );
-      }),
-    ];
-
-    const fullTiles = reconstructFullHand(player, claimedTile);
-    const hand: WinningHand = {
-      handTiles: fullTiles,
-      melds,
-      pair: decomp.pair,
-      bonusTiles: player.bonusTiles,
-      seatWind: player.seat,
-      prevailingWind: state.prevailingWind,
-      selfDrawn,
-      firstDraw: isFirstDraw,
-    };
+  let result: { state: GameState; events: GameEvent[] };
 
-    const scoring = scoreHand(hand);
-    if (scoring.tai > bestScoring.tai || !bestHand) {
-      bestScoring = scoring;
-      bestHand = hand;
-    }
+  switch (action.type) {
+    case 'discard':
+      result = discardTile(state, action.tile);
+      break;
+    case 'declareSelfWin':
+      result = declareSelfWin(state);
+      break;
+    case 'declareKong':
+      result = declareKong(state, action.tiles);
+      break;
+    case 'promotePungToKong':
+      result = promotePungToKong(state, action.tile);
+      break;
+    default:
+      // Shouldn't happen, but default to discarding first tile
+      result = discardTile(state, state.players[pi].handTiles[0]);
+      break;
   }
 
-  return {
-    type: 'win',
-    winnerIndex: playerIndex,
-    winningHand: bestHand!,
-    scoring: bestScoring,
-    loserIndex: selfDrawn ? undefined : state.lastDiscardPlayerIndex!,
-  };
+  if (decision.trashtalk) {
+    result.events.push({ type: 'playerMessage', playerIndex: pi, message: decision.trashtalk });
+  }
+  return result;
 }
 
-// ---------------------------------------------------------------------------
-// Automated Game Loop
-// ---------------------------------------------------------------------------
-
 /**
- * Run a **single step** of the game loop (one AI action or one claim resolution).
- * Returns the updated state, events from this step, and whether the loop should stop
- * (i.e. a human must act or the round is over).
+ * Run a **single step** of the game loop (one strategy decision, draw or claim
+ * resolution). Each seat's moves come from its strategy; by default from
+ * its player type (see defaultStrategies). Returns the updated state,
+ * events from this step, and whether the loop should stop (i.e. a human
+ * must act or the round is over).
  *
  * This is the animation-friendly counterpart to `advanceGame()`, which runs the
  * entire loop in one call.
  */
-export async function stepGame(state: GameState): Promise<{
+export async function stepGame(
+  state: GameState,
+  strategies: SeatStrategies = defaultStrategies(state),
+): Promise<{
   state: GameState;
   events: GameEvent[];
   done: boolean;
@@ -954,71 +1120,29 @@ export async function stepGame(state: GameState): Promise<{
     return { state, events: [], done: true };
   }
 
-  const currentPlayer = state.players[state.currentPlayerIndex];
-
   // If it's a human player's turn (and not claimWindow), pause
-  if (currentPlayer.type === 'human' && state.phase !== 'claimWindow') {
+  if (strategies[state.currentPlayerIndex].external && state.phase !== 'claimWindow') {
     return { state, events: [], done: true };
   }
 
   // During claim window, check if any human player has a non-pass option
   if (state.phase === 'claimWindow') {
-    let humanCanAct = false;
-    for (let i = 0; i < 4; i++) {
-      if (i === state.lastDiscardPlayerIndex) continue;
-      if (state.players[i].type !== 'human') continue;
-      const actions = getValidActions(state, i);
-      if (actions.some(a => a.type !== 'pass')) {
-        humanCanAct = true;
-        break;
-      }
-    }
-    if (humanCanAct) {
+    if (externalCanClaim(state, strategies)) {
       return { state, events: [], done: true };
     }
 
-    // All humans can only pass — resolve AI claims
-    const result = await resolveClaimWindow(state);
+    // All humans can only pass — resolve the other seats' claims
+    const result = await resolveClaimWindow(state, strategies);
     return { state: result.state, events: result.events, done: false };
   }
 
-  // AI turn: draw phase
   if (state.phase === 'draw') {
     const result = drawTile(state);
     return { state: result.state, events: result.events, done: false };
   }
 
-  // AI turn: postDraw or discard
   if (state.phase === 'postDraw' || state.phase === 'discard') {
-    const pi = state.currentPlayerIndex;
-    const validActions = getValidActions(state, pi);
-    const decision = await getAIDecision(state, pi, validActions);
-    const action = decision.action;
-
-    let result: { state: GameState; events: GameEvent[] };
-
-    switch (action.type) {
-      case 'discard':
-        result = discardTile(state, action.tile);
-        break;
-      case 'declareSelfWin':
-        result = declareSelfWin(state);
-        break;
-      case 'declareKong':
-        result = declareKong(state, action.tiles);
-        break;
-      case 'promotePungToKong':
-        result = promotePungToKong(state, action.tile);
-        break;
-      default:
-        result = discardTile(state, state.players[pi].handTiles[0]);
-        break;
-    }
-
-    if (decision.trashtalk) {
-      result.events.push({ type: 'playerMessage', playerIndex: pi, message: decision.trashtalk });
-    }
-
+    const result = await playTurn(state, strategies);
     return { state: result.state, events: result.events, done: false };
   }
 
@@ -1026,34 +1150,71 @@ export async function stepGame(state: GameState): Promise<{
   return { state, events: [], done: true };
 }
 
+/** A seat's response to the claim window. */
+export interface ClaimDecision {
+  playerIndex: number;
+  action: PlayerAction;
+}
+
 /**
- * Resolve the claim window: collect AI decisions, apply priority.
- * Priority: win > pong/kong > chow. Pass if no claims.
+ * Pick the move that settles a claim window from the seats' responses.
+ * Priority: win > pong/kong > chow, ties to the seat nearest the discarder;
+ * every win claim is settled together (head bump or multiple winners).
+ * Returns a pass if nobody claims. Apply the move with applyLoggedMove.
+ */
+export function pickClaim(state: GameState, decisions: ClaimDecision[]): ActionLogEntry {
+  const discarderIdx = state.lastDiscardPlayerIndex!;
+  const priorityOf = (d: ClaimDecision) => {
+    let priority = 0;
+    switch (d.action.type) {
+      case 'claimWin': priority = 100; break;
+      case 'claimPong': priority = 50; break;
+      case 'claimKong': priority = 50; break;
+      case 'claimChow': priority = 10; break;
+    }
+    // Tiebreaker: closer to discarder in turn order
+    return priority + (4 - seatDistance(state, discarderIdx, d.playerIndex)); // closer = higher
+  };
+
+  const claims = decisions
+    .filter(d => d.playerIndex !== discarderIdx && d.action.type !== 'pass')
+    .sort((a, b) => priorityOf(b) - priorityOf(a));
+
+  // No claims — pass
+  if (claims.length === 0) {
+    return { playerIndex: discarderIdx, move: { type: 'pass' }, turnNumber: state.turnNumber };
+  }
+
+  const best = claims[0];
+  const entry: ActionLogEntry = { playerIndex: best.playerIndex, move: best.action, turnNumber: state.turnNumber };
+  if (best.action.type === 'claimWin') {
+    const winners = claims.filter(c => c.action.type === 'claimWin').map(c => c.playerIndex);
+    if (winners.length > 1) entry.claimants = winners;
+  }
+  return entry;
+}
+
+/**
+ * Resolve the claim window: collect the decisions of every seat that is not
+ * external, apply priority (see pickClaim).
  */
 async function resolveClaimWindow(
   state: GameState,
+  strategies: SeatStrategies,
 ): Promise<{ state: GameState; events: GameEvent[] }> {
   if (state.phase !== 'claimWindow') {
     throw new Error('Not in claimWindow phase');
   }
 
-  // Collect claims from all other players (AI only)
-  interface Claim {
-    playerIndex: number;
-    action: PlayerAction;
-    priority: number; // higher = better
-    trashtalk?: string;
-  }
-
-  const claims: Claim[] = [];
+  const decisions: ClaimDecision[] = [];
+  const trashtalk = new Map<number, string>();
   const discarderIdx = state.lastDiscardPlayerIndex!;
 
-  for (let i = 0; i < 4; i++) {
+  for (let i = 0; i < state.players.length; i++) {
     if (i === discarderIdx) continue;
-    const player = state.players[i];
 
-    // Only auto-resolve for AI players
-    if (player.type !== 'ai') continue;
+    // Human seats have only a pass here (see externalCanClaim)
+    if (strategies[i].external) continue;
 
     const validActions = getValidActions(state, i);
     if (validActions.length === 0) continue;
@@ -1061,149 +1222,39 @@ async function resolveClaimWindow(
     // If only pass is available, skip
     if (validActions.length === 1 && validActions[0].type === 'pass') continue;
 
-    const decision = await getAIDecision(state, i, validActions);
-    if (decision.action.type === 'pass') continue;
-
-    let priority = 0;
-    const trashtalk = decision.trashtalk;
-    switch (decision.action.type) {
-      case 'claimWin': priority = 100; break;
-      case 'claimPong': priority = 50; break;
-      case 'claimKong': priority = 50; break;
-      case 'claimChow': priority = 10; break;
-    }
-
-    // Tiebreaker: closer to discarder in turn order
-    const distance = (i - discarderIdx + 4) % 4;
-    priority += (4 - distance); // closer = higher
-
-    claims.push({ playerIndex: i, action: decision.action, priority, trashtalk });
-  }
-
-  // No claims — pass
-  if (claims.length === 0) {
-    return passClaim(state);
+    const decision = await strategies[i].decide(state, i, validActions);
+    decisions.push({ playerIndex: i, action: decision.action });
+    if (decision.trashtalk) trashtalk.set(i, decision.trashtalk);
   }
 
-  // Apply highest priority claim
-  claims.sort((a, b) => b.priority - a.priority);
-  const best = claims[0];
-
-  let result: { state: GameState; events: GameEvent[] };
+  const move = pickClaim(state, decisions);
+  const result = applyLoggedMove(state, move);
 
-  switch (best.action.type) {
-    case 'claimWin':
-      result = claimWin(state, best.playerIndex);
-      break;
-    case 'claimPong':
-      result = claimPong(state, best.playerIndex);
-      break;
-    case 'claimKong':
-      result = claimKong(state, best.playerIndex);
-      break;
-    case 'claimChow': {
-      const chowAction = best.action as { type: 'claimChow'; chowTiles: [Tile, Tile] };
-      result = claimChow(state, best.playerIndex, chowAction.chowTiles);
-      break;
-    }
-    default:
-      result = passClaim(state);
-      break;
-  }
-
-  if (best.trashtalk) {
-    result.events.push({ type: 'playerMessage', playerIndex: best.playerIndex, message: best.trashtalk });
+  const message = move.move.type !== 'pass' ? trashtalk.get(move.playerIndex) : undefined;
+  if (message) {
+    result.events.push({ type: 'playerMessage', playerIndex: move.playerIndex, message });
   }
 
   return result;
 }
 
 /**
- * Advance the game by processing AI turns automatically.
- * Pauses and returns when a human player needs to act, or when the game is over.
+ * Advance the game by playing every seat that is not external through its
+ * strategy. Pauses and returns when a human player needs to act, or when
+ * the game is over.
  */
 export async function advanceGame(
   state: GameState,
+  strategies: SeatStrategies = defaultStrategies(state),
 ): Promise<{ state: GameState; allEvents: GameEvent[] }> {
   let current = state;
   const allEvents: GameEvent[] = [];
 
   while (current.phase !== 'roundOver') {
-    const currentPlayer = current.players[current.currentPlayerIndex];
-
-    // If it's a human player's turn (and not claimWindow), pause
-    if (currentPlayer.type === 'human' && current.phase !== 'claimWindow') {
-      break;
-    }
-
-    // During claim window, check if any human player has a non-pass option
-    if (current.phase === 'claimWindow') {
-      let humanCanAct = false;
-      for (let i = 0; i < 4; i++) {
-        if (i === current.lastDiscardPlayerIndex) continue;
-        if (current.players[i].type !== 'human') continue;
-        const actions = getValidActions(current, i);
-        if (actions.some(a => a.type !== 'pass')) {
-          humanCanAct = true;
-          break;
-        }
-      }
-      if (humanCanAct) break;
-
-      // All humans can only pass — resolve AI claims
-      const result = await resolveClaimWindow(current);
-      current = result.state;
-      allEvents.push(...result.events);
-      continue;
-    }
-
-    // AI turn: draw phase
-    if (current.phase === 'draw') {
-      const result = drawTile(current);
-      current = result.state;
-      allEvents.push(...result.events);
-      continue;
-    }
-
-    // AI turn: postDraw or discard
-    if (current.phase === 'postDraw' || current.phase === 'discard') {
-      const pi = current.currentPlayerIndex;
-      const validActions = getValidActions(current, pi);
-      const decision = await getAIDecision(current, pi, validActions);
-      const action = decision.action;
-
-      let result: { state: GameState; events: GameEvent[] };
-
-      switch (action.type) {
-        case 'discard':
-          result = discardTile(current, action.tile);
-          break;
-        case 'declareSelfWin':
-          result = declareSelfWin(current);
-          break;
-        case 'declareKong':
-          result = declareKong(current, action.tiles);
-          break;
-        case 'promotePungToKong':
-          result = promotePungToKong(current, action.tile);
-          break;
-        default:
-          // Shouldn't happen, but default to discarding first tile
-          result = discardTile(current, current.players[pi].handTiles[0]);
-          break;
-      }
-
-      if (decision.trashtalk) {
-        result.events.push({ type: 'playerMessage', playerIndex: pi, message: decision.trashtalk });
-      }
-
-      current = result.state;
-      allEvents.push(...result.events);
-      continue;
-    }
-
-    // Safety break
-    break;
+    const step = await stepGame(current, strategies);
+    current = step.state;
+    allEvents.push(...step.events);
+    if (step.done) break;
   }
 
   return { state: current, allEvents };
@@ -1215,17 +1266,32 @@ export async function advanceGame(
 
 export class GameController {
   state: GameState;
+  /** Debug aid: assert every state the controller moves to (see assertValidGameState). */
+  checkInvariants = false;
+  /** Each seat's strategy for advance/step; by default from the player types. */
+  strategies: SeatStrategies;
   private listeners: EventListener[] = [];
+  /** Earlier states where a human had a decision to make, oldest first; undo returns to the last. */
+  private undoPoints: GameState[] = [];
+  /** Moves taken back by undo, oldest first, until a new action is made. */
+  private redoMoves: ActionLogEntry[] = [];
 
   constructor(
-    playerTypes: [PlayerType, PlayerType, PlayerType, PlayerType] = ['ai', 'ai', 'ai', 'ai'],
+    playerTypes: PerSeat<PlayerType> = ['ai', 'ai', 'ai', 'ai'],
     prevailingWind: Wind = 'east',
     initialState?: GameState,
   ) {
     this.state = initialState ?? createGame(playerTypes, prevailingWind);
+    this.strategies = defaultStrategies(this.state);
     this.emit({ type: 'gameStarted', state: this.state });
   }
 
+  /** Register the strategy that plays a seat from now on. */
+  setStrategy(seat: number, strategy: PlayerStrategy): void {
+    if (seat < 0 || seat >= this.strategies.length) throw new Error(`No seat ${seat} at this table`);
+    this.strategies[seat] = strategy;
+  }
+
   /** Subscribe to game events. Returns an unsubscribe function. */
   on(listener: EventListener): () => void {
     this.listeners.push(listener);
@@ -1235,6 +1301,15 @@ export class GameController {
     };
   }
 
+  /** Move to a state. Moving on from a human decision makes it an undo point. */
+  private setState(state: GameState): void {
+    if (this.checkInvariants) assertValidGameState(state);
+    if (state.actionLog.length > this.state.actionLog.length && isExternalDecision(this.state, this.strategies)) {
+      this.undoPoints.push(this.state);
+    }
+    this.state = state;
+  }
+
   private emit(event: GameEvent): void {
     for (const fn of this.listeners) fn(event);
   }
@@ -1243,9 +1318,10 @@ export class GameController {
     for (const e of events) this.emit(e);
   }
 
-  /** Apply an action result — update state and emit events. */
+  /** Apply an action result — update state and emit events. A new action clears redo. */
   private apply(result: { state: GameState; events: GameEvent[] }): void {
-    this.state = result.state;
+    this.setState(result.state);
+    this.redoMoves = [];
     this.emitAll(result.events);
   }
 
@@ -1273,6 +1349,10 @@ export class GameController {
     this.apply(claimWin(this.state, playerIndex));
   }
 
+  claimWins(playerIndices: number[]): void {
+    this.apply(claimWins(this.state, playerIndices));
+  }
+
   passClaim(): void {
     this.apply(passClaim(this.state));
   }
@@ -1310,12 +1390,12 @@ export class GameController {
   }
 
   /**
-   * Advance the game — auto-plays AI turns.
+   * Advance the game — plays every seat through its strategy.
    * Pauses when a human player needs to act, or the game is over.
    */
   async advance(): Promise<void> {
-    const result = await advanceGame(this.state);
-    this.state = result.state;
+    const result = await advanceGame(this.state, this.strategies);
+    this.setState(result.state);
     this.emitAll(result.allEvents);
   }
 
@@ -1324,9 +1404,47 @@ export class GameController {
    * Returns the events from this step and whether the loop is done.
    */
   async step(): Promise<{ events: GameEvent[]; done: boolean }> {
-    const result = await stepGame(this.state);
-    this.state = result.state;
+    const result = await stepGame(this.state, this.strategies);
+    this.setState(result.state);
     this.emitAll(result.events);
     return { events: result.events, done: result.done };
   }
+
+  // --- Undo / redo (local practice games) ---
+
+  /** Whether there is an earlier human decision to go back to. */
+  get canUndo(): boolean {
+    return this.undoPoints.length > 0;
+  }
+
+  /** Whether undone moves can be replayed. */
+  get canRedo(): boolean {
+    return this.redoMoves.length > 0;
+  }
+
+  /**
+   * Take back the last human decision, and the AI turns that followed it:
+   * the round goes back to the previous point where a human had to decide.
+   * Returns false if there is nothing to undo.
+   */
+  undo(): boolean {
+    const target = this.undoPoints.pop();
+    if (!target) return false;
+
+    this.redoMoves = [...this.state.actionLog.slice(target.actionLog.length), ...this.redoMoves];
+    this.setState(target);
+    return true;
+  }
+
+  /**
+   * Replay the undone human decision and the AI turns that followed it, up to
+   * the next human decision. Returns false if there is nothing to redo.
+   */
+  redo(): boolean {
+    if (this.redoMoves.length === 0) return false;
+    do {
+      this.setState(applyLoggedMove(this.state, this.redoMoves.shift()!).state);
+    } while (this.redoMoves.length > 0 && !isExternalDecision(this.state, this.strategies));
+    return true;
+  }
 }
@@ -7,10 +7,16 @@
  *   - Thirteen Orphans: one of each terminal/honor + one duplicate
  *
  * Bonus tiles must be removed before parsing (they are set aside during play).
+ * Melds already declared at the table can be passed separately, so that only
+ * the concealed tiles are decomposed and the declared sets are kept as they are.
+ *
+ * Also answers which tiles a 13-tile hand is waiting on, and how many
+ * copies of each are still unseen from a player's seat.
  */
 
-import { Tile, tileKey, TileNumber, NumberedSuit } from './tiles';
+import { Tile, tileKey, TileNumber, NumberedSuit, TILE_KINDS } from './tiles';
 import { MeldedSet } from './scoring';
+import { GameState } from './game-types';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -28,6 +34,19 @@ export interface ParseResult {
   thirteenOrphans: boolean;
 }
 
+export interface WaitingTile {
+  /** A tile that would complete the hand. */
+  tile: Tile;
+  /** Copies not yet visible to the player (of 4). */
+  unseen: number;
+}
+
+/** A seat at the table, for counting which tiles that player can see. */
+export interface TableView {
+  state: GameState;
+  playerIndex: number;
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -224,23 +243,33 @@ function findDecompositions(
  * Rejects hands containing bonus tiles.
  */
 export function parseHand(tiles: Tile[]): ParseResult {
+  return parseHandWithMelds(tiles, []);
+}
+
+/**
+ * Parse a hand whose declared melds are fixed: only the concealed tiles are
+ * decomposed, and every decomposition starts with `fixedMelds` unchanged.
+ * Concealed tiles plus 3 per fixed meld (kongs included) must make 14.
+ * Seven Pairs and Thirteen Orphans need a hand with no declared melds.
+ */
+export function parseHandWithMelds(concealedTiles: Tile[], fixedMelds: MeldedSet[]): ParseResult {
   // Validate: exactly 14 tiles, no bonus tiles
-  if (tiles.length !== 14) {
+  if (concealedTiles.length + 3 * fixedMelds.length !== 14) {
     return { valid: false, decompositions: [], sevenPairs: false, thirteenOrphans: false };
   }
-  if (tiles.some(t => t.isBonus)) {
+  if (concealedTiles.some(t => t.isBonus)) {
     return { valid: false, decompositions: [], sevenPairs: false, thirteenOrphans: false };
   }
 
-  const counts = tilesToCounts(tiles);
-  const tileMap = groupTiles(tiles);
+  const counts = tilesToCounts(concealedTiles);
+  const tileMap = groupTiles(concealedTiles);
 
-  const sevenPairs = checkSevenPairs(counts);
-  const thirteenOrphans = checkThirteenOrphans(counts);
+  const sevenPairs = fixedMelds.length === 0 && checkSevenPairs(counts);
+  const thirteenOrphans = fixedMelds.length === 0 && checkThirteenOrphans(counts);
 
   // Standard decomposition (4 sets + 1 pair)
   const decompositions: ParsedHand[] = [];
-  findDecompositions(counts, [], tileMap, decompositions, false);
+  findDecompositions(counts, [...fixedMelds], tileMap, decompositions, false);
 
   const valid = decompositions.length > 0 || sevenPairs || thirteenOrphans;
 
@@ -251,3 +280,71 @@ export function parseHand(tiles: Tile[]): ParseResult {
 export function isWinningHand(tiles: Tile[]): boolean {
   return parseHand(tiles).valid;
 }
+
+// ---------------------------------------------------------------------------
+// Waiting Tiles
+// ---------------------------------------------------------------------------
+
+/**
+ * Count how many copies of each tile kind are still unseen.
+ * Always subtracts the player's own hand and melds; with a view it also
+ * subtracts every discard and the other players' exposed melds, and counts
+ * no copies of kinds the view's rules take out of the set.
+ * Other players' concealed kongs stay hidden.
+ */
+export function countUnseenTiles(
+  handTiles: Tile[],
+  openMelds: MeldedSet[],
+  view?: TableView,
+): Map<string, number> {
+  const unseen = new Map<string, number>();
+  for (const kind of TILE_KINDS) unseen.set(tileKey(kind), 4);
+  for (const k of view?.state.rules.removedTiles ?? []) unseen.set(k, 0);
+
+  const seen: Tile[] = [...handTiles, ...openMelds.flatMap(m => m.tiles)];
+  if (view) {
+    view.state.players.forEach((player, i) => {
+      seen.push(...player.discards);
+      if (i === view.playerIndex) return;
+      for (const meld of player.openMelds) {
+        if (!meld.concealed) seen.push(...meld.tiles);
+      }
+    });
+  }
+
+  for (const t of seen) {
+    const k = tileKey(t);
+    const c = unseen.get(k);
+    if (c !== undefined) unseen.set(k, Math.max(c - 1, 0));
+  }
+  return unseen;
+}
+
+/**
+ * List the tiles that would complete a hand of concealed tiles plus open
+ * melds (13 tiles in total, counting a kong as 3). Pass a view to count
+ * unseen copies from that player's seat; without one only the hand itself
+ * is subtracted. A tile the player already holds all four of is not a wait,
+ * nor is one the view's rules remove from the set.
+ */
+export function getWaitingTiles(
+  handTiles: Tile[],
+  openMelds: MeldedSet[],
+  view?: TableView,
+): WaitingTile[] {
+  if (handTiles.length + 3 * openMelds.length !== 13) return [];
+
+  const own = countUnseenTiles(handTiles, openMelds);
+  const unseen = view ? countUnseenTiles(handTiles, openMelds, view) : own;
+  const removed = new Set(view?.state.rules.removedTiles);
+  const waits: WaitingTile[] = [];
+
+  for (const kind of TILE_KINDS) {
+    const k = tileKey(kind);
+    if (own.get(k) === 0 || removed.has(k)) continue;
+    if (parseHandWithMelds([...handTiles, kind], openMelds).valid) {
+      waits.push({ tile: kind, unseen: unseen.get(k)! });
+    }
+  }
+  return waits;
+}
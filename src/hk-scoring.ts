@@ -0,0 +1,208 @@
+/**
+ * Hong Kong Old Style Scoring
+ *
+ * The second scoring system, used when a RuleSet's scoringSystem is
+ * 'hongKongOldStyle' (see HONG_KONG_OLD_STYLE_RULES). Hands are parsed and
+ * played exactly as in the Singapore game; only their value differs:
+ * faan (番) per pattern, the Hong Kong limit hands, and payments read from
+ * a table of points per faan instead of straight doubling.
+ *
+ * Results share the ScoringResult shape of scoreHand, with faan in the
+ * `tai` fields, so win checks, minimums and payments handle both systems.
+ * The rule set's limitTai, chickenHandTai and minimumTai count faan.
+ */
+
+import { Tile, tileKey } from './tiles';
+import {
+  WinningHand,
+  ScoringDetail,
+  ScoringResult,
+  SEAT_FLOWERS,
+  SEAT_SEASONS,
+  CHICKEN_HAND,
+  checkLimitHand,
+  isNumberedSuit,
+  isPungLike,
+} from './scoring';
+import { RuleSet, HONG_KONG_OLD_STYLE_RULES } from './rules';
+import { PaymentConfig } from './game-types';
+
+// ---------------------------------------------------------------------------
+// Faan and Payment Tables
+// ---------------------------------------------------------------------------
+
+/** Faan for each non-limit pattern. */
+export const HK_FAAN = {
+  /** Flower or season of the player's seat (正花), each. */
+  seatFlower: 1,
+  /** All four flowers or all four seasons (一台花), each set. */
+  completeFlowers: 2,
+  /** No flowers or seasons at all (無花). */
+  noFlowers: 1,
+  dragonPung: 1,
+  seatWindPung: 1,
+  prevailingWindPung: 1,
+  /** Four chows and a pair that would not score as a pung (平糊). */
+  allChows: 1,
+  /** No melds claimed from a discard (門前清). */
+  concealedHand: 1,
+  selfDrawn: 1,
+  /** Only terminals and honours (混么九). */
+  mixedTerminals: 1,
+  allPungs: 3,
+  halfFlush: 3,
+  smallThreeDragons: 5,
+  sevenPairs: 4,
+  pureHand: 7,
+  /** Win on the last wall tile (海底撈月). */
+  lastTile: 1,
+  /** Win on a kong replacement (槓上開花). */
+  kongReplacement: 1,
+  /** Win by robbing a kong (搶槓). */
+  robbingKong: 1,
+};
+
+/**
+ * Points per loser for 0, 1, 2, ... faan: doubling to 4 faan, then half
+ * steps (半辣上). Hands above the rule set's limit are paid at the limit.
+ */
+export const HK_PAYMENT_TABLE = [1, 2, 4, 8, 16, 24, 32, 48, 64, 96, 128, 192, 256, 384];
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+/** Seat flowers and seasons, complete sets, or a hand without any. */
+function scoreFlowers(bonus: Tile[], seatWind: WinningHand['seatWind']): ScoringDetail[] {
+  const flowers = bonus.filter(t => t.suit === 'flowers');
+  const seasons = bonus.filter(t => t.suit === 'seasons');
+  if (flowers.length === 0 && seasons.length === 0) {
+    return [{ name: 'No Flowers', tai: HK_FAAN.noFlowers }];
+  }
+
+  const details: ScoringDetail[] = [];
+  if (flowers.length === 4) {
+    details.push({ name: 'Complete Flowers', tai: HK_FAAN.completeFlowers, bonus: true });
+  } else {
+    const seatFlower = flowers.find(t => t.value === SEAT_FLOWERS[seatWind]);
+    if (seatFlower) details.push({ name: `Seat Flower (${seatFlower.name})`, tai: HK_FAAN.seatFlower, bonus: true });
+  }
+  if (seasons.length === 4) {
+    details.push({ name: 'Complete Seasons', tai: HK_FAAN.completeFlowers, bonus: true });
+  } else {
+    const seatSeason = seasons.find(t => t.value === SEAT_SEASONS[seatWind]);
+    if (seatSeason) details.push({ name: `Seat Season (${seatSeason.name})`, tai: HK_FAAN.seatFlower, bonus: true });
+  }
+  return details;
+}
+
+/** Dragon and wind pungs. */
+function scoreHonorPungs(hand: WinningHand): ScoringDetail[] {
+  const details: ScoringDetail[] = [];
+  for (const meld of hand.melds.filter(isPungLike)) {
+    const rep = meld.tiles[0];
+    if (rep.suit === 'dragons') details.push({ name: `Pung of ${rep.name}`, tai: HK_FAAN.dragonPung });
+    if (rep.suit === 'winds' && rep.value === hand.seatWind) {
+      details.push({ name: `Pung of Seat Wind (${rep.value})`, tai: HK_FAAN.seatWindPung });
+    }
+    if (rep.suit === 'winds' && rep.value === hand.prevailingWind) {
+      details.push({ name: `Pung of Prevailing Wind (${rep.value})`, tai: HK_FAAN.prevailingWindPung });
+    }
+  }
+  return details;
+}
+
+/** Whole-hand patterns and the circumstances of the win. */
+function scorePatterns(hand: WinningHand): ScoringDetail[] {
+  const details: ScoringDetail[] = [];
+  const tiles = hand.handTiles;
+  const suits = new Set(tiles.map(t => t.suit).filter(isNumberedSuit));
+  const honors = tiles.some(t => t.isHonor);
+
+  if (suits.size === 1 && !honors) details.push({ name: 'Pure Hand', tai: HK_FAAN.pureHand });
+  if (suits.size === 1 && honors) details.push({ name: 'Half Flush', tai: HK_FAAN.halfFlush });
+  if (tiles.every(t => t.isTerminal || t.isHonor)) {
+    details.push({ name: 'Mixed Terminals', tai: HK_FAAN.mixedTerminals });
+  }
+
+  if (hand.melds.length === 4 && hand.melds.every(isPungLike)) {
+    details.push({ name: 'All Pungs', tai: HK_FAAN.allPungs });
+  }
+  const pairTile = hand.pair[0];
+  const valuePair = pairTile && (pairTile.suit === 'dragons'
+    || (pairTile.suit === 'winds' && (pairTile.value === hand.seatWind || pairTile.value === hand.prevailingWind)));
+  if (hand.melds.length === 4 && hand.melds.every(m => m.type === 'chow') && pairTile && !valuePair) {
+    details.push({ name: 'All Chows', tai: HK_FAAN.allChows });
+  }
+
+  const dragonPungs = hand.melds.filter(m => isPungLike(m) && m.tiles[0].suit === 'dragons');
+  if (dragonPungs.length === 2 && pairTile?.suit === 'dragons') {
+    details.push({ name: 'Small Three Dragons', tai: HK_FAAN.smallThreeDragons });
+  }
+  const counts = new Map<string, number>();
+  for (const t of tiles) counts.set(tileKey(t), (counts.get(tileKey(t)) ?? 0) + 1);
+  if (counts.size === 7 && [...counts.values()].every(c => c === 2)) {
+    details.push({ name: 'Seven Pairs', tai: HK_FAAN.sevenPairs });
+  }
+
+  if (hand.melds.every(m => m.concealed)) details.push({ name: 'Concealed Hand', tai: HK_FAAN.concealedHand });
+  if (hand.selfDrawn) details.push({ name: 'Self-Drawn', tai: HK_FAAN.selfDrawn });
+  if (hand.lastTile) details.push({ name: 'Win on Last Tile', tai: HK_FAAN.lastTile });
+  if (hand.kongReplacement) details.push({ name: 'Win on Kong Replacement', tai: HK_FAAN.kongReplacement });
+  if (hand.robbedKong) details.push({ name: 'Robbing the Kong', tai: HK_FAAN.robbingKong });
+  return details;
+}
+
+/**
+ * Hong Kong limit hands: the limits shared with Singapore scoring, plus
+ * All Kongs (十八羅漢).
+ */
+function checkHongKongLimit(hand: WinningHand, limitFaan: number): ScoringDetail | null {
+  const limit = checkLimitHand(hand, limitFaan);
+  if (limit) return limit;
+  if (hand.melds.length === 4 && hand.melds.every(m => m.type === 'kong')) {
+    return { name: 'All Kongs', tai: limitFaan };
+  }
+  return null;
+}
+
+/**
+ * Score a winning hand in faan. Limit hands score the rule set's limit, and
+ * so does any hand whose faan reach it. A hand with nothing else scores
+ * the rule set's chicken-hand faan (none in Hong Kong Old Style).
+ */
+export function scoreHongKongHand(hand: WinningHand, rules: RuleSet = HONG_KONG_OLD_STYLE_RULES): ScoringResult {
+  const limit = checkHongKongLimit(hand, rules.limitTai);
+  if (limit) return { tai: limit.tai, details: [limit] };
+
+  const details = [
+    ...scoreFlowers(hand.bonusTiles, hand.seatWind),
+    ...scoreHonorPungs(hand),
+    ...scorePatterns(hand),
+  ];
+  const faan = details.reduce((sum, d) => sum + d.tai, 0);
+
+  if (faan === 0 && rules.chickenHandTai > 0) {
+    details.push({ name: CHICKEN_HAND, tai: rules.chickenHandTai });
+    return { tai: rules.chickenHandTai, details };
+  }
+  return { tai: Math.min(faan, rules.limitTai), details };
+}
+
+// ---------------------------------------------------------------------------
+// Payments
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert faan to the amount per loser: base × the payment table's points
+ * for that faan, at most the rule set's limit. The payment config's taiCap
+ * does not apply; the limit is the cap.
+ */
+export function faanToAmount(
+  faan: number,
+  config: PaymentConfig,
+  rules: RuleSet = HONG_KONG_OLD_STYLE_RULES,
+): number {
+  const top = Math.min(rules.limitTai, HK_PAYMENT_TABLE.length - 1);
+  return config.base * HK_PAYMENT_TABLE[Math.min(Math.max(faan, 0), top)];
+}
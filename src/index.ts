@@ -4,10 +4,16 @@
 
 export * from './tiles';
 export * from './scoring';
+export * from './hk-scoring';
 export * from './wall';
 export * from './hand-parser';
 export * from './game-types';
 export * from './game';
 export * from './ai';
+export * from './strategy';
 export * from './payments';
 export * from './game-session';
+export * from './game-record';
+export * from './round-log';
+export * from './persistence';
+export * from './state-check';
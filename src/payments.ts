@@ -4,13 +4,47 @@
  * Standard SG tournament doubling table:
  *   1 tai = base, 2 tai = 2×base, 3 tai = 4×base, ...
  *   Formula: base × 2^(tai-1), capped at taiCap.
+ *   The multiplier comes from the RuleSet (taiMultiplier).
  *
- * Self-draw (zi mo): all 3 losers pay the winner.
- * Discard win + shooter-pays: discarder pays full 3× amount.
- * Draw: no payments.
+ * Self-draw (zi mo): every loser pays the winner (3 of them, or 2 at a
+ * three-player table).
+ * Discard win + shooter-pays: discarder pays for every loser.
+ * Several winners on one discard: the discarder pays each winner in full.
+ * Responsibility (包): whoever fed the decisive meld of Big Three Dragons,
+ * Big Four Winds or a full flush pays the whole hand alone.
+ * Dealer streak (连庄): a dealer winning on a streak may earn extra tai and
+ * a payment multiplier, as the RuleSet allows.
+ * Draw: no hand payments.
+ * Animal pairs ("bites") and kongs (杠钱) are paid by every other player,
+ * win or draw.
+ *
+ * Under Hong Kong Old Style rules the amount per loser comes from the faan
+ * table (faanToAmount) and the discarder or a self-draw pays double: every
+ * loser pays 2× on a self-draw; on a discard the discarder pays 2× and the
+ * others 1× (half shooter, 半銃), or the discarder pays all of it when
+ * shooterPays is set. Kongs are not paid for.
  */
 
-import { GameResult, PaymentConfig, PaymentResult } from './game-types';
+import {
+  PerSeat,
+  GameResult,
+  WinnerResult,
+  PaymentConfig,
+  PaymentResult,
+  InstantPayment,
+} from './game-types';
+import { RuleSet, SINGAPORE_STANDARD_RULES } from './rules';
+import { faanToAmount } from './hk-scoring';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The dealer and how many rounds in a row they have kept the deal. */
+export interface DealerStreak {
+  dealerIndex: number;
+  streak: number;
+}
 
 // ---------------------------------------------------------------------------
 // Default Config
@@ -20,67 +54,206 @@ export const DEFAULT_PAYMENT_CONFIG: PaymentConfig = {
   base: 0.20,
   taiCap: 5,
   shooterPays: true,
+  animalPairTai: 1,
+  exposedKongTai: 1,
+  concealedKongTai: 2,
 };
 
 // ---------------------------------------------------------------------------
 // Payment Calculation
 // ---------------------------------------------------------------------------
 
+/** Zeroed deltas, one per seat of the rules. */
+function emptyDeltas(rules: RuleSet): PerSeat<number> {
+  return new Array(rules.seats).fill(0) as PerSeat<number>;
+}
+
+/** Deltas for a payment every other player makes to one player. */
+function paidByEveryone(playerIndex: number, amount: number, rules: RuleSet): PerSeat<number> {
+  const deltas = emptyDeltas(rules);
+  for (let i = 0; i < deltas.length; i++) {
+    deltas[i] = i === playerIndex ? amount * (rules.seats - 1) : -amount;
+  }
+  return deltas;
+}
+
 /**
  * Convert a tai count to a dollar amount per loser.
- * Uses doubling: base × 2^(effectiveTai - 1), capped at taiCap.
+ * Uses doubling: base × taiMultiplier^(effectiveTai - 1), capped at taiCap.
  */
-export function taiToAmount(tai: number, config: PaymentConfig): number {
+export function taiToAmount(
+  tai: number,
+  config: PaymentConfig,
+  rules: RuleSet = SINGAPORE_STANDARD_RULES,
+): number {
   const effectiveTai = Math.min(Math.max(tai, 1), config.taiCap);
-  return config.base * Math.pow(2, effectiveTai - 1);
+  return config.base * Math.pow(rules.taiMultiplier, effectiveTai - 1);
+}
+
+/** The amount per loser for a hand's score under the rule set's scoring system. */
+function handAmount(score: number, config: PaymentConfig, rules: RuleSet): number {
+  return rules.scoringSystem === 'hongKongOldStyle'
+    ? faanToAmount(score, config, rules)
+    : taiToAmount(score, config, rules);
+}
+
+/**
+ * What each loser owes a winner when everyone pays: the per-loser amount,
+ * doubled under Hong Kong rules for the discarder, or for everyone on a
+ * self-draw. Zero for the winner.
+ */
+function loserShares(
+  winnerIdx: number,
+  discarderIdx: number | undefined,
+  amount: number,
+  rules: RuleSet,
+): PerSeat<number> {
+  const shares = emptyDeltas(rules);
+  const hongKong = rules.scoringSystem === 'hongKongOldStyle';
+  for (let i = 0; i < shares.length; i++) {
+    if (i === winnerIdx) continue;
+    shares[i] = hongKong && (discarderIdx === undefined || i === discarderIdx) ? 2 * amount : amount;
+  }
+  return shares;
+}
+
+/**
+ * List the winners of a round, nearest the discarder first.
+ * Empty for a draw.
+ */
+export function getWinners(result: GameResult): WinnerResult[] {
+  if (result.winners) return result.winners;
+  if (result.type !== 'win' || result.winnerIndex === undefined || !result.scoring) return [];
+  return [{
+    winnerIndex: result.winnerIndex,
+    winningHand: result.winningHand!,
+    scoring: result.scoring,
+    responsibility: result.responsibility,
+  }];
+}
+
+/**
+ * Calculate the instant payments for animal pairs earned during the round.
+ * Each other player pays the holder the amount for `animalPairTai`.
+ */
+export function calculateBonusPayments(
+  result: GameResult,
+  config: PaymentConfig,
+  rules: RuleSet = SINGAPORE_STANDARD_RULES,
+): InstantPayment[] {
+  const pairTai = config.animalPairTai ?? 1;
+  const amount = taiToAmount(pairTai, config, rules);
+
+  return (result.bonusPayouts ?? []).map(payout => ({
+    name: payout.name,
+    playerIndex: payout.playerIndex,
+    deltas: paidByEveryone(payout.playerIndex, amount, rules),
+  }));
+}
+
+/**
+ * Calculate the instant payments for kongs standing at the end of the round.
+ * Each other player pays the declarer the amount for `exposedKongTai` or
+ * `concealedKongTai`. A tai value of 0 disables that payment. Hong Kong
+ * rules have no kong payments.
+ */
+export function calculateKongPayments(
+  result: GameResult,
+  config: PaymentConfig,
+  rules: RuleSet = SINGAPORE_STANDARD_RULES,
+): InstantPayment[] {
+  const payments: InstantPayment[] = [];
+  if (rules.scoringSystem === 'hongKongOldStyle') return payments;
+
+  for (const kong of result.kongPayouts ?? []) {
+    const kongTai = kong.concealed
+      ? config.concealedKongTai ?? 2
+      : config.exposedKongTai ?? 1;
+    if (kongTai <= 0) continue;
+
+    const amount = taiToAmount(kongTai, config, rules);
+    payments.push({
+      name: kong.concealed ? 'Concealed Kong' : 'Exposed Kong',
+      playerIndex: kong.playerIndex,
+      deltas: paidByEveryone(kong.playerIndex, amount, rules),
+    });
+  }
+
+  return payments;
 }
 
 /**
  * Calculate payment deltas for a completed round.
  *
- * - Win by self-draw: all 3 losers each pay the winner.
- * - Win by discard + shooterPays: discarder pays 3× per-loser amount.
+ * - Win by self-draw: every loser pays the winner.
+ * - Win by discard + shooterPays: discarder pays the per-loser amount for
+ *   every loser (3×, or 2× at a three-player table).
  * - Win by discard + !shooterPays: discarder pays 1× per-loser amount.
- * - Draw: no payments.
+ * - Several winners on one discard: the discarder pays each winner as above.
+ * - Responsibility (包, if the rules allow): the responsible player pays
+ *   for every loser in place of everyone else.
+ * - Hong Kong rules: the amount is read from the faan table, the discarder
+ *   (or everyone, on a self-draw) pays double, and without shooterPays
+ *   the other losers pay their single share too.
+ * - Dealer streak: a winning dealer adds `dealerStreakTai` per streak round
+ *   and multiplies by `dealerStreakMultiplier` per streak round.
+ * - Draw: no hand payments.
+ * - Instant payments (animal pairs, kongs) are added on top, win or draw.
  *
  * Returns deltas that always sum to zero.
  */
 export function calculatePayments(
   result: GameResult,
   config: PaymentConfig,
+  rules: RuleSet = SINGAPORE_STANDARD_RULES,
+  dealerStreak?: DealerStreak,
 ): PaymentResult {
-  const deltas: [number, number, number, number] = [0, 0, 0, 0];
+  const deltas = emptyDeltas(rules);
+  const instantPayments = [
+    ...calculateBonusPayments(result, config, rules),
+    ...calculateKongPayments(result, config, rules),
+  ];
+  let perLoserAmount = 0;
+  let winnerTotal = 0;
 
-  if (result.type === 'draw' || result.winnerIndex === undefined || !result.scoring) {
-    return { deltas, perLoserAmount: 0, winnerTotal: 0 };
-  }
+  getWinners(result).forEach((winner, n) => {
+    const winnerIdx = winner.winnerIndex;
+    const streak = dealerStreak?.dealerIndex === winnerIdx ? dealerStreak.streak : 0;
+    const tai = winner.scoring.tai + streak * rules.dealerStreakTai;
+    const amount = handAmount(tai, config, rules) * Math.pow(rules.dealerStreakMultiplier, streak);
+    const isSelfDrawn = result.loserIndex === undefined;
+    const shares = loserShares(winnerIdx, result.loserIndex, amount, rules);
+    const fullTotal = shares.reduce((sum, share) => sum + share, 0);
+    let total: number;
 
-  const tai = result.scoring.tai;
-  const perLoserAmount = taiToAmount(tai, config);
-  const winnerIdx = result.winnerIndex;
-  const isSelfDrawn = result.loserIndex === undefined;
-
-  if (isSelfDrawn) {
-    // Self-draw: each of the 3 other players pays
-    for (let i = 0; i < 4; i++) {
-      if (i === winnerIdx) {
-        deltas[i] = perLoserAmount * 3;
-      } else {
-        deltas[i] = -perLoserAmount;
-      }
+    if (winner.responsibility && rules.responsibilityPayments) {
+      // The player who fed the decisive meld pays for everyone
+      total = fullTotal;
+      deltas[winner.responsibility.playerIndex] -= total;
+    } else if (isSelfDrawn || (!config.shooterPays && rules.scoringSystem === 'hongKongOldStyle')) {
+      // Self-draw, or a Hong Kong half shooter: each of the other players pays their share
+      for (let i = 0; i < deltas.length; i++) deltas[i] -= shares[i];
+      total = fullTotal;
+    } else if (config.shooterPays) {
+      // Shooter pays for all losers
+      total = fullTotal;
+      deltas[result.loserIndex!] -= total;
+    } else {
+      // Only discarder pays their share
+      total = amount;
+      deltas[result.loserIndex!] -= total;
     }
-  } else if (config.shooterPays) {
-    // Shooter pays for all 3 losers
-    const shooterIdx = result.loserIndex!;
-    deltas[winnerIdx] = perLoserAmount * 3;
-    deltas[shooterIdx] = -perLoserAmount * 3;
-  } else {
-    // Only discarder pays their share
-    const shooterIdx = result.loserIndex!;
-    deltas[winnerIdx] = perLoserAmount;
-    deltas[shooterIdx] = -perLoserAmount;
+    deltas[winnerIdx] += total;
+
+    if (n === 0) {
+      perLoserAmount = amount;
+      winnerTotal = total;
+    }
+  });
+
+  for (const payment of instantPayments) {
+    for (let i = 0; i < deltas.length; i++) deltas[i] += payment.deltas[i];
   }
 
-  const winnerTotal = deltas[winnerIdx];
-  return { deltas, perLoserAmount, winnerTotal };
+  return { deltas, perLoserAmount, winnerTotal, instantPayments };
 }
@@ -0,0 +1,537 @@
+/**
+ * Saved Games and Sessions for Singapore Mahjong
+ *
+ * serializeGame/serializeSession wrap a GameState or SessionState in a
+ * versioned envelope so it can be stored and loaded by a later release.
+ * Loading runs the save through each migration from its version up to
+ * SAVE_VERSION, then checks every field strictly: a save that is corrupt,
+ * hand-edited into an impossible shape, or written by a newer release is
+ * rejected rather than loaded half-broken.
+ *
+ * When GameState or SessionState gains a field, bump SAVE_VERSION and add
+ * a migration from the previous version that fills it in for older saves.
+ */
+
+import { Tile, Wind, ALL_TILES } from './tiles';
+import { RuleSet, SINGAPORE_STANDARD_RULES, createRuleSet } from './rules';
+import { GameState, SessionState, GameMove } from './game-types';
+import { DEFAULT_PAYMENT_CONFIG } from './payments';
+import { randomSeed } from './random';
+
+// ---------------------------------------------------------------------------
+// Format
+// ---------------------------------------------------------------------------
+
+/** Current version of the saved game and saved session formats. */
+export const SAVE_VERSION = 3;
+
+export interface SavedGame {
+  format: 'sg-mahjong/game-state';
+  version: number;
+  state: GameState;
+}
+
+export interface SavedSession {
+  format: 'sg-mahjong/session-state';
+  version: number;
+  session: SessionState;
+}
+
+/** Upgrades a save's contents by one version. */
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+const WINDS: Wind[] = ['east', 'south', 'west', 'north'];
+
+const PHASES: GameState['phase'][] = ['draw', 'postDraw', 'discard', 'claimWindow', 'roundOver'];
+
+const MOVE_TYPES: GameMove['type'][] = [
+  'draw', 'discard', 'declareKong', 'promotePungToKong', 'declareSelfWin',
+  'claimPong', 'claimChow', 'claimKong', 'claimWin', 'pass',
+];
+
+const TILES_BY_ID = new Map(ALL_TILES.map(t => [t.id, t]));
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+/**
+ * Version 0 is a bare GameState saved before saves were versioned. Fields
+ * added since then get the values a fresh round would have. The seed is
+ * unknown, so such a round cannot be replayed. Melds without provenance
+ * (claimedFrom) load as they are and charge no responsibility payments.
+ */
+function migrateLegacyGame(state: Record<string, unknown>): Record<string, unknown> {
+  return {
+    ...state,
+    rules: createRuleSet(isObject(state.rules) ? state.rules : {}),
+    seed: state.seed ?? 0,
+    robbingKong: state.robbingKong ?? false,
+    kongReplacementDraw: state.kongReplacementDraw ?? false,
+    bonusPayouts: state.bonusPayouts ?? [],
+    actionLog: state.actionLog ?? [],
+  };
+}
+
+/**
+ * Version 0 is a bare SessionState. A session without a seed gets a fresh
+ * one for the rounds still to be dealt; finished rounds keep no seed.
+ */
+function migrateLegacySession(session: Record<string, unknown>): Record<string, unknown> {
+  const config = isObject(session.config) ? session.config : {};
+  return {
+    ...session,
+    config: {
+      ...config,
+      payment: { ...DEFAULT_PAYMENT_CONFIG, ...(isObject(config.payment) ? config.payment : {}) },
+      rules: createRuleSet(isObject(config.rules) ? config.rules : {}),
+      seed: config.seed ?? randomSeed(),
+    },
+    rounds: Array.isArray(session.rounds)
+      ? session.rounds.map(r => (isObject(r) ? { dealerStreak: 0, ...r } : r))
+      : session.rounds,
+    dealerStreak: session.dealerStreak ?? 0,
+    currentRound: isObject(session.currentRound)
+      ? migrateLegacyGame(session.currentRound)
+      : session.currentRound,
+  };
+}
+
+/**
+ * Fill in rule values added since a save was written, at their standard
+ * values: version 1 rules predate the three-player variant (four seats, the
+ * full set), version 2 rules predate Hong Kong scoring (Singapore scoring).
+ */
+function withRuleDefaults(value: unknown): unknown {
+  return isObject(value) && isObject(value.rules) ? { ...value, rules: createRuleSet(value.rules) } : value;
+}
+
+function migrateGameRules(state: Record<string, unknown>): Record<string, unknown> {
+  return withRuleDefaults(state) as Record<string, unknown>;
+}
+
+function migrateSessionRules(session: Record<string, unknown>): Record<string, unknown> {
+  return {
+    ...session,
+    config: withRuleDefaults(session.config),
+    rounds: Array.isArray(session.rounds)
+      ? session.rounds.map(r => (isObject(r) ? { ...r, gameRecord: withRuleDefaults(r.gameRecord) } : r))
+      : session.rounds,
+    currentRound: withRuleDefaults(session.currentRound),
+  };
+}
+
+/** GAME_MIGRATIONS[v] upgrades a saved game from version v to v + 1. */
+const GAME_MIGRATIONS: Record<number, Migration> = {
+  0: migrateLegacyGame,
+  1: migrateGameRules,
+  2: migrateGameRules,
+};
+
+/** SESSION_MIGRATIONS[v] upgrades a saved session from version v to v + 1. */
+const SESSION_MIGRATIONS: Record<number, Migration> = {
+  0: migrateLegacySession,
+  1: migrateSessionRules,
+  2: migrateSessionRules,
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function invalid(message: string): never {
+  throw new Error(`Invalid save: ${message}`);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSeat(value: unknown, seats: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) < seats;
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function parseJson(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return invalid('not valid JSON');
+  }
+}
+
+/**
+ * Unwrap a save and migrate its contents to SAVE_VERSION. A bare state
+ * without an envelope is treated as version 0.
+ */
+function upgrade(
+  value: unknown,
+  format: string,
+  key: string,
+  migrations: Record<number, Migration>,
+): Record<string, unknown> {
+  if (!isObject(value)) invalid('not a JSON object');
+
+  let version: number;
+  let data: unknown;
+  if (value.format === undefined) {
+    version = 0;
+    data = value;
+  } else {
+    if (value.format !== format) invalid(`expected format '${format}', got ${JSON.stringify(value.format)}`);
+    if (!Number.isInteger(value.version) || (value.version as number) < 0) {
+      invalid(`bad version ${JSON.stringify(value.version)}`);
+    }
+    if ((value.version as number) > SAVE_VERSION) {
+      invalid(`version ${value.version} was saved by a newer release`);
+    }
+    version = value.version as number;
+    data = value[key];
+  }
+
+  if (!isObject(data)) invalid(`missing ${key}`);
+  for (let v = version; v < SAVE_VERSION; v++) {
+    const migrate = migrations[v];
+    if (!migrate) invalid(`no migration from version ${v}`);
+    data = migrate(data as Record<string, unknown>);
+  }
+  return data as Record<string, unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Strict field checks. Each takes the value and its path in the save
+ * (e.g. 'players[2].handTiles[0]') and throws on the first problem found.
+ */
+function fail(path: string, expected: string): never {
+  return invalid(`${path} must be ${expected}`);
+}
+
+function checkObject(value: unknown, path: string): Record<string, unknown> {
+  if (!isObject(value)) fail(path, 'an object');
+  return value;
+}
+
+function checkArray(value: unknown, path: string, length?: number): unknown[] {
+  if (!Array.isArray(value) || (length !== undefined && value.length !== length)) {
+    fail(path, length === undefined ? 'an array' : `an array of ${length}`);
+  }
+  return value;
+}
+
+function checkBoolean(value: unknown, path: string): void {
+  if (typeof value !== 'boolean') fail(path, 'true or false');
+}
+
+function checkNumber(value: unknown, path: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, 'a number');
+}
+
+function checkCount(value: unknown, path: string): void {
+  if (!isCount(value)) fail(path, 'a whole number');
+}
+
+/** A seat index at a table of `seats` players. */
+function checkSeat(value: unknown, path: string, seats: number): void {
+  if (!isSeat(value, seats)) fail(path, `a seat index 0-${seats - 1}`);
+}
+
+function checkString(value: unknown, path: string): void {
+  if (typeof value !== 'string') fail(path, 'a string');
+}
+
+function checkWind(value: unknown, path: string): void {
+  if (!WINDS.includes(value as Wind)) fail(path, 'a wind');
+}
+
+function checkOneOf(value: unknown, options: readonly unknown[], path: string): void {
+  if (!options.includes(value)) fail(path, `one of ${options.join(', ')}`);
+}
+
+/** A tile must match the standard tile with its id in every field. */
+function checkTile(value: unknown, path: string): void {
+  const fields = isObject(value) ? value : {};
+  const tile = typeof fields.id === 'string' ? TILES_BY_ID.get(fields.id) : undefined;
+  if (!tile || !(Object.keys(tile) as (keyof Tile)[]).every(k => fields[k] === tile[k])) {
+    fail(path, 'a valid tile');
+  }
+}
+
+function checkTiles(value: unknown, path: string): void {
+  checkArray(value, path).forEach((t, i) => checkTile(t, `${path}[${i}]`));
+}
+
+function checkPlayerTypes(value: unknown, path: string, seats: number): void {
+  checkArray(value, path, seats).forEach((t, i) => checkOneOf(t, ['human', 'ai'], `${path}[${i}]`));
+}
+
+function checkRules(value: unknown, path: string): RuleSet {
+  const rules = checkObject(value, path);
+  for (const [key, standard] of Object.entries(SINGAPORE_STANDARD_RULES)) {
+    if (key === 'tai') continue;
+    if (typeof rules[key] !== typeof standard) fail(`${path}.${key}`, `a ${typeof standard}`);
+  }
+  checkOneOf(rules.multipleWinRule, ['headBump', 'multiple'], `${path}.multipleWinRule`);
+  checkOneOf(rules.seats, [3, 4], `${path}.seats`);
+  checkOneOf(rules.scoringSystem, ['singapore', 'hongKongOldStyle'], `${path}.scoringSystem`);
+  checkArray(rules.removedTiles, `${path}.removedTiles`).forEach((k, i) => {
+    if (typeof k !== 'string') fail(`${path}.removedTiles[${i}]`, 'a tile kind');
+  });
+  const tai = checkObject(rules.tai, `${path}.tai`);
+  for (const key of Object.keys(SINGAPORE_STANDARD_RULES.tai)) {
+    checkNumber(tai[key], `${path}.tai.${key}`);
+  }
+  return rules as unknown as RuleSet;
+}
+
+function checkMeld(value: unknown, path: string, seats: number): void {
+  const meld = checkObject(value, path);
+  checkOneOf(meld.type, ['chow', 'pung', 'kong'], `${path}.type`);
+  checkTiles(meld.tiles, `${path}.tiles`);
+  checkBoolean(meld.concealed, `${path}.concealed`);
+  if (meld.claimedFrom !== undefined) checkSeat(meld.claimedFrom, `${path}.claimedFrom`, seats);
+}
+
+function checkPlayer(value: unknown, path: string, seats: number): void {
+  const player = checkObject(value, path);
+  checkWind(player.seat, `${path}.seat`);
+  checkOneOf(player.type, ['human', 'ai'], `${path}.type`);
+  checkTiles(player.handTiles, `${path}.handTiles`);
+  checkArray(player.openMelds, `${path}.openMelds`).forEach((m, i) => checkMeld(m, `${path}.openMelds[${i}]`, seats));
+  checkTiles(player.bonusTiles, `${path}.bonusTiles`);
+  checkTiles(player.discards, `${path}.discards`);
+}
+
+function checkLogEntry(value: unknown, path: string, seats: number): void {
+  const entry = checkObject(value, path);
+  checkSeat(entry.playerIndex, `${path}.playerIndex`, seats);
+  checkCount(entry.turnNumber, `${path}.turnNumber`);
+  const move = checkObject(entry.move, `${path}.move`);
+  checkOneOf(move.type, MOVE_TYPES, `${path}.move.type`);
+  if (move.tile !== undefined) checkTile(move.tile, `${path}.move.tile`);
+  if (move.tiles !== undefined) checkTiles(move.tiles, `${path}.move.tiles`);
+  if (move.chowTiles !== undefined) checkTiles(move.chowTiles, `${path}.move.chowTiles`);
+  if (entry.drawnTile !== undefined) checkTile(entry.drawnTile, `${path}.drawnTile`);
+  if (entry.claimants !== undefined) {
+    checkArray(entry.claimants, `${path}.claimants`).forEach((s, i) => checkSeat(s, `${path}.claimants[${i}]`, seats));
+  }
+}
+
+function checkScoring(value: unknown, path: string): void {
+  const scoring = checkObject(value, path);
+  checkNumber(scoring.tai, `${path}.tai`);
+  checkArray(scoring.details, `${path}.details`).forEach((d, i) => {
+    const detail = checkObject(d, `${path}.details[${i}]`);
+    checkString(detail.name, `${path}.details[${i}].name`);
+    checkNumber(detail.tai, `${path}.details[${i}].tai`);
+  });
+}
+
+function checkWinningHand(value: unknown, path: string, seats: number): void {
+  const hand = checkObject(value, path);
+  checkTiles(hand.handTiles, `${path}.handTiles`);
+  checkArray(hand.melds, `${path}.melds`).forEach((m, i) => checkMeld(m, `${path}.melds[${i}]`, seats));
+  checkTiles(hand.pair, `${path}.pair`);
+  checkTiles(hand.bonusTiles, `${path}.bonusTiles`);
+  checkWind(hand.seatWind, `${path}.seatWind`);
+  checkWind(hand.prevailingWind, `${path}.prevailingWind`);
+  checkBoolean(hand.selfDrawn, `${path}.selfDrawn`);
+}
+
+function checkResponsibility(value: unknown, path: string, seats: number): void {
+  const responsibility = checkObject(value, path);
+  checkSeat(responsibility.playerIndex, `${path}.playerIndex`, seats);
+  checkString(responsibility.pattern, `${path}.pattern`);
+}
+
+function checkBonusPayout(value: unknown, path: string, seats: number): void {
+  const payout = checkObject(value, path);
+  checkSeat(payout.playerIndex, `${path}.playerIndex`, seats);
+  checkString(payout.name, `${path}.name`);
+  checkTiles(payout.tiles, `${path}.tiles`);
+}
+
+function checkKongPayout(value: unknown, path: string, seats: number): void {
+  const payout = checkObject(value, path);
+  checkSeat(payout.playerIndex, `${path}.playerIndex`, seats);
+  checkBoolean(payout.concealed, `${path}.concealed`);
+  checkTiles(payout.tiles, `${path}.tiles`);
+}
+
+/** A win names its winner, hand and score; every seat index is at the table. */
+function checkResult(value: unknown, path: string, seats: number): void {
+  const result = checkObject(value, path);
+  checkOneOf(result.type, ['win', 'draw'], `${path}.type`);
+  if (result.drawReason !== undefined) {
+    checkOneOf(result.drawReason, ['wallExhausted', 'fourKongs', 'fourWinds'], `${path}.drawReason`);
+  }
+  if (result.type === 'win') {
+    checkSeat(result.winnerIndex, `${path}.winnerIndex`, seats);
+    checkWinningHand(result.winningHand, `${path}.winningHand`, seats);
+    checkScoring(result.scoring, `${path}.scoring`);
+  }
+  if (result.loserIndex !== undefined) checkSeat(result.loserIndex, `${path}.loserIndex`, seats);
+  if (result.responsibility !== undefined) {
+    checkResponsibility(result.responsibility, `${path}.responsibility`, seats);
+  }
+  if (result.bonusPayouts !== undefined) {
+    checkArray(result.bonusPayouts, `${path}.bonusPayouts`)
+      .forEach((b, i) => checkBonusPayout(b, `${path}.bonusPayouts[${i}]`, seats));
+  }
+  if (result.kongPayouts !== undefined) {
+    checkArray(result.kongPayouts, `${path}.kongPayouts`)
+      .forEach((k, i) => checkKongPayout(k, `${path}.kongPayouts[${i}]`, seats));
+  }
+  if (result.winners !== undefined) {
+    checkArray(result.winners, `${path}.winners`).forEach((w, i) => {
+      const at = `${path}.winners[${i}]`;
+      const winner = checkObject(w, at);
+      checkSeat(winner.winnerIndex, `${at}.winnerIndex`, seats);
+      checkWinningHand(winner.winningHand, `${at}.winningHand`, seats);
+      checkScoring(winner.scoring, `${at}.scoring`);
+      if (winner.responsibility !== undefined) checkResponsibility(winner.responsibility, `${at}.responsibility`, seats);
+    });
+  }
+}
+
+/** Payment deltas have one entry per seat; instant payments name a seat at the table. */
+function checkPayments(value: unknown, path: string, seats: number): void {
+  const payments = checkObject(value, path);
+  checkArray(payments.deltas, `${path}.deltas`, seats).forEach((d, i) => checkNumber(d, `${path}.deltas[${i}]`));
+  checkNumber(payments.perLoserAmount, `${path}.perLoserAmount`);
+  checkNumber(payments.winnerTotal, `${path}.winnerTotal`);
+  checkArray(payments.instantPayments, `${path}.instantPayments`).forEach((p, i) => {
+    const at = `${path}.instantPayments[${i}]`;
+    const payment = checkObject(p, at);
+    checkString(payment.name, `${at}.name`);
+    checkSeat(payment.playerIndex, `${at}.playerIndex`, seats);
+    checkArray(payment.deltas, `${at}.deltas`, seats).forEach((d, j) => checkNumber(d, `${at}.deltas[${j}]`));
+  });
+}
+
+function checkGame(value: unknown, path: string): GameState {
+  const state = checkObject(value, path);
+  const at = (key: string) => (path ? `${path}.${key}` : key);
+
+  const rules = checkRules(state.rules, at('rules'));
+  const { seats } = rules;
+  checkArray(state.players, at('players'), seats).forEach((p, i) => checkPlayer(p, `${at('players')}[${i}]`, seats));
+  checkTiles(state.wall, at('wall'));
+  checkTiles(state.deadWall, at('deadWall'));
+  checkSeat(state.currentPlayerIndex, at('currentPlayerIndex'), seats);
+  checkOneOf(state.phase, PHASES, at('phase'));
+  checkCount(state.turnNumber, at('turnNumber'));
+  checkBoolean(state.firstTurnComplete, at('firstTurnComplete'));
+  checkWind(state.prevailingWind, at('prevailingWind'));
+  checkSeat(state.dealerIndex, at('dealerIndex'), seats);
+  if (!Number.isInteger(state.seed)) fail(at('seed'), 'an integer');
+  if (state.lastDiscard !== null) checkTile(state.lastDiscard, at('lastDiscard'));
+  if (state.lastDiscardPlayerIndex !== null) checkSeat(state.lastDiscardPlayerIndex, at('lastDiscardPlayerIndex'), seats);
+  checkBoolean(state.robbingKong, at('robbingKong'));
+  checkBoolean(state.kongReplacementDraw, at('kongReplacementDraw'));
+  checkArray(state.bonusPayouts, at('bonusPayouts'))
+    .forEach((b, i) => checkBonusPayout(b, `${at('bonusPayouts')}[${i}]`, seats));
+  checkArray(state.actionLog, at('actionLog')).forEach((e, i) => checkLogEntry(e, `${at('actionLog')}[${i}]`, seats));
+  if (state.result !== null) checkResult(state.result, at('result'), seats);
+  return state as unknown as GameState;
+}
+
+function checkRound(value: unknown, path: string, seats: number): void {
+  const round = checkObject(value, path);
+  if (!Number.isInteger(round.roundNumber) || (round.roundNumber as number) < 1) {
+    fail(`${path}.roundNumber`, 'a round number from 1');
+  }
+  checkResult(round.result, `${path}.result`, seats);
+  checkPayments(round.payments, `${path}.payments`, seats);
+  checkSeat(round.dealerIndex, `${path}.dealerIndex`, seats);
+  checkWind(round.prevailingWind, `${path}.prevailingWind`);
+  checkCount(round.dealerStreak, `${path}.dealerStreak`);
+  if (round.seed !== undefined && !Number.isInteger(round.seed)) fail(`${path}.seed`, 'an integer');
+  if (round.gameRecord !== undefined) {
+    const record = checkObject(round.gameRecord, `${path}.gameRecord`);
+    if (!Number.isInteger(record.seed)) fail(`${path}.gameRecord.seed`, 'an integer');
+    const rules = checkRules(record.rules, `${path}.gameRecord.rules`);
+    checkPlayerTypes(record.playerTypes, `${path}.gameRecord.playerTypes`, rules.seats);
+    checkWind(record.prevailingWind, `${path}.gameRecord.prevailingWind`);
+    if (rules.seats !== seats) fail(`${path}.gameRecord.rules.seats`, `${seats}, as in the session`);
+    checkSeat(record.dealerIndex, `${path}.gameRecord.dealerIndex`, seats);
+    checkArray(record.actions, `${path}.gameRecord.actions`)
+      .forEach((e, i) => checkLogEntry(e, `${path}.gameRecord.actions[${i}]`, seats));
+  }
+}
+
+function checkSession(value: unknown): SessionState {
+  const session = checkObject(value, 'session');
+
+  const config = checkObject(session.config, 'config');
+  const rules = checkRules(config.rules, 'config.rules');
+  checkPlayerTypes(config.playerTypes, 'config.playerTypes', rules.seats);
+  const payment = checkObject(config.payment, 'config.payment');
+  checkNumber(payment.base, 'config.payment.base');
+  checkNumber(payment.taiCap, 'config.payment.taiCap');
+  checkBoolean(payment.shooterPays, 'config.payment.shooterPays');
+  for (const key of ['animalPairTai', 'exposedKongTai', 'concealedKongTai']) {
+    if (payment[key] !== undefined) checkNumber(payment[key], `config.payment.${key}`);
+  }
+  if (!Number.isInteger(config.windRounds) || (config.windRounds as number) < 1) {
+    fail('config.windRounds', 'a whole number from 1');
+  }
+  if (!Number.isInteger(config.seed)) fail('config.seed', 'an integer');
+
+  checkArray(session.scores, 'scores', rules.seats).forEach((s, i) => checkNumber(s, `scores[${i}]`));
+  checkArray(session.rounds, 'rounds').forEach((r, i) => checkRound(r, `rounds[${i}]`, rules.seats));
+  checkSeat(session.dealerIndex, 'dealerIndex', rules.seats);
+  checkWind(session.prevailingWind, 'prevailingWind');
+  checkCount(session.dealerRotationCount, 'dealerRotationCount');
+  checkCount(session.completedWindCycles, 'completedWindCycles');
+  checkCount(session.dealerStreak, 'dealerStreak');
+  if (session.currentRound !== null) checkGame(session.currentRound, 'currentRound');
+  checkBoolean(session.finished, 'finished');
+  return session as unknown as SessionState;
+}
+
+// ---------------------------------------------------------------------------
+// Games
+// ---------------------------------------------------------------------------
+
+/** Serialize a game in progress (or finished) as a versioned JSON save. */
+export function serializeGame(state: GameState): string {
+  const saved: SavedGame = { format: 'sg-mahjong/game-state', version: SAVE_VERSION, state };
+  return JSON.stringify(saved);
+}
+
+/**
+ * Load a saved game. Older saves, including bare GameState JSON from before
+ * saves were versioned, are migrated first. Throws if the save is malformed
+ * or from a newer release.
+ */
+export function deserializeGame(json: string): GameState {
+  const data = upgrade(parseJson(json), 'sg-mahjong/game-state', 'state', GAME_MIGRATIONS);
+  return checkGame(data, 'state');
+}
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+/** Serialize a session, including any round in progress, as a versioned JSON save. */
+export function serializeSession(session: SessionState): string {
+  const saved: SavedSession = { format: 'sg-mahjong/session-state', version: SAVE_VERSION, session };
+  return JSON.stringify(saved);
+}
+
+/**
+ * Load a saved session. Older saves, including bare SessionState JSON from
+ * before saves were versioned, are migrated first. Throws if the save is
+ * malformed or from a newer release.
+ */
+export function deserializeSession(json: string): SessionState {
+  const data = upgrade(parseJson(json), 'sg-mahjong/session-state', 'session', SESSION_MIGRATIONS);
+  return checkSession(data);
+}
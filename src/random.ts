@@ -0,0 +1,49 @@
+/**
+ * Seeded Pseudo-Random Numbers
+ *
+ * Shuffles and other random choices take a seed so a deal can be
+ * reproduced from a bug report or replayed: the same seed plus the same
+ * actions always produce the same round. Uses mulberry32 — small, fast
+ * and good enough for shuffling tiles (not for anything cryptographic).
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Returns a float in [0, 1), like Math.random. */
+export type Random = () => number;
+
+// ---------------------------------------------------------------------------
+// Generators
+// ---------------------------------------------------------------------------
+
+/** Create a deterministic generator from a 32-bit seed. */
+export function createRandom(seed: number): Random {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Pick a fresh 32-bit seed for when the caller doesn't supply one. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Derive a child seed from a parent seed and some integers,
+ * e.g. the seed for round 3 of a session.
+ */
+export function deriveSeed(seed: number, ...parts: number[]): number {
+  let h = seed >>> 0;
+  for (const part of parts) {
+    h = Math.imul(h ^ (part >>> 0), 0x9e3779b1) >>> 0;
+    h ^= h >>> 16;
+  }
+  return h >>> 0;
+}
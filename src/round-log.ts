@@ -0,0 +1,354 @@
+/**
+ * Portable Round Logs for Singapore Mahjong
+ *
+ * A versioned JSON format for sharing and archiving hands outside the app.
+ * A round log holds everything needed to replay a round — rules, seed,
+ * seats, every move (tiles written as ids) — plus its result and payments.
+ * A session log holds the session config and each round's log.
+ *
+ * Importing never trusts the file: every round is replayed from its seed,
+ * and the result, payments, dealer rotation and scores recomputed from the
+ * replay must match what the log claims, or the import is rejected.
+ */
+
+import { Tile, Wind, ALL_TILES } from './tiles';
+import { RuleSet, createRuleSet } from './rules';
+import {
+  PerSeat,
+  PlayerType,
+  GameState,
+  GameResult,
+  GameMove,
+  ActionLogEntry,
+  RoundRecord,
+  SessionConfig,
+  SessionState,
+  PaymentConfig,
+  PaymentResult,
+} from './game-types';
+import { createGameRecord, replayGame } from './game-record';
+import { calculatePayments } from './payments';
+import { createSession, processRoundResult, roundSeed } from './game-session';
+
+// ---------------------------------------------------------------------------
+// Format
+// ---------------------------------------------------------------------------
+
+/** Current version of the round and session log formats. */
+export const ROUND_LOG_VERSION = 1;
+
+/** One move in a round log. Tiles are written as tile ids, e.g. 'dots_5_2'. */
+export interface LoggedMove {
+  seat: number;
+  turn: number;
+  move: GameMove['type'];
+  /** The discarded or promoted tile. */
+  tile?: string;
+  /** The kong tiles, or the two hand tiles of a chow. */
+  tiles?: string[];
+  /** The tile drawn into the hand (wall draw or kong replacement). */
+  drawn?: string;
+  /** Every seat that claimed the discard to win, when more than one did. */
+  claimants?: number[];
+}
+
+export interface RoundLog {
+  format: 'sg-mahjong/round';
+  version: number;
+  roundNumber: number;
+  rules: RuleSet;
+  payment: PaymentConfig;
+  seed: number;
+  playerTypes: PerSeat<PlayerType>;
+  dealerIndex: number;
+  prevailingWind: Wind;
+  dealerStreak: number;
+  moves: LoggedMove[];
+  result: GameResult;
+  payments: PaymentResult;
+}
+
+export interface SessionLog {
+  format: 'sg-mahjong/session';
+  version: number;
+  config: SessionConfig;
+  rounds: RoundLog[];
+  scores: PerSeat<number>;
+  finished: boolean;
+}
+
+const MOVE_TYPES: GameMove['type'][] = [
+  'draw', 'discard', 'declareKong', 'promotePungToKong', 'declareSelfWin',
+  'claimPong', 'claimChow', 'claimKong', 'claimWin', 'pass',
+];
+
+const TILES_BY_ID = new Map(ALL_TILES.map(t => [t.id, t]));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function invalid(message: string): never {
+  throw new Error(`Invalid round log: ${message}`);
+}
+
+/** JSON with object keys sorted, for comparing values regardless of key order. */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v,
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSeat(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 3;
+}
+
+function tileById(id: unknown): Tile {
+  const tile = typeof id === 'string' ? TILES_BY_ID.get(id) : undefined;
+  if (!tile) invalid(`unknown tile ${JSON.stringify(id)}`);
+  return tile;
+}
+
+function toLoggedMove(entry: ActionLogEntry): LoggedMove {
+  const { move } = entry;
+  const logged: LoggedMove = { seat: entry.playerIndex, turn: entry.turnNumber, move: move.type };
+  if (move.type === 'discard' || move.type === 'promotePungToKong') logged.tile = move.tile.id;
+  if (move.type === 'declareKong') logged.tiles = move.tiles.map(t => t.id);
+  if (move.type === 'claimChow') logged.tiles = move.chowTiles.map(t => t.id);
+  if (entry.drawnTile) logged.drawn = entry.drawnTile.id;
+  if (entry.claimants) logged.claimants = [...entry.claimants];
+  return logged;
+}
+
+function fromLoggedMove(logged: unknown, index: number): ActionLogEntry {
+  if (!isObject(logged)) invalid(`move ${index + 1} is not an object`);
+  const { seat, turn, move, tile, tiles, drawn, claimants } = logged;
+  if (!isSeat(seat)) invalid(`move ${index + 1} has no valid seat`);
+  if (!Number.isInteger(turn) || (turn as number) < 0) invalid(`move ${index + 1} has no valid turn`);
+  if (!MOVE_TYPES.includes(move as GameMove['type'])) invalid(`move ${index + 1} has unknown type ${JSON.stringify(move)}`);
+
+  const tileList = () => {
+    if (!Array.isArray(tiles)) invalid(`move ${index + 1} is missing its tiles`);
+    return tiles.map(tileById);
+  };
+
+  let gameMove: GameMove;
+  switch (move as GameMove['type']) {
+    case 'discard':
+    case 'promotePungToKong':
+      gameMove = { type: move as 'discard' | 'promotePungToKong', tile: tileById(tile) };
+      break;
+    case 'declareKong':
+      gameMove = { type: 'declareKong', tiles: tileList() };
+      break;
+    case 'claimChow': {
+      const chowTiles = tileList();
+      if (chowTiles.length !== 2) invalid(`move ${index + 1} needs two chow tiles`);
+      gameMove = { type: 'claimChow', chowTiles: [chowTiles[0], chowTiles[1]] };
+      break;
+    }
+    default:
+      gameMove = { type: move } as GameMove;
+  }
+
+  const entry: ActionLogEntry = { playerIndex: seat, move: gameMove, turnNumber: turn as number };
+  if (drawn !== undefined) entry.drawnTile = tileById(drawn);
+  if (claimants !== undefined) {
+    if (!Array.isArray(claimants) || !claimants.every(isSeat)) invalid(`move ${index + 1} has invalid claimants`);
+    entry.claimants = claimants;
+  }
+  return entry;
+}
+
+/** Check the header fields shared by round and session logs. */
+function checkHeader(log: unknown, format: string): Record<string, unknown> {
+  if (!isObject(log)) invalid('not a JSON object');
+  if (log.format !== format) invalid(`expected format '${format}', got ${JSON.stringify(log.format)}`);
+  if (log.version !== ROUND_LOG_VERSION) invalid(`unsupported version ${JSON.stringify(log.version)}`);
+  return log;
+}
+
+function parseJson(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return invalid('not valid JSON');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rounds
+// ---------------------------------------------------------------------------
+
+/** Build the log of a completed round. Needs the round's game record. */
+export function createRoundLog(record: RoundRecord, payment: PaymentConfig): RoundLog {
+  const game = record.gameRecord;
+  if (!game) {
+    throw new Error(`Round ${record.roundNumber} has no game record to export`);
+  }
+  return {
+    format: 'sg-mahjong/round',
+    version: ROUND_LOG_VERSION,
+    roundNumber: record.roundNumber,
+    rules: game.rules,
+    payment,
+    seed: game.seed,
+    playerTypes: game.playerTypes,
+    dealerIndex: record.dealerIndex,
+    prevailingWind: record.prevailingWind,
+    dealerStreak: record.dealerStreak,
+    moves: game.actions.map(toLoggedMove),
+    result: record.result,
+    payments: record.payments,
+  };
+}
+
+/**
+ * Replay a round log and check it against itself. Returns the rebuilt
+ * round record and the round's final state.
+ */
+function replayRoundLog(value: unknown): { record: RoundRecord; finalState: GameState } {
+  const log = checkHeader(value, 'sg-mahjong/round') as unknown as RoundLog;
+  if (!Number.isInteger(log.roundNumber) || log.roundNumber < 1) invalid('bad round number');
+  if (!Number.isInteger(log.seed)) invalid('missing seed');
+  if (!isObject(log.rules) || !isObject(log.payment)) invalid('missing rules or payment config');
+  // Logs written before the three-player variant lack its rule values
+  const rules = createRuleSet(log.rules);
+  if (!Array.isArray(log.playerTypes) || log.playerTypes.length !== rules.seats
+    || !log.playerTypes.every(t => t === 'human' || t === 'ai')) {
+    invalid(`seats must list ${rules.seats} player types`);
+  }
+  if (!isSeat(log.dealerIndex) || log.dealerIndex >= rules.seats) invalid('bad dealer index');
+  if (!['east', 'south', 'west', 'north'].includes(log.prevailingWind)) invalid('bad prevailing wind');
+  if (!Number.isInteger(log.dealerStreak) || log.dealerStreak < 0) invalid('bad dealer streak');
+  if (!Array.isArray(log.moves)) invalid('missing moves');
+
+  const actions = log.moves.map(fromLoggedMove);
+  let states: GameState[];
+  try {
+    states = replayGame({
+      seed: log.seed,
+      playerTypes: log.playerTypes,
+      prevailingWind: log.prevailingWind,
+      dealerIndex: log.dealerIndex,
+      rules,
+      actions,
+    });
+  } catch (e) {
+    return invalid(`moves do not replay (${(e as Error).message})`);
+  }
+
+  const finalState = states[states.length - 1];
+  if (finalState.phase !== 'roundOver' || !finalState.result) invalid('the round does not finish');
+  if (canonicalJson(finalState.actionLog.map(toLoggedMove)) !== canonicalJson(log.moves)) {
+    invalid('moves do not match the replay');
+  }
+  if (canonicalJson(finalState.result) !== canonicalJson(log.result)) {
+    invalid('result does not match the replay');
+  }
+
+  const payments = calculatePayments(finalState.result, log.payment, rules, {
+    dealerIndex: log.dealerIndex,
+    streak: log.dealerStreak,
+  });
+  if (canonicalJson(payments) !== canonicalJson(log.payments)) {
+    invalid('payments do not match the result');
+  }
+
+  return {
+    record: {
+      roundNumber: log.roundNumber,
+      result: finalState.result,
+      payments,
+      dealerIndex: log.dealerIndex,
+      prevailingWind: log.prevailingWind,
+      seed: log.seed,
+      dealerStreak: log.dealerStreak,
+      gameRecord: createGameRecord(finalState),
+    },
+    finalState,
+  };
+}
+
+/** Export a completed round as a JSON round log. */
+export function exportRoundLog(record: RoundRecord, payment: PaymentConfig): string {
+  return JSON.stringify(createRoundLog(record, payment), null, 2);
+}
+
+/**
+ * Import a JSON round log. The round is replayed from its seed; throws if
+ * the log is malformed, from another version, or disagrees with the replay.
+ */
+export function importRoundLog(json: string): RoundRecord {
+  return replayRoundLog(parseJson(json)).record;
+}
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+/** Export a session's completed rounds as a JSON session log. */
+export function exportSessionLog(session: SessionState): string {
+  const log: SessionLog = {
+    format: 'sg-mahjong/session',
+    version: ROUND_LOG_VERSION,
+    config: session.config,
+    rounds: session.rounds.map(r => createRoundLog(r, session.config.payment)),
+    scores: session.scores,
+    finished: session.finished,
+  };
+  return JSON.stringify(log, null, 2);
+}
+
+/**
+ * Import a JSON session log. The session is rebuilt round by round from
+ * its config; every round must replay, be dealt from the session's seed
+ * for its round number, follow on from the one before (dealer, wind,
+ * streak) and the final scores must match.
+ */
+export function importSessionLog(json: string): SessionState {
+  const log = checkHeader(parseJson(json), 'sg-mahjong/session') as unknown as SessionLog;
+  if (!isObject(log.config) || !Array.isArray(log.rounds)) invalid('missing config or rounds');
+
+  let session = createSession({ ...log.config, rules: createRuleSet(log.config.rules) });
+  for (const roundLog of log.rounds) {
+    if (session.finished) invalid('rounds continue after the session finished');
+    const { record, finalState } = replayRoundLog(roundLog);
+    const expected = {
+      roundNumber: session.rounds.length + 1,
+      seed: roundSeed(session, session.rounds.length + 1),
+      dealerIndex: session.dealerIndex,
+      prevailingWind: session.prevailingWind,
+      dealerStreak: session.dealerStreak,
+      rules: session.config.rules,
+      payment: session.config.payment,
+      playerTypes: session.config.playerTypes,
+    };
+    const actual = {
+      roundNumber: record.roundNumber,
+      seed: roundLog.seed,
+      dealerIndex: record.dealerIndex,
+      prevailingWind: record.prevailingWind,
+      dealerStreak: record.dealerStreak,
+      rules: createRuleSet(roundLog.rules),
+      payment: roundLog.payment,
+      playerTypes: roundLog.playerTypes,
+    };
+    if (canonicalJson(actual) !== canonicalJson(expected)) {
+      invalid(`round ${record.roundNumber} does not follow on from the session`);
+    }
+
+    session = processRoundResult(session, finalState.result!, finalState).session;
+  }
+
+  if (canonicalJson(session.scores) !== canonicalJson(log.scores) || session.finished !== log.finished) {
+    invalid('scores do not match the rounds');
+  }
+  return session;
+}
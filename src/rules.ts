@@ -0,0 +1,210 @@
+/**
+ * House Rules for Singapore Mahjong
+ *
+ * Every club plays a slightly different variant. A RuleSet gathers the
+ * values that differ between tables — the number of players and the tiles
+ * in play, the scoring system, tai per pattern, the limit, the chicken
+ * hand, the minimum tai to win, the dead wall size, when a round ends in a
+ * draw, payment doubling, dealer rotation and streaks, simultaneous wins
+ * and responsibility payments — so a variant is defined once and honoured
+ * by the engine, scoring, payments and session.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Tai awarded for each non-limit scoring element. */
+export interface TaiValues {
+  /** Flower or season matching the player's seat (each). */
+  seatFlower: number;
+  /** All four flowers, all four seasons or all four animals (each set). */
+  completeFlowers: number;
+  /** Each animal tile. */
+  animal: number;
+  /** Pung/kong of a dragon. */
+  dragonPung: number;
+  /** Pung/kong of the player's seat wind. */
+  seatWindPung: number;
+  /** Pung/kong of the prevailing wind. */
+  prevailingWindPung: number;
+  /** Extra tai for each kong. */
+  kong: number;
+  pureHand: number;
+  halfFlush: number;
+  allPungs: number;
+  pingHu: number;
+  smallThreeDragons: number;
+  greaterSisters: number;
+  lesserSisters: number;
+  concealedHand: number;
+  selfDrawn: number;
+  sevenPairs: number;
+  /** Win on the last wall tile (海底捞月). */
+  lastTile: number;
+  /** Win on a kong replacement (杠上开花). */
+  kongReplacement: number;
+  /** Win by robbing a kong (抢杠). */
+  robbingKong: number;
+}
+
+/**
+ * What happens when several players claim the same discard to win.
+ * - headBump (截和): only the claimant nearest the discarder in turn order wins.
+ * - multiple (一炮多响): every claimant wins and the discarder pays each one.
+ */
+export type MultipleWinRule = 'headBump' | 'multiple';
+
+/**
+ * How winning hands are valued and paid.
+ * - singapore: tai per pattern (scoreHand), paid by doubling (taiToAmount).
+ * - hongKongOldStyle: faan per pattern (scoreHongKongHand), paid from the
+ *   Hong Kong payment table (faanToAmount). See hk-scoring.ts.
+ */
+export type ScoringSystem = 'singapore' | 'hongKongOldStyle';
+
+export interface RuleSet {
+  /** Display name of the variant, e.g. 'Singapore standard'. */
+  name: string;
+  /** Players at the table: 4, or 3 for the three-player variant. */
+  seats: 3 | 4;
+  /** Tile kinds taken out of the set (tileKey, e.g. 'characters_5'); every copy is removed. */
+  removedTiles: string[];
+  /** Whether a discard may be claimed to make a chow. */
+  allowChow: boolean;
+  /** Scoring and payment system; limitTai, chickenHandTai and minimumTai are in its units. */
+  scoringSystem: ScoringSystem;
+  /** Tai for each non-limit scoring element (Singapore scoring only). */
+  tai: TaiValues;
+  /** Tai awarded for a limit hand (Thirteen Orphans, Big Three Dragons, ...). */
+  limitTai: number;
+  /** Tai a winning hand scores when nothing else applies (chicken hand, 鸡和). */
+  chickenHandTai: number;
+  /** Tai needed to call Hu, not counting the chicken hand. 0 = any winning hand. */
+  minimumTai: number;
+  /** Whether flowers, seasons and animals are left out of the minimum. */
+  minimumTaiExcludesBonus: boolean;
+  /** Tiles reserved as the dead wall for kong and bonus replacements. */
+  deadWallSize: number;
+  /** Tiles left undrawn at the tail of the live wall; the round is a draw once only these remain. */
+  reservedWallTiles: number;
+  /** Abort the round as a draw once four kongs are declared by more than one player. */
+  fourKongsDraw: boolean;
+  /**
+   * Abort the round as a draw if all four first discards are the same wind.
+   * Never applies at a three-player table.
+   */
+  fourWindsDraw: boolean;
+  /** Payment growth per tai: base × taiMultiplier^(tai-1). 2 = doubling. */
+  taiMultiplier: number;
+  /** Whether the dealer keeps the deal after winning a round. */
+  dealerKeepsDealOnWin: boolean;
+  /** Whether the dealer keeps the deal after a draw game. */
+  dealerKeepsDealOnDraw: boolean;
+  /** Extra tai on a dealer's win per round of their streak (连庄). 0 = none. */
+  dealerStreakTai: number;
+  /** Payment multiplier on a dealer's win per round of their streak. 1 = none. */
+  dealerStreakMultiplier: number;
+  /** How several win claims on one discard are settled. */
+  multipleWinRule: MultipleWinRule;
+  /** Whether a player who fed a decisive meld pays the whole hand (包). */
+  responsibilityPayments: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Presets
+// ---------------------------------------------------------------------------
+
+/** Common Singapore tournament rules — the default everywhere. */
+export const SINGAPORE_STANDARD_RULES: RuleSet = {
+  name: 'Singapore standard',
+  seats: 4,
+  removedTiles: [],
+  allowChow: true,
+  scoringSystem: 'singapore',
+  tai: {
+    seatFlower: 1,
+    completeFlowers: 8,
+    animal: 1,
+    dragonPung: 1,
+    seatWindPung: 1,
+    prevailingWindPung: 1,
+    kong: 1,
+    pureHand: 4,
+    halfFlush: 2,
+    allPungs: 4,
+    pingHu: 4,
+    smallThreeDragons: 4,
+    greaterSisters: 4,
+    lesserSisters: 2,
+    concealedHand: 1,
+    selfDrawn: 1,
+    sevenPairs: 4,
+    lastTile: 1,
+    kongReplacement: 1,
+    robbingKong: 1,
+  },
+  limitTai: 40,
+  chickenHandTai: 1,
+  minimumTai: 0,
+  minimumTaiExcludesBonus: false,
+  deadWallSize: 14,
+  reservedWallTiles: 0,
+  fourKongsDraw: false,
+  fourWindsDraw: false,
+  taiMultiplier: 2,
+  dealerKeepsDealOnWin: true,
+  dealerKeepsDealOnDraw: false,
+  dealerStreakTai: 0,
+  dealerStreakMultiplier: 1,
+  multipleWinRule: 'headBump',
+  responsibilityPayments: true,
+};
+
+/**
+ * Build a RuleSet from the standard preset with some values overridden.
+ * Tai values are merged individually.
+ */
+export function createRuleSet(overrides: Partial<Omit<RuleSet, 'tai'>> & { tai?: Partial<TaiValues> } = {}): RuleSet {
+  return {
+    ...SINGAPORE_STANDARD_RULES,
+    ...overrides,
+    tai: { ...SINGAPORE_STANDARD_RULES.tai, ...overrides.tai },
+  };
+}
+
+/**
+ * Three-handed Singapore mahjong: East, South and West only, characters 2
+ * to 8 taken out of the set, and no chows.
+ */
+export const SINGAPORE_THREE_PLAYER_RULES: RuleSet = createRuleSet({
+  name: 'Singapore three-player',
+  seats: 3,
+  removedTiles: [2, 3, 4, 5, 6, 7, 8].map(n => `characters_${n}`),
+  allowChow: false,
+});
+
+/**
+ * Hong Kong Old Style: faan scoring with a 3-faan minimum and a 10-faan
+ * limit, paid from the Hong Kong payment table. Played without animals.
+ */
+export const HONG_KONG_OLD_STYLE_RULES: RuleSet = createRuleSet({
+  name: 'Hong Kong Old Style',
+  scoringSystem: 'hongKongOldStyle',
+  removedTiles: ['animals_cat', 'animals_mouse', 'animals_rooster', 'animals_centipede'],
+  limitTai: 10,
+  chickenHandTai: 0,
+  minimumTai: 3,
+});
+
+/**
+ * Hong Kong Old Style scoring at a three-player table: the three-player
+ * set and seating, without the animals.
+ */
+export const HONG_KONG_THREE_PLAYER_RULES: RuleSet = createRuleSet({
+  ...HONG_KONG_OLD_STYLE_RULES,
+  name: 'Hong Kong Old Style three-player',
+  seats: 3,
+  removedTiles: [...SINGAPORE_THREE_PLAYER_RULES.removedTiles, ...HONG_KONG_OLD_STYLE_RULES.removedTiles],
+  allowChow: false,
+});
@@ -6,10 +6,12 @@
  * A winning hand = 14 tiles (4 sets + 1 pair, or 7 pairs, or 13 orphans).
  * Bonus tiles contribute extra tai on top of the hand score.
  *
- * Tai values follow common Singapore tournament rules.
+ * Tai values come from a RuleSet (see rules.ts); the default follows common
+ * Singapore tournament rules.
  */
 
-import { Tile, tileKey, NumberedSuit } from './tiles';
+import { Tile, tileKey, NumberedSuit, Wind, Flower, Season, Animal } from './tiles';
+import { RuleSet, TaiValues, SINGAPORE_STANDARD_RULES } from './rules';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -19,6 +21,8 @@ export interface MeldedSet {
   type: 'chow' | 'pung' | 'kong';
   tiles: Tile[];
   concealed: boolean;
+  /** Who discarded the claimed tile, for melds claimed from a discard. */
+  claimedFrom?: number;
 }
 
 export interface WinningHand {
@@ -38,11 +42,20 @@ export interface WinningHand {
   selfDrawn: boolean;
   /** Whether this is the very first draw (for heavenly/earthly hand). */
   firstDraw: boolean;
+  /** Won by self-draw on the last tile of the live wall (海底捞月). */
+  lastTile?: boolean;
+  /** Won by self-draw on a kong replacement tile (杠上开花). */
+  kongReplacement?: boolean;
+  /** Won by robbing another player's promoted kong (抢杠). */
+  robbedKong?: boolean;
 }
 
+/** Scores are in tai, or in faan under Hong Kong scoring (see hk-scoring.ts). */
 export interface ScoringDetail {
   name: string;
   tai: number;
+  /** True for flowers, seasons and animals (excluded from some minimums). */
+  bonus?: boolean;
 }
 
 export interface ScoringResult {
@@ -63,7 +76,8 @@ function countByKey(tiles: Tile[]): Map<string, number> {
   return m;
 }
 
-function isNumberedSuit(suit: string): suit is NumberedSuit {
+/** Whether a suit is bamboo, dots or characters. */
+export function isNumberedSuit(suit: string): suit is NumberedSuit {
   return suit === 'bamboo' || suit === 'dots' || suit === 'characters';
 }
 
@@ -79,33 +93,93 @@ function hasHonors(tiles: Tile[]): boolean {
   return tiles.some(t => t.isHonor);
 }
 
+/** Whether a meld is a pung or a kong. */
+export function isPungLike(meld: MeldedSet): boolean {
+  return meld.type === 'pung' || meld.type === 'kong';
+}
+
+/** Pungs/kongs of a given honor suit. */
+function honorPungs(melds: MeldedSet[], suit: 'winds' | 'dragons'): MeldedSet[] {
+  return melds.filter(m => isPungLike(m) && m.tiles[0].suit === suit);
+}
+
+/** A pair of dragons, seat wind or prevailing wind would score if it were a pung. */
+function isValuePair(pair: Tile[], hand: WinningHand): boolean {
+  if (pair.length === 0) return false;
+  const t = pair[0];
+  if (t.suit === 'dragons') return true;
+  return t.suit === 'winds' && (t.value === hand.seatWind || t.value === hand.prevailingWind);
+}
+
 // ---------------------------------------------------------------------------
 // Scoring functions
 // ---------------------------------------------------------------------------
 
-/** Score bonus tiles (flowers, seasons, animals). */
-function scoreBonusTiles(bonus: Tile[]): ScoringDetail[] {
+/** Flower belonging to each seat: 1 Plum, 2 Orchid, 3 Chrysanthemum, 4 Bamboo. */
+export const SEAT_FLOWERS: Record<Wind, Flower> = {
+  east: 'plum',
+  south: 'orchid',
+  west: 'chrysanthemum',
+  north: 'bamboo',
+};
+
+/** Season belonging to each seat: 1 Spring, 2 Summer, 3 Autumn, 4 Winter. */
+export const SEAT_SEASONS: Record<Wind, Season> = {
+  east: 'spring',
+  south: 'summer',
+  west: 'autumn',
+  north: 'winter',
+};
+
+/** Animal pairs that "bite" — paid out instantly when one player holds both. */
+export const ANIMAL_PAIRS: { name: string; animals: [Animal, Animal] }[] = [
+  { name: 'Cat & Mouse', animals: ['cat', 'mouse'] },
+  { name: 'Rooster & Centipede', animals: ['rooster', 'centipede'] },
+];
+
+/** Find the animal pairs completed by a player's bonus tiles. */
+export function findAnimalPairs(bonus: Tile[]): { name: string; tiles: Tile[] }[] {
+  const pairs: { name: string; tiles: Tile[] }[] = [];
+  for (const pair of ANIMAL_PAIRS) {
+    const tiles = pair.animals
+      .map(a => bonus.find(t => t.suit === 'animals' && t.value === a))
+      .filter((t): t is Tile => t !== undefined);
+    if (tiles.length === 2) pairs.push({ name: pair.name, tiles });
+  }
+  return pairs;
+}
+
+/**
+ * Score bonus tiles (flowers, seasons, animals).
+ * Only the flower and season matching the player's seat score, unless the
+ * player holds the complete set. Every animal scores, all four as a set.
+ */
+function scoreBonusTiles(bonus: Tile[], seatWind: Wind, tai: TaiValues): ScoringDetail[] {
   const details: ScoringDetail[] = [];
   const flowers = bonus.filter(t => t.suit === 'flowers');
   const seasons = bonus.filter(t => t.suit === 'seasons');
   const animals = bonus.filter(t => t.suit === 'animals');
 
+  // Complete set (一套花) replaces the seat flower
   if (flowers.length === 4) {
-    details.push({ name: 'Complete Flowers', tai: 8 });
-  } else if (flowers.length > 0) {
-    details.push({ name: flowers.length + ' Flower(s)', tai: flowers.length });
+    details.push({ name: 'Complete Flowers', tai: tai.completeFlowers, bonus: true });
+  } else {
+    const seatFlower = flowers.find(t => t.value === SEAT_FLOWERS[seatWind]);
+    if (seatFlower) details.push({ name: 'Seat Flower (' + seatFlower.name + ')', tai: tai.seatFlower, bonus: true });
   }
 
   if (seasons.length === 4) {
-    details.push({ name: 'Complete Seasons', tai: 8 });
-  } else if (seasons.length > 0) {
-    details.push({ name: seasons.length + ' Season(s)', tai: seasons.length });
+    details.push({ name: 'Complete Seasons', tai: tai.completeFlowers, bonus: true });
+  } else {
+    const seatSeason = seasons.find(t => t.value === SEAT_SEASONS[seatWind]);
+    if (seatSeason) details.push({ name: 'Seat Season (' + seatSeason.name + ')', tai: tai.seatFlower, bonus: true });
   }
 
+  // Every animal scores regardless of seat
   if (animals.length === 4) {
-    details.push({ name: 'Complete Animals', tai: 8 });
+    details.push({ name: 'Complete Animals', tai: tai.completeFlowers, bonus: true });
   } else if (animals.length > 0) {
-    details.push({ name: animals.length + ' Animal(s)', tai: animals.length });
+    details.push({ name: animals.length + ' Animal(s)', tai: animals.length * tai.animal, bonus: true });
   }
 
   return details;
@@ -116,6 +190,7 @@ function scoreMelds(
   melds: MeldedSet[],
   seatWind: string,
   prevailingWind: string,
+  tai: TaiValues,
 ): ScoringDetail[] {
   const details: ScoringDetail[] = [];
 
@@ -125,21 +200,21 @@ function scoreMelds(
 
     if (!isPungLike) continue;
 
-    // Dragon pung/kong = 1 tai
+    // Dragon pung/kong
     if (rep.suit === 'dragons') {
-      details.push({ name: 'Pung of ' + rep.name, tai: 1 });
+      details.push({ name: 'Pung of ' + rep.name, tai: tai.dragonPung });
     }
-    // Seat wind pung/kong = 1 tai
+    // Seat wind pung/kong
     if (rep.suit === 'winds' && rep.value === seatWind) {
-      details.push({ name: 'Pung of Seat Wind (' + rep.value + ')', tai: 1 });
+      details.push({ name: 'Pung of Seat Wind (' + rep.value + ')', tai: tai.seatWindPung });
     }
-    // Prevailing wind pung/kong = 1 tai
+    // Prevailing wind pung/kong
     if (rep.suit === 'winds' && rep.value === prevailingWind) {
-      details.push({ name: 'Pung of Prevailing Wind (' + rep.value + ')', tai: 1 });
+      details.push({ name: 'Pung of Prevailing Wind (' + rep.value + ')', tai: tai.prevailingWindPung });
     }
-    // Kong bonus = 1 extra tai
+    // Kong bonus
     if (meld.type === 'kong') {
-      details.push({ name: 'Kong of ' + rep.name, tai: 1 });
+      details.push({ name: 'Kong of ' + rep.name, tai: tai.kong });
     }
   }
 
@@ -147,50 +222,137 @@ function scoreMelds(
 }
 
 /** Score hand-level patterns. */
-function scoreHandPatterns(hand: WinningHand): ScoringDetail[] {
+function scoreHandPatterns(hand: WinningHand, tai: TaiValues): ScoringDetail[] {
   const details: ScoringDetail[] = [];
   const tiles = hand.handTiles;
   const numberedSuits = getNumberedSuits(tiles);
   const honors = hasHonors(tiles);
 
-  // Pure hand (清一色): all tiles one numbered suit, no honors - 4 tai
+  // Pure hand (清一色): all tiles one numbered suit, no honors
   if (numberedSuits.size === 1 && !honors) {
-    details.push({ name: 'Pure Hand', tai: 4 });
+    details.push({ name: 'Pure Hand', tai: tai.pureHand });
   }
 
-  // Half flush (混一色): one numbered suit + honors - 2 tai
+  // Half flush (混一色): one numbered suit + honors
   if (numberedSuits.size === 1 && honors) {
-    details.push({ name: 'Half Flush', tai: 2 });
+    details.push({ name: 'Half Flush', tai: tai.halfFlush });
   }
 
-  // All pungs (对对和): 4 pungs/kongs + pair - 4 tai
-  const pungOrKong = hand.melds.filter(m => m.type === 'pung' || m.type === 'kong');
+  // All pungs (对对和): 4 pungs/kongs + pair
+  const pungOrKong = hand.melds.filter(isPungLike);
   if (pungOrKong.length === 4) {
-    details.push({ name: 'All Pungs', tai: 4 });
+    details.push({ name: 'All Pungs', tai: tai.allPungs });
+  }
+
+  // Ping Hu (平胡): 4 chows + non-scoring pair, no bonus tiles
+  const chows = hand.melds.filter(m => m.type === 'chow');
+  if (chows.length === 4 && hand.bonusTiles.length === 0 && hand.pair.length === 2 && !isValuePair(hand.pair, hand)) {
+    details.push({ name: 'Ping Hu', tai: tai.pingHu });
+  }
+
+  // Small three dragons (小三元): 2 dragon pungs + dragon pair
+  // (Big Three Dragons is a limit hand and is checked first.)
+  if (honorPungs(hand.melds, 'dragons').length === 2 && hand.pair[0]?.suit === 'dragons') {
+    details.push({ name: 'Small Three Dragons', tai: tai.smallThreeDragons });
   }
 
-  // Concealed hand (门前清): all melds concealed - 1 tai
+  // Sisters (三姐妹): same-numbered pungs across the numbered suits
+  const sisters = checkSisters(hand, tai);
+  if (sisters) details.push(sisters);
+
+  // Concealed hand (门前清): all melds concealed
   if (hand.melds.every(m => m.concealed)) {
-    details.push({ name: 'Concealed Hand', tai: 1 });
+    details.push({ name: 'Concealed Hand', tai: tai.concealedHand });
   }
 
-  // Self-drawn (自摸) - 1 tai
+  // Self-drawn (自摸)
   if (hand.selfDrawn) {
-    details.push({ name: 'Self-Drawn', tai: 1 });
+    details.push({ name: 'Self-Drawn', tai: tai.selfDrawn });
   }
 
-  // Seven pairs (七对子) - 4 tai
+  // Seven pairs (七对子)
   const counts = countByKey(tiles);
   const pairCount = Array.from(counts.values()).filter(c => c === 2).length;
   if (pairCount === 7) {
-    details.push({ name: 'Seven Pairs', tai: 4 });
+    details.push({ name: 'Seven Pairs', tai: tai.sevenPairs });
   }
 
   return details;
 }
 
-/** Check for limit hands (instant max-tai patterns). */
-function checkLimitHand(hand: WinningHand): ScoringDetail | null {
+/** Score the circumstances of the win (last tile, kong replacement, robbed kong). */
+function scoreWinContext(hand: WinningHand, tai: TaiValues): ScoringDetail[] {
+  const details: ScoringDetail[] = [];
+
+  // Win on the last wall tile (海底捞月)
+  if (hand.lastTile) {
+    details.push({ name: 'Win on Last Tile', tai: tai.lastTile });
+  }
+
+  // Win on kong replacement (杠上开花)
+  if (hand.kongReplacement) {
+    details.push({ name: 'Win on Kong Replacement', tai: tai.kongReplacement });
+  }
+
+  // Robbing the kong (抢杠)
+  if (hand.robbedKong) {
+    details.push({ name: 'Robbing the Kong', tai: tai.robbingKong });
+  }
+
+  return details;
+}
+
+/**
+ * Greater Sisters (大三姐妹): pungs of the same number in all three suits.
+ * Lesser Sisters (小三姐妹): pungs of the same number in two suits plus a
+ * pair of that number in the third. Greater suppresses Lesser.
+ */
+function checkSisters(hand: WinningHand, tai: TaiValues): ScoringDetail | null {
+  const suitsByNumber = new Map<number, Set<NumberedSuit>>();
+  for (const meld of hand.melds) {
+    const rep = meld.tiles[0];
+    if (!isPungLike(meld) || !isNumberedSuit(rep.suit)) continue;
+    const suits = suitsByNumber.get(rep.value as number) ?? new Set<NumberedSuit>();
+    suits.add(rep.suit);
+    suitsByNumber.set(rep.value as number, suits);
+  }
+
+  for (const suits of suitsByNumber.values()) {
+    if (suits.size === 3) return { name: 'Greater Sisters', tai: tai.greaterSisters };
+  }
+
+  const pairTile = hand.pair[0];
+  if (pairTile && isNumberedSuit(pairTile.suit)) {
+    const suits = suitsByNumber.get(pairTile.value as number);
+    if (suits && suits.size === 2 && !suits.has(pairTile.suit)) {
+      return { name: 'Lesser Sisters', tai: tai.lesserSisters };
+    }
+  }
+
+  return null;
+}
+
+/** Nine Gates (九莲宝灯): concealed 1112345678999 in one suit plus any tile of it. */
+function isNineGates(hand: WinningHand): boolean {
+  const tiles = hand.handTiles;
+  if (tiles.length !== 14 || hand.melds.some(m => !m.concealed || m.type === 'kong')) return false;
+  const suits = getNumberedSuits(tiles);
+  if (suits.size !== 1 || hasHonors(tiles)) return false;
+
+  const byNumber = new Map<number, number>();
+  for (const t of tiles) byNumber.set(t.value as number, (byNumber.get(t.value as number) || 0) + 1);
+  for (let n = 1; n <= 9; n++) {
+    const required = n === 1 || n === 9 ? 3 : 1;
+    if ((byNumber.get(n) || 0) < required) return false;
+  }
+  return true;
+}
+
+/**
+ * Check for limit hands (instant max-tai patterns). Hong Kong scoring
+ * shares these and adds its own.
+ */
+export function checkLimitHand(hand: WinningHand, limitTai: number): ScoringDetail | null {
   const tiles = hand.handTiles;
   const counts = countByKey(tiles);
 
@@ -202,17 +364,17 @@ function checkLimitHand(hand: WinningHand): ScoringDetail | null {
   ];
   const hasAllOrphans = orphanKeys.every(k => (counts.get(k) || 0) >= 1);
   if (hasAllOrphans && tiles.length === 14) {
-    return { name: 'Thirteen Orphans', tai: 40 };
+    return { name: 'Thirteen Orphans', tai: limitTai };
   }
 
   // Heavenly Hand (天和): dealer wins on first draw
   if (hand.firstDraw && hand.seatWind === 'east') {
-    return { name: 'Heavenly Hand', tai: 40 };
+    return { name: 'Heavenly Hand', tai: limitTai };
   }
 
   // Earthly Hand (地和): non-dealer wins on first discard
   if (hand.firstDraw && hand.seatWind !== 'east') {
-    return { name: 'Earthly Hand', tai: 40 };
+    return { name: 'Earthly Hand', tai: limitTai };
   }
 
   // Big Four Winds (大四喜): pungs/kongs of all 4 winds
@@ -220,7 +382,7 @@ function checkLimitHand(hand: WinningHand): ScoringDetail | null {
     m => (m.type === 'pung' || m.type === 'kong') && m.tiles[0].suit === 'winds'
   );
   if (windMelds.length === 4) {
-    return { name: 'Big Four Winds', tai: 40 };
+    return { name: 'Big Four Winds', tai: limitTai };
   }
 
   // Big Three Dragons (大三元): pungs/kongs of all 3 dragons
@@ -228,7 +390,34 @@ function checkLimitHand(hand: WinningHand): ScoringDetail | null {
     m => (m.type === 'pung' || m.type === 'kong') && m.tiles[0].suit === 'dragons'
   );
   if (dragonMelds.length === 3) {
-    return { name: 'Big Three Dragons', tai: 40 };
+    return { name: 'Big Three Dragons', tai: limitTai };
+  }
+
+  // Small Four Winds (小四喜): 3 wind pungs/kongs + wind pair
+  if (windMelds.length === 3 && hand.pair[0]?.suit === 'winds') {
+    return { name: 'Small Four Winds', tai: limitTai };
+  }
+
+  // All Honours (字一色): winds and dragons only
+  if (tiles.every(t => t.isHonor)) {
+    return { name: 'All Honours', tai: limitTai };
+  }
+
+  // All Terminals (清幺九): 1s and 9s only
+  if (tiles.every(t => t.isTerminal)) {
+    return { name: 'All Terminals', tai: limitTai };
+  }
+
+  // Nine Gates (九莲宝灯)
+  if (isNineGates(hand)) {
+    return { name: 'Nine Gates', tai: limitTai };
+  }
+
+  // Four Concealed Pungs (四暗刻): a pung completed by a discard counts as
+  // exposed, but a discard that completes the pair keeps all four concealed
+  const concealedPungs = hand.melds.filter(m => isPungLike(m) && m.concealed);
+  if (concealedPungs.length === 4) {
+    return { name: 'Four Concealed Pungs', tai: limitTai };
   }
 
   return null;
@@ -238,30 +427,47 @@ function checkLimitHand(hand: WinningHand): ScoringDetail | null {
 // Main scoring entry point
 // ---------------------------------------------------------------------------
 
+/** Detail name of the chicken hand, which never counts toward a minimum. */
+export const CHICKEN_HAND = 'Minimum Hand (Chicken)';
+
 /**
- * Score a winning hand. Returns total tai and breakdown.
- * Singapore Mahjong: minimum 1 tai to win, limit typically 40 tai.
+ * Score a winning hand under a rule set. Returns total tai and breakdown.
+ * Singapore standard: minimum 1 tai (chicken hand), limit 40 tai.
  */
-export function scoreHand(hand: WinningHand): ScoringResult {
+export function scoreHand(hand: WinningHand, rules: RuleSet = SINGAPORE_STANDARD_RULES): ScoringResult {
   // Limit hands override everything
-  const limit = checkLimitHand(hand);
+  const limit = checkLimitHand(hand, rules.limitTai);
   if (limit) {
     return { tai: limit.tai, details: [limit] };
   }
 
-  const details: ScoringDetail[] = [];
-
-  details.push(...scoreBonusTiles(hand.bonusTiles));
-  details.push(...scoreMelds(hand.melds, hand.seatWind, hand.prevailingWind));
-  details.push(...scoreHandPatterns(hand));
+  const details: ScoringDetail[] = [
+    ...scoreBonusTiles(hand.bonusTiles, hand.seatWind, rules.tai),
+    ...scoreMelds(hand.melds, hand.seatWind, hand.prevailingWind, rules.tai),
+    ...scoreHandPatterns(hand, rules.tai),
+    ...scoreWinContext(hand, rules.tai),
+  ].filter(d => d.tai > 0); // patterns a rule set values at 0 don't score
 
   const tai = details.reduce((sum, d) => sum + d.tai, 0);
 
-  // Minimum 1 tai to win (chicken hand / 鸡和)
-  const finalTai = Math.max(tai, 1);
-  if (tai === 0) {
-    details.push({ name: 'Minimum Hand (Chicken)', tai: 1 });
+  // Minimum hand value (chicken hand / 鸡和)
+  if (tai === 0 && rules.chickenHandTai > 0) {
+    details.push({ name: CHICKEN_HAND, tai: rules.chickenHandTai });
+    return { tai: rules.chickenHandTai, details };
   }
 
-  return { tai: finalTai, details };
+  return { tai, details };
+}
+
+/**
+ * Check a scored hand against the rule set's minimum tai to call Hu.
+ * The chicken-hand tai never counts, and bonus tiles don't count when
+ * `minimumTaiExcludesBonus` is set.
+ */
+export function meetsMinimumTai(result: ScoringResult, rules: RuleSet = SINGAPORE_STANDARD_RULES): boolean {
+  if (rules.minimumTai <= 0) return true;
+  const tai = result.details
+    .filter(d => d.name !== CHICKEN_HAND && !(rules.minimumTaiExcludesBonus && d.bonus))
+    .reduce((sum, d) => sum + d.tai, 0);
+  return tai >= rules.minimumTai;
 }
@@ -0,0 +1,247 @@
+/**
+ * Shanten and Tile Acceptance for Singapore Mahjong
+ *
+ * Shanten is the number of tiles a hand is away from ready (waiting):
+ * 0 = ready, -1 = complete, 1 = one useful tile from ready, and so on.
+ * Standard hands (4 sets + pair), Seven Pairs and Thirteen Orphans are
+ * all considered; the best of the three counts.
+ *
+ * On top of that, lists the tiles that would improve a hand (ukeire) and,
+ * for each possible discard, what the hand would be left waiting to improve on.
+ */
+
+import { Tile, tileKey, TILE_KINDS } from './tiles';
+import { MeldedSet } from './scoring';
+import { WaitingTile, TableView, countUnseenTiles } from './hand-parser';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DiscardOption {
+  /** The tile from hand to discard. */
+  tile: Tile;
+  /** Shanten of the hand left after discarding it. */
+  shanten: number;
+  /** Tiles that would lower that shanten, with copies still unseen. */
+  improvingTiles: WaitingTile[];
+  /** Total unseen copies of the improving tiles. */
+  improvingCount: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Index of each tile kind (0-33) in TILE_KINDS order: suits 1-9, winds, dragons. */
+const KIND_INDEX = new Map(TILE_KINDS.map((t, i) => [tileKey(t), i]));
+
+/** Kind indices of the 13 terminals and honors. */
+const ORPHAN_INDICES = TILE_KINDS
+  .map((t, i) => (t.isHonor || t.isTerminal ? i : -1))
+  .filter(i => i >= 0);
+
+function toCounts(tiles: Tile[]): number[] {
+  const counts = new Array<number>(TILE_KINDS.length).fill(0);
+  for (const t of tiles) {
+    const i = KIND_INDEX.get(tileKey(t));
+    if (i !== undefined) counts[i]++;
+  }
+  return counts;
+}
+
+// ---------------------------------------------------------------------------
+// Shanten
+// ---------------------------------------------------------------------------
+
+/** Sets, partial sets and eyes (0 or 1) found in part of a hand. */
+type Blocks = [sets: number, partials: number, pair: number];
+
+/** Per-suit block options, cached by the suit's tile counts. */
+const blockCache = new Map<string, Blocks[]>();
+
+/** Drop options another option beats or equals on every count. */
+function paretoFilter(options: Blocks[]): Blocks[] {
+  return options.filter((a, i) => !options.some((b, j) =>
+    j !== i && b[0] >= a[0] && b[1] >= a[1] && b[2] >= a[2] && (j < i || b.some((v, n) => v > a[n])),
+  ));
+}
+
+/**
+ * Every useful way to split one suit (9 numbered kinds, or the winds or
+ * dragons) into sets, partial sets and a pair.
+ */
+function suitBlocks(counts: number[], sequences: boolean): Blocks[] {
+  const cacheKey = (sequences ? 's' : 'h') + counts.join('');
+  const cached = blockCache.get(cacheKey);
+  if (cached) return cached;
+
+  const found: Blocks[] = [];
+  const c = [...counts];
+
+  const scan = (i: number, sets: number, partials: number, pair: number): void => {
+    while (i < c.length && c[i] === 0) i++;
+    if (i >= c.length) {
+      found.push([sets, partials, pair]);
+      return;
+    }
+
+    // Pung
+    if (c[i] >= 3) {
+      c[i] -= 3;
+      scan(i, sets + 1, partials, pair);
+      c[i] += 3;
+    }
+    // Chow
+    if (sequences && i + 2 < c.length && c[i + 1] > 0 && c[i + 2] > 0) {
+      c[i]--; c[i + 1]--; c[i + 2]--;
+      scan(i, sets + 1, partials, pair);
+      c[i]++; c[i + 1]++; c[i + 2]++;
+    }
+    if (c[i] >= 2) {
+      // Pair as the eyes, or waiting to become a pung
+      c[i] -= 2;
+      if (!pair) scan(i, sets, partials, 1);
+      scan(i, sets, partials + 1, pair);
+      c[i] += 2;
+    }
+    // Two-sided / edge partial (e.g. 4-5) and closed partial (e.g. 4-6)
+    for (const gap of sequences ? [1, 2] : []) {
+      if (i + gap < c.length && c[i + gap] > 0) {
+        c[i]--; c[i + gap]--;
+        scan(i, sets, partials + 1, pair);
+        c[i]++; c[i + gap]++;
+      }
+    }
+    // Leave the remaining copies isolated (uses of them were tried above)
+    const remaining = c[i];
+    c[i] = 0;
+    scan(i + 1, sets, partials, pair);
+    c[i] = remaining;
+  };
+
+  scan(0, 0, 0, 0);
+  const options = paretoFilter(found);
+  blockCache.set(cacheKey, options);
+  return options;
+}
+
+/** Suit boundaries in TILE_KINDS order: [start, length, forms sequences]. */
+const SUIT_RANGES: [number, number, boolean][] = [
+  [0, 9, true], [9, 9, true], [18, 9, true], [27, 4, false], [31, 3, false],
+];
+
+/**
+ * Standard-hand shanten: 8 − 2×sets − partial sets − pair, with at most
+ * 4 sets and partials counted together. `fixedSets` are open melds.
+ * Each suit is split independently (and cached), then the suits combined.
+ */
+function standardShanten(counts: number[], fixedSets: number): number {
+  let combos: Blocks[] = [[fixedSets, 0, 0]];
+  for (const [start, length, sequences] of SUIT_RANGES) {
+    const options = suitBlocks(counts.slice(start, start + length), sequences);
+    const next: Blocks[] = [];
+    for (const a of combos) {
+      for (const b of options) {
+        if (a[2] && b[2]) continue; // only one pair can be the eyes
+        next.push([a[0] + b[0], a[1] + b[1], a[2] + b[2]]);
+      }
+    }
+    combos = paretoFilter(next);
+  }
+
+  let best = 8;
+  for (const [sets, partials, pair] of combos) {
+    const usedSets = Math.min(sets, 4);
+    best = Math.min(best, 8 - 2 * usedSets - Math.min(partials, 4 - usedSets) - pair);
+  }
+  return best;
+}
+
+/** Seven Pairs shanten: 6 − pairs, plus any shortfall in distinct kinds. */
+function sevenPairsShanten(counts: number[]): number {
+  const pairs = counts.filter(c => c >= 2).length;
+  const kinds = counts.filter(c => c > 0).length;
+  return 6 - pairs + Math.max(0, 7 - kinds);
+}
+
+/** Thirteen Orphans shanten: 13 − distinct orphans − (1 if any orphan is paired). */
+function thirteenOrphansShanten(counts: number[]): number {
+  const kinds = ORPHAN_INDICES.filter(i => counts[i] > 0).length;
+  const paired = ORPHAN_INDICES.some(i => counts[i] >= 2);
+  return 13 - kinds - (paired ? 1 : 0);
+}
+
+/**
+ * Shanten of a hand (concealed tiles plus open melds). Seven Pairs and
+ * Thirteen Orphans only apply while the hand has no melds declared.
+ */
+export function calculateShanten(handTiles: Tile[], openMelds: MeldedSet[] = []): number {
+  const counts = toCounts(handTiles);
+  let shanten = standardShanten(counts, openMelds.length);
+  if (openMelds.length === 0) {
+    shanten = Math.min(shanten, sevenPairsShanten(counts), thirteenOrphansShanten(counts));
+  }
+  return shanten;
+}
+
+// ---------------------------------------------------------------------------
+// Tile Acceptance
+// ---------------------------------------------------------------------------
+
+/**
+ * Tiles that would lower the shanten of a hand awaiting a draw, with the
+ * copies still unseen (from the player's view, if given). Tiles the view's
+ * rules remove from the set are left out.
+ */
+export function getImprovingTiles(
+  handTiles: Tile[],
+  openMelds: MeldedSet[] = [],
+  view?: TableView,
+): WaitingTile[] {
+  const current = calculateShanten(handTiles, openMelds);
+  const own = countUnseenTiles(handTiles, openMelds);
+  const unseen = view ? countUnseenTiles(handTiles, openMelds, view) : own;
+  const removed = new Set(view?.state.rules.removedTiles);
+  const improving: WaitingTile[] = [];
+
+  for (const kind of TILE_KINDS) {
+    const k = tileKey(kind);
+    if (own.get(k) === 0 || removed.has(k)) continue;
+    if (calculateShanten([...handTiles, kind], openMelds) < current) {
+      improving.push({ tile: kind, unseen: unseen.get(k)! });
+    }
+  }
+  return improving;
+}
+
+/**
+ * For each distinct tile in a hand about to discard, the shanten left
+ * behind and the tiles that would then improve it. Sorted best first:
+ * lowest shanten, then most unseen improving tiles.
+ */
+export function analyzeDiscards(
+  handTiles: Tile[],
+  openMelds: MeldedSet[] = [],
+  view?: TableView,
+): DiscardOption[] {
+  const options: DiscardOption[] = [];
+  const tried = new Set<string>();
+
+  for (const tile of handTiles) {
+    const k = tileKey(tile);
+    if (tried.has(k)) continue;
+    tried.add(k);
+
+    const rest = handTiles.filter(t => t.id !== tile.id);
+    const improvingTiles = getImprovingTiles(rest, openMelds, view);
+    options.push({
+      tile,
+      shanten: calculateShanten(rest, openMelds),
+      improvingTiles,
+      improvingCount: improvingTiles.reduce((sum, w) => sum + w.unseen, 0),
+    });
+  }
+
+  return options.sort((a, b) => a.shanten - b.shanten || b.improvingCount - a.improvingCount);
+}
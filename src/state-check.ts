@@ -0,0 +1,165 @@
+/**
+ * Game State Invariants for Singapore Mahjong
+ *
+ * Engine bugs tend to surface as impossible tables: a hand of 12 or 15
+ * tiles, a tile in two places at once, a "pung" of three different tiles.
+ * validateGameState checks a GameState for these and lists every problem
+ * it finds; assertValidGameState throws on the first state that has any.
+ *
+ * Used by the tests and, as a debug assertion, by GameController and the
+ * server's GameRunner.
+ */
+
+import { Tile, tileKey } from './tiles';
+import { MeldedSet } from './scoring';
+import { GameState } from './game-types';
+import { createTileSet } from './wall';
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+/**
+ * Every tile of the rules' set (all 148 in the standard game) must be in
+ * exactly one place: the wall, the dead wall, or a player's hand, melds,
+ * bonus tiles or discards. Bonus tiles may only be set aside, never held
+ * or discarded.
+ */
+function checkTileConservation(state: GameState, problems: string[]): void {
+  const tileSet = createTileSet(state.rules);
+  const tileIds = new Set(tileSet.map(t => t.id));
+  const seen = new Map<string, string>();
+  const place = (tiles: Tile[], where: string, bonus: 'any' | 'only' | 'none') => {
+    for (const tile of tiles) {
+      if (!tileIds.has(tile.id)) {
+        problems.push(`${where} holds unknown tile ${tile.id}`);
+        continue;
+      }
+      const other = seen.get(tile.id);
+      if (other) {
+        problems.push(`tile ${tile.id} is in both ${other} and ${where}`);
+        continue;
+      }
+      seen.set(tile.id, where);
+      if (bonus === 'only' && !tile.isBonus) problems.push(`${where} holds non-bonus tile ${tile.id}`);
+      if (bonus === 'none' && tile.isBonus) problems.push(`${where} holds bonus tile ${tile.id}`);
+    }
+  };
+
+  place(state.wall, 'the wall', 'any');
+  place(state.deadWall, 'the dead wall', 'any');
+  state.players.forEach((player, i) => {
+    place(player.handTiles, `player ${i}'s hand`, 'none');
+    player.openMelds.forEach((meld, m) => place(meld.tiles, `player ${i}'s meld ${m + 1}`, 'none'));
+    place(player.bonusTiles, `player ${i}'s bonus tiles`, 'only');
+    place(player.discards, `player ${i}'s discards`, 'none');
+  });
+
+  // A tile claimed to win leaves the discard pile (or robbed kong) without joining a hand
+  const { result } = state;
+  if (state.phase === 'roundOver' && result?.type === 'win' && result.loserIndex !== undefined && state.lastDiscard) {
+    place([state.lastDiscard], 'the winning claim', 'none');
+  }
+
+  const missing = tileSet.filter(t => !seen.has(t.id));
+  if (missing.length > 0) {
+    problems.push(`${missing.length} tile(s) missing: ${missing.map(t => t.id).join(', ')}`);
+  }
+}
+
+/** The open claim window's tile must be where it was just played from. */
+function checkClaimWindow(state: GameState, problems: string[]): void {
+  if (state.phase !== 'claimWindow') return;
+  const { lastDiscard, lastDiscardPlayerIndex } = state;
+  if (!lastDiscard || lastDiscardPlayerIndex === null) {
+    problems.push('the claim window is open with no discard');
+    return;
+  }
+
+  const discarder = state.players[lastDiscardPlayerIndex];
+  const inPlace = state.robbingKong
+    ? discarder.openMelds.some(m => m.type === 'kong' && m.tiles.some(t => t.id === lastDiscard.id))
+    : discarder.discards[discarder.discards.length - 1]?.id === lastDiscard.id;
+  if (!inPlace) {
+    problems.push(`claimable tile ${lastDiscard.id} is not ${state.robbingKong ? 'in a kong' : 'on top of the discards'} of player ${lastDiscardPlayerIndex}`);
+  }
+}
+
+/**
+ * Counting each meld as three tiles, every hand holds 13 tiles — 14 for
+ * the player on turn after drawing or claiming, and for a self-drawn winner.
+ */
+function checkHandSizes(state: GameState, problems: string[]): void {
+  const { phase, result } = state;
+  const holdsFourteen = (i: number) => {
+    if (phase === 'postDraw' || phase === 'discard') return i === state.currentPlayerIndex;
+    return phase === 'roundOver' && result?.type === 'win' && result.loserIndex === undefined && i === result.winnerIndex;
+  };
+
+  state.players.forEach((player, i) => {
+    const size = player.handTiles.length + 3 * player.openMelds.length;
+    const expected = holdsFourteen(i) ? 14 : 13;
+    if (size !== expected) {
+      problems.push(`player ${i} holds ${size} tiles in phase ${phase}, expected ${expected}`);
+    }
+  });
+}
+
+/** Problem with a meld's shape, or null if it is a valid chow, pung or kong. */
+function meldProblem(meld: MeldedSet, playerIndex: number): string | null {
+  const { tiles } = meld;
+  const size = meld.type === 'kong' ? 4 : 3;
+  if (tiles.length !== size) return `a ${meld.type} of ${tiles.length} tiles`;
+  if (tiles.some(t => t.isBonus)) return `a ${meld.type} with a bonus tile`;
+
+  if (meld.type === 'chow') {
+    const values = tiles.map(t => t.value as number).sort((a, b) => a - b);
+    const sameSuit = tiles.every(t => t.suit === tiles[0].suit && !t.isHonor);
+    if (!sameSuit || values[1] !== values[0] + 1 || values[2] !== values[1] + 1) {
+      return 'a chow that is not a run in one suit';
+    }
+  } else if (!tiles.every(t => tileKey(t) === tileKey(tiles[0]))) {
+    return `a ${meld.type} of different tiles`;
+  }
+
+  if (meld.concealed && meld.type !== 'kong') return `a concealed ${meld.type}`;
+  if (meld.claimedFrom !== undefined && (meld.concealed || meld.claimedFrom === playerIndex)) {
+    return `a ${meld.type} claimed from player ${meld.claimedFrom}`;
+  }
+  return null;
+}
+
+function checkMelds(state: GameState, problems: string[]): void {
+  state.players.forEach((player, i) => {
+    player.openMelds.forEach((meld, m) => {
+      const problem = meldProblem(meld, i);
+      if (problem) problems.push(`player ${i}'s meld ${m + 1} is ${problem}`);
+    });
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Check a state's invariants: every tile accounted for exactly once, hand
+ * sizes that fit the phase, and well-formed melds. Returns a description
+ * of each problem found; an empty list means the state is consistent.
+ */
+export function validateGameState(state: GameState): string[] {
+  const problems: string[] = [];
+  checkTileConservation(state, problems);
+  checkClaimWindow(state, problems);
+  checkHandSizes(state, problems);
+  checkMelds(state, problems);
+  return problems;
+}
+
+/** Throw if a state breaks any invariant checked by validateGameState. */
+export function assertValidGameState(state: GameState): void {
+  const problems = validateGameState(state);
+  if (problems.length > 0) {
+    throw new Error(`Invalid game state: ${problems.join('; ')}`);
+  }
+}
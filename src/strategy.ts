@@ -0,0 +1,75 @@
+/**
+ * Player Strategies for Singapore Mahjong
+ *
+ * A PlayerStrategy decides a seat's move when the game loop asks:
+ * stepGame, advanceGame and the claim window call `decide` for every seat
+ * they play, whatever sits behind it — the heuristic AI, an LLM, a
+ * webhook, or a scripted test bot. Strategies are registered per seat, and
+ * by default follow each player's PlayerType ('ai' plays aiStrategy,
+ * 'human' plays humanStrategy).
+ *
+ * Human seats are external: the loop stops when one of them has a decision
+ * to make, and their move arrives later through the game controller.
+ */
+
+import { PerSeat, GameState, PlayerAction } from './game-types';
+import { AIDecision, getAIDecision, fallbackDecision } from './ai';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PlayerStrategy {
+  /**
+   * Choose one of `validActions` for the seat. Not called for external
+   * strategies.
+   */
+  decide(state: GameState, seat: number, validActions: PlayerAction[]): Promise<AIDecision>;
+  /**
+   * Set for seats whose moves come from outside the loop (a person at the
+   * table): the loop pauses for them instead of calling decide.
+   */
+  readonly external?: boolean;
+}
+
+/** One strategy per seat of the table. */
+export type SeatStrategies = PerSeat<PlayerStrategy>;
+
+// ---------------------------------------------------------------------------
+// Strategies
+// ---------------------------------------------------------------------------
+
+/** The AI opponent: an LLM when one is configured, the heuristic otherwise. */
+export const aiStrategy: PlayerStrategy = {
+  decide: getAIDecision,
+};
+
+/** The rule-based heuristic alone: deterministic and offline. */
+export const heuristicStrategy: PlayerStrategy = {
+  decide: async (state, seat, validActions) => fallbackDecision(state, seat, validActions),
+};
+
+/** A person at the table, who acts through the UI. */
+export const humanStrategy: PlayerStrategy = {
+  external: true,
+  decide: async () => {
+    throw new Error('Human players act through the game controller, not the game loop');
+  },
+};
+
+/**
+ * A strategy from a plain function, for scripted bots and tests. The
+ * chosen action must be one of `validActions`.
+ */
+export function createScriptedStrategy(
+  choose: (state: GameState, seat: number, validActions: PlayerAction[]) => PlayerAction,
+): PlayerStrategy {
+  return {
+    decide: async (state, seat, validActions) => ({ action: choose(state, seat, validActions) }),
+  };
+}
+
+/** The strategies a state's player types call for: AI seats play aiStrategy, humans are external. */
+export function defaultStrategies(state: GameState): SeatStrategies {
+  return state.players.map(p => (p.type === 'ai' ? aiStrategy : humanStrategy)) as SeatStrategies;
+}
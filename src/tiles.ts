@@ -10,8 +10,13 @@
  *   Flowers (Plum/Orchid/Bamboo/Chrysanthemum) x1 = 4
  *   Seasons (Spring/Summer/Autumn/Winter) x1 = 4
  *   Animals (Cat/Mouse/Rooster/Centipede) x1 = 4
+ *
+ * Also a compact notation for writing tiles and hands, e.g. `123b456d789c11E22R`
+ * or `[123b][555d]456c11E` (see parseTiles / parseHandNotation).
  */
 
+import type { MeldedSet } from './scoring';
+
 export type NumberedSuit = 'bamboo' | 'dots' | 'characters';
 export type HonorSuit = 'winds' | 'dragons';
 export type BonusSuit = 'flowers' | 'seasons' | 'animals';
@@ -120,6 +125,9 @@ export function createAllTiles(): Tile[] {
 
 export const ALL_TILES = createAllTiles();
 
+/** One tile (the first copy) of each of the 34 non-bonus kinds. */
+export const TILE_KINDS: Tile[] = ALL_TILES.filter(t => !t.isBonus && t.id.endsWith('_1'));
+
 export const TILE_COUNTS = {
   bamboo: 36,
   dots: 36,
@@ -141,3 +149,146 @@ export function tilesMatch(a: Tile, b: Tile): boolean {
 export function tileKey(t: Tile): string {
   return `${t.suit}_${t.value}`;
 }
+
+// ---------------------------------------------------------------------------
+// Compact Notation
+// ---------------------------------------------------------------------------
+
+/**
+ * Suit letters of the compact notation. Each digit before a letter is one
+ * tile of that suit, numbered in the usual order: `123b` is Bamboo 1, 2, 3
+ * and `14E` is East and North. Flowers and seasons follow the seat numbers
+ * (see SEAT_FLOWERS in scoring.ts): `1234f` is Plum, Orchid, Chrysanthemum,
+ * Bamboo. `[...]` wraps an exposed meld and `(...)` a concealed kong.
+ */
+const NOTATION_SUITS: Record<string, { suit: TileSuit; values: Tile['value'][] }> = {
+  b: { suit: 'bamboo', values: [1, 2, 3, 4, 5, 6, 7, 8, 9] },
+  d: { suit: 'dots', values: [1, 2, 3, 4, 5, 6, 7, 8, 9] },
+  c: { suit: 'characters', values: [1, 2, 3, 4, 5, 6, 7, 8, 9] },
+  E: { suit: 'winds', values: ['east', 'south', 'west', 'north'] },
+  R: { suit: 'dragons', values: ['red', 'green', 'white'] },
+  f: { suit: 'flowers', values: ['plum', 'orchid', 'chrysanthemum', 'bamboo'] },
+  s: { suit: 'seasons', values: ['spring', 'summer', 'autumn', 'winter'] },
+  a: { suit: 'animals', values: ['cat', 'mouse', 'rooster', 'centipede'] },
+};
+
+const NOTATION_LETTERS = new Map(
+  Object.entries(NOTATION_SUITS).map(([letter, { suit }]) => [suit, letter]),
+);
+
+/** Tiles written in notation and parsed as a hand: declared melds plus concealed tiles. */
+export interface HandNotation {
+  melds: MeldedSet[];
+  concealed: Tile[];
+}
+
+/**
+ * Parse one run of digit groups (no brackets) into tiles. Each tile gets
+ * the lowest copy of its kind not yet in `taken`, so ids stay unique.
+ */
+function parseTileRun(notation: string, taken: Set<string>): Tile[] {
+  const tiles: Tile[] = [];
+  const groups = notation.replace(/\s+/g, '').match(/\d+[A-Za-z]|./g) ?? [];
+
+  for (const group of groups) {
+    const suitDef = NOTATION_SUITS[group.slice(-1)];
+    if (!suitDef || !/^\d+$/.test(group.slice(0, -1))) {
+      throw new Error(`Invalid tile notation: '${group}' in '${notation}'`);
+    }
+    for (const digit of group.slice(0, -1)) {
+      const value = suitDef.values[Number(digit) - 1];
+      if (value === undefined) {
+        throw new Error(`Invalid tile notation: no ${suitDef.suit} tile ${digit}`);
+      }
+      const tile = ALL_TILES.find(
+        t => t.suit === suitDef.suit && t.value === value && !taken.has(t.id),
+      );
+      if (!tile) {
+        throw new Error(`Invalid tile notation: too many ${suitDef.suit} ${value} tiles`);
+      }
+      taken.add(tile.id);
+      tiles.push(tile);
+    }
+  }
+  return tiles;
+}
+
+/** Work out which meld a group of tiles forms, or throw. */
+function meldFromTiles(tiles: Tile[], concealed: boolean): MeldedSet {
+  const sameKind = tiles.every(t => tilesMatch(t, tiles[0]));
+  if (sameKind && (tiles.length === 3 || tiles.length === 4)) {
+    return { type: tiles.length === 3 ? 'pung' : 'kong', tiles, concealed };
+  }
+
+  const values = tiles.map(t => t.value as number).sort((a, b) => a - b);
+  const isChow = tiles.length === 3
+    && tiles.every(t => t.suit === tiles[0].suit && !t.isHonor && !t.isBonus)
+    && values[1] === values[0] + 1 && values[2] === values[1] + 1;
+  if (isChow) return { type: 'chow', tiles, concealed };
+
+  throw new Error(`Invalid tile notation: ${formatTiles(tiles)} is not a meld`);
+}
+
+/**
+ * Parse compact notation into tiles, e.g. `123b456d789c11E22R`.
+ * Repeated kinds get successive copies (`55d` is Dots 5 copies 1 and 2).
+ * Throws on unknown letters, out-of-range digits or more copies than exist.
+ */
+export function parseTiles(notation: string): Tile[] {
+  return parseTileRun(notation, new Set());
+}
+
+/**
+ * Format tiles as compact notation, keeping their order and writing the
+ * suit letter once per run of the same suit.
+ */
+export function formatTiles(tiles: Tile[]): string {
+  let out = '';
+  tiles.forEach((tile, i) => {
+    const { values } = NOTATION_SUITS[NOTATION_LETTERS.get(tile.suit)!];
+    out += values.indexOf(tile.value) + 1;
+    if (tiles[i + 1]?.suit !== tile.suit) out += NOTATION_LETTERS.get(tile.suit);
+  });
+  return out;
+}
+
+/**
+ * Parse a hand with declared melds, e.g. `[123b][555d](9999c)11E`:
+ * each `[...]` is an exposed meld, each `(...)` a concealed kong, and the
+ * remaining tiles are concealed in hand. Tile ids are unique across the hand.
+ * Throws on unbalanced or nested brackets and on a `(...)` that is not four
+ * identical tiles.
+ */
+export function parseHandNotation(notation: string): HandNotation {
+  const taken = new Set<string>();
+  const melds: MeldedSet[] = [];
+  const concealed: Tile[] = [];
+
+  // An exposed meld, a concealed kong, loose tiles, or a stray bracket.
+  const tokens = /\[([^[\]()]*)\]|\(([^[\]()]*)\)|([^[\]()]+)|./g;
+
+  for (const [token, exposed, hidden, loose] of notation.matchAll(tokens)) {
+    if (loose !== undefined) {
+      concealed.push(...parseTileRun(loose, taken));
+    } else if (exposed !== undefined) {
+      melds.push(meldFromTiles(parseTileRun(exposed, taken), false));
+    } else if (hidden !== undefined) {
+      const meld = meldFromTiles(parseTileRun(hidden, taken), true);
+      if (meld.type !== 'kong') {
+        throw new Error(`Invalid tile notation: (${hidden}) is not a concealed kong`);
+      }
+      melds.push(meld);
+    } else {
+      throw new Error(`Invalid tile notation: unbalanced '${token}' in '${notation}'`);
+    }
+  }
+  return { melds, concealed };
+}
+
+/** Format declared melds and concealed tiles as hand notation (melds first). */
+export function formatHand(concealed: Tile[], melds: MeldedSet[] = []): string {
+  const meldText = melds
+    .map(m => (m.concealed ? `(${formatTiles(m.tiles)})` : `[${formatTiles(m.tiles)}]`))
+    .join('');
+  return meldText + formatTiles(concealed);
+}
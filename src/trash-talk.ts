@@ -3,6 +3,8 @@
  * Keyed by game action context, returned randomly (~30% chance).
  */
 
+import { createRandom } from './random';
+
 const phrases: Record<string, string[]> = {
   pong: ['Too slow!', 'Mine!', "I'll take that!", 'Pong! 😏'],
   kong: ['Four of a kind!', 'Kong! 💪', 'Nobody can stop me!'],
@@ -18,10 +20,12 @@ const TRIGGER_CHANCE = 0.3;
 /**
  * Returns a random canned phrase for the given context ~30% of the time.
  * Returns null otherwise (to avoid being overwhelming).
+ * Pass a seed to make the choice reproducible.
  */
-export function getTrashTalk(context: string): string | null {
-  if (Math.random() > TRIGGER_CHANCE) return null;
+export function getTrashTalk(context: string, seed?: number): string | null {
+  const random = seed === undefined ? Math.random : createRandom(seed);
+  if (random() > TRIGGER_CHANCE) return null;
   const pool = phrases[context];
   if (!pool || pool.length === 0) return null;
-  return pool[Math.floor(Math.random() * pool.length)];
+  return pool[Math.floor(random() * pool.length)];
 }
@@ -1,13 +1,18 @@
 /**
  * Wall Building and Dealing for Singapore Mahjong
  *
- * The wall consists of all 148 tiles, shuffled and arranged.
+ * The wall consists of all 148 tiles, less any the RuleSet removes (the
+ * three-player variant plays without characters 2-8), shuffled (from a
+ * seed) and arranged.
  * Dealing: 13 tiles to each player, +1 extra to dealer (East).
  * Bonus tiles drawn during deal are replaced from the back of the wall.
- * The last 14 tiles form the dead wall (for kong replacements).
+ * The last 14 tiles form the dead wall (for kong replacements); the size
+ * comes from the RuleSet.
  */
 
-import { Tile, createAllTiles, Wind } from './tiles';
+import { Tile, createAllTiles, tileKey, Wind } from './tiles';
+import { RuleSet, SINGAPORE_STANDARD_RULES } from './rules';
+import { Random, createRandom, randomSeed } from './random';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -27,8 +32,20 @@ export interface GameSetup {
   wall: Tile[];
   /** Dead wall reserved for kong replacements. */
   deadWall: Tile[];
-  /** Four players in seat order: East, South, West, North. */
-  players: [PlayerHand, PlayerHand, PlayerHand, PlayerHand];
+  /** One hand per seat (rules.seats), by player index. */
+  players: PlayerHand[];
+  /** Seed the wall was shuffled with — dealing again with it gives the same setup. */
+  seed: number;
+}
+
+// ---------------------------------------------------------------------------
+// Tile Set
+// ---------------------------------------------------------------------------
+
+/** The tiles a round is played with: every tile except the kinds the rules remove. */
+export function createTileSet(rules: RuleSet = SINGAPORE_STANDARD_RULES): Tile[] {
+  const removed = new Set(rules.removedTiles);
+  return createAllTiles().filter(t => !removed.has(tileKey(t)));
 }
 
 // ---------------------------------------------------------------------------
@@ -36,9 +53,9 @@ export interface GameSetup {
 // ---------------------------------------------------------------------------
 
 /** Fisher-Yates shuffle (in-place). */
-function shuffle(tiles: Tile[]): void {
+function shuffle(tiles: Tile[], random: Random): void {
   for (let i = tiles.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [tiles[i], tiles[j]] = [tiles[j], tiles[i]];
   }
 }
@@ -50,33 +67,41 @@ function shuffle(tiles: Tile[]): void {
 /**
  * Build wall, deal tiles, and set up the game.
  *
- * 1. Shuffle all 148 tiles.
- * 2. Reserve last 14 tiles as dead wall.
+ * 1. Shuffle the tile set (all 148 tiles, less any the rules remove).
+ * 2. Reserve the last `rules.deadWallSize` tiles (14) as dead wall.
  * 3. Deal 13 tiles to each player.
  * 4. Deal 1 extra tile to dealer.
  * 5. Replace any bonus tiles in each player's hand from the back of the
  *    live wall, moving bonus tiles to the player's bonusTiles array.
  *
- * @param dealerIndex - Which player index (0-3) is dealer. Defaults to 0.
- *   Dealer always gets seat wind 'east'. Other seats rotate accordingly.
+ * @param dealerIndex - Which player index is dealer. Defaults to 0.
+ *   Dealer always gets seat wind 'east'. Other seats rotate accordingly;
+ *   with three seats there is no North.
+ * @param rules - House rules (seats, tile set, dead wall size). Defaults to Singapore standard.
+ * @param seed - Shuffle seed. Defaults to a fresh random seed.
  */
-export function dealGame(dealerIndex: number = 0): GameSetup {
-  const allTiles = createAllTiles();
-  shuffle(allTiles);
+export function dealGame(
+  dealerIndex: number = 0,
+  rules: RuleSet = SINGAPORE_STANDARD_RULES,
+  seed: number = randomSeed(),
+): GameSetup {
+  const allTiles = createTileSet(rules);
+  shuffle(allTiles, createRandom(seed));
 
-  // Reserve dead wall (last 14 tiles)
-  const deadWall = allTiles.splice(allTiles.length - 14, 14);
+  // Reserve dead wall (last tiles)
+  const deadWall = allTiles.splice(allTiles.length - rules.deadWallSize, rules.deadWallSize);
 
   // Live wall is the remaining tiles
   const wall = allTiles;
 
   // Seat winds rotate so dealer is always East
   const allSeats: Wind[] = ['east', 'south', 'west', 'north'];
-  const players = [0, 1, 2, 3].map((i): PlayerHand => ({
-    seat: allSeats[(i - dealerIndex + 4) % 4],
+  const seats = rules.seats;
+  const players = Array.from({ length: seats }, (_, i): PlayerHand => ({
+    seat: allSeats[(i - dealerIndex + seats) % seats],
     handTiles: [],
     bonusTiles: [],
-  })) as [PlayerHand, PlayerHand, PlayerHand, PlayerHand];
+  }));
 
   // Deal 13 tiles to each player (4 tiles at a time x3 rounds, then 1 each)
   for (let round = 0; round < 3; round++) {
@@ -96,7 +121,7 @@ export function dealGame(dealerIndex: number = 0): GameSetup {
     replaceBonusTiles(player, wall);
   }
 
-  return { wall, deadWall, players };
+  return { wall, deadWall, players, seed };
 }
 
 /**
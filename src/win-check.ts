@@ -0,0 +1,204 @@
+/**
+ * Win Evaluation for Singapore Mahjong
+ *
+ * Turns a player's hand (plus an optional claimed tile) into the
+ * best-scoring winning result, and decides whether that result is
+ * enough to call Hu under the table's minimum-tai rule. Hands are scored
+ * by the rule set's scoring system: scoreHand for Singapore, or
+ * scoreHongKongHand for Hong Kong Old Style.
+ *
+ * Separated from game.ts so the AI can evaluate wins without importing
+ * the engine (game.ts already imports ai.ts).
+ */
+
+import { Tile } from './tiles';
+import { MeldedSet, ScoringResult, WinningHand, scoreHand, meetsMinimumTai } from './scoring';
+import { scoreHongKongHand } from './hk-scoring';
+import { parseHandWithMelds, ParseResult } from './hand-parser';
+import { PlayerState, GameState, GameResult, Responsibility } from './game-types';
+import { RuleSet } from './rules';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Build a full 14-tile array for a player by combining concealed hand + open meld tiles,
+ * as scoring looks at every tile of the winning hand.
+ */
+export function reconstructFullHand(player: PlayerState, extraTile?: Tile): Tile[] {
+  const tiles: Tile[] = [...player.handTiles];
+  if (extraTile) tiles.push(extraTile);
+  for (const meld of player.openMelds) {
+    // For kongs, only add 3 tiles so the hand stays at 14
+    if (meld.type === 'kong') {
+      tiles.push(...meld.tiles.slice(0, 3));
+    } else {
+      tiles.push(...meld.tiles);
+    }
+  }
+  return tiles;
+}
+
+/**
+ * A pung completed by a discard counts as exposed: mark the parsed pung of
+ * the claimed tile's kind, if there is one. A claimed tile that completes
+ * the pair leaves every pung concealed.
+ */
+function exposeClaimedPung(melds: MeldedSet[], claimedTile: Tile): MeldedSet[] {
+  const completed = melds.findIndex(m => m.type === 'pung' && m.concealed
+    && m.tiles.some(t => t.id === claimedTile.id));
+  return completed < 0 ? melds : melds.map((m, i) => (i === completed ? { ...m, concealed: false } : m));
+}
+
+/** Score a winning hand under the rule set's scoring system. */
+export function scoreWinningHand(hand: WinningHand, rules: RuleSet): ScoringResult {
+  return rules.scoringSystem === 'hongKongOldStyle' ? scoreHongKongHand(hand, rules) : scoreHand(hand, rules);
+}
+
+// ---------------------------------------------------------------------------
+// Win Evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the best-scoring GameResult from parse results. Each decomposition
+ * must already include the player's declared melds (see parseHandWithMelds).
+ */
+export function buildBestWinResult(
+  state: GameState,
+  playerIndex: number,
+  parseResult: ParseResult,
+  claimedTile: Tile | undefined,
+  selfDrawn: boolean,
+): GameResult {
+  const player = state.players[playerIndex];
+  const isFirstDraw = !state.firstTurnComplete;
+  const winContext = {
+    lastTile: selfDrawn && !state.kongReplacementDraw && state.wall.length <= state.rules.reservedWallTiles,
+    kongReplacement: selfDrawn && state.kongReplacementDraw,
+    robbedKong: state.robbingKong,
+  };
+
+  let bestScoring = { tai: 0, details: [] as any[] };
+  let bestHand: WinningHand | null = null;
+
+  // Try each decomposition and pick the highest-scoring one
+  const decompositions = parseResult.decompositions;
+
+  // Also handle seven pairs and thirteen orphans as special decompositions
+  if (parseResult.sevenPairs || parseResult.thirteenOrphans || decompositions.length === 0) {
+    // Build a hand for special patterns
+    const fullTiles = reconstructFullHand(player, claimedTile);
+    const hand: WinningHand = {
+      handTiles: fullTiles,
+      melds: [],
+      pair: [],
+      bonusTiles: player.bonusTiles,
+      seatWind: player.seat,
+      prevailingWind: state.prevailingWind,
+      selfDrawn,
+      firstDraw: isFirstDraw,
+      ...winContext,
+    };
+    const scoring = scoreWinningHand(hand, state.rules);
+    if (scoring.tai > bestScoring.tai) {
+      bestScoring = scoring;
+      bestHand = hand;
+    }
+  }
+
+  for (const decomp of decompositions) {
+    const fullTiles = reconstructFullHand(player, claimedTile);
+    const hand: WinningHand = {
+      handTiles: fullTiles,
+      melds: selfDrawn ? decomp.melds : exposeClaimedPung(decomp.melds, claimedTile!),
+      pair: decomp.pair,
+      bonusTiles: player.bonusTiles,
+      seatWind: player.seat,
+      prevailingWind: state.prevailingWind,
+      selfDrawn,
+      firstDraw: isFirstDraw,
+      ...winContext,
+    };
+
+    const scoring = scoreWinningHand(hand, state.rules);
+    if (scoring.tai > bestScoring.tai || !bestHand) {
+      bestScoring = scoring;
+      bestHand = hand;
+    }
+  }
+
+  return {
+    type: 'win',
+    winnerIndex: playerIndex,
+    winningHand: bestHand!,
+    scoring: bestScoring,
+    loserIndex: selfDrawn ? undefined : state.lastDiscardPlayerIndex!,
+    responsibility: findResponsibility(player, bestScoring),
+  };
+}
+
+/**
+ * Find who must pay the whole hand (包), if anyone: the discarder who fed
+ * the last exposed dragon pung of Big Three Dragons, the last exposed wind
+ * pung of Big Four Winds, or the fourth exposed set of a full flush.
+ * A decisive set that is concealed or self-made leaves nobody responsible.
+ */
+export function findResponsibility(
+  player: PlayerState,
+  scoring: ScoringResult,
+): Responsibility | undefined {
+  const patterns = new Set(scoring.details.map(d => d.name));
+  const exposed = player.openMelds.filter(m => !m.concealed);
+  const exposedHonorSets = (suit: string) =>
+    exposed.filter(m => m.type !== 'chow' && m.tiles[0].suit === suit);
+
+  let pattern: string;
+  let decisive: MeldedSet | undefined;
+  if (patterns.has('Big Three Dragons')) {
+    pattern = 'Big Three Dragons';
+    const dragons = exposedHonorSets('dragons');
+    if (dragons.length === 3) decisive = dragons[2];
+  } else if (patterns.has('Big Four Winds')) {
+    pattern = 'Big Four Winds';
+    const winds = exposedHonorSets('winds');
+    if (winds.length === 4) decisive = winds[3];
+  } else if (patterns.has('Pure Hand')) {
+    pattern = 'Pure Hand';
+    if (exposed.length >= 4) decisive = exposed[3];
+  } else {
+    return undefined;
+  }
+
+  if (decisive?.claimedFrom === undefined) return undefined;
+  return { playerIndex: decisive.claimedFrom, pattern };
+}
+
+/**
+ * Evaluate a player's hand as a win, with an optional claimed tile
+ * (a discard or a robbed kong tile). Without one the win is self-drawn.
+ * Returns null if the tiles don't form a winning hand.
+ */
+export function evaluateWin(
+  state: GameState,
+  playerIndex: number,
+  claimedTile?: Tile,
+): GameResult | null {
+  const player = state.players[playerIndex];
+  const concealed = claimedTile ? [...player.handTiles, claimedTile] : player.handTiles;
+
+  // Declared melds stay as they were declared; only the concealed tiles are parsed
+  const parseResult = parseHandWithMelds(concealed, player.openMelds);
+  if (!parseResult.valid) return null;
+
+  return buildBestWinResult(state, playerIndex, parseResult, claimedTile, claimedTile === undefined);
+}
+
+/**
+ * Check if a player can win with their current hand (+ optional extra tile).
+ * The hand must also meet the rule set's minimum tai.
+ */
+export function canPlayerWin(state: GameState, playerIndex: number, extraTile?: Tile): boolean {
+  const result = evaluateWin(state, playerIndex, extraTile);
+  return result !== null && meetsMinimumTai(result.scoring!, state.rules);
+}